@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import { detectThoughtsLayout, setClonedProfile } from "./clone.js";
+import { linkRepository } from "./init.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("clone.ts helpers", () => {
+  let tmpDir: string;
+
+  const run = (command: string, cwd: string) =>
+    execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+
+  const mkdirs = (...dirs: string[]) =>
+    dirs.forEach((dir) =>
+      fs.mkdirSync(path.join(tmpDir, dir), { recursive: true }),
+    );
+
+  const gitRepo = (dir: string, remote?: string) => {
+    mkdirs(dir);
+    run("git init -q", path.join(tmpDir, dir));
+    if (remote) {
+      run(`git remote add origin ${remote}`, path.join(tmpDir, dir));
+    }
+    return path.join(tmpDir, dir);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-clone-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("detectThoughtsLayout()", () => {
+    it("should prefer the default directory names", () => {
+      mkdirs("thoughts/repos", "thoughts/global", "thoughts/archive/x/shared");
+
+      expect(detectThoughtsLayout(path.join(tmpDir, "thoughts"))).toEqual({
+        reposDir: "repos",
+        globalDir: "global",
+        detected: true,
+      });
+    });
+
+    it("should recognize custom names by their contents", () => {
+      mkdirs("thoughts/projects/app/shared", "thoughts/common/shared");
+
+      expect(detectThoughtsLayout(path.join(tmpDir, "thoughts"))).toEqual({
+        reposDir: "projects",
+        globalDir: "common",
+        detected: true,
+      });
+    });
+
+    it("should fall back to the defaults for an empty repository", () => {
+      mkdirs("thoughts");
+
+      expect(detectThoughtsLayout(path.join(tmpDir, "thoughts"))).toEqual({
+        reposDir: "repos",
+        globalDir: "global",
+        detected: false,
+      });
+    });
+  });
+
+  describe("setClonedProfile()", () => {
+    it("should keep the settings of an existing profile", () => {
+      const config: ThoughtsConfig = {
+        thoughtsRepo: "~/thoughts",
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {},
+        profiles: {
+          work: {
+            thoughtsRepo: "~/thoughts-work",
+            reposDir: "repos",
+            globalDir: "global",
+            hooks: "protect",
+          },
+        },
+      };
+      const layout = {
+        thoughtsRepo: "~/thoughts-work",
+        reposDir: "projects",
+        globalDir: "common",
+      };
+
+      setClonedProfile(config, "work", layout, "git@example.com:team/t.git");
+      setClonedProfile(config, "oss", layout, "https://example.com/oss.git");
+
+      expect(config.profiles).toEqual({
+        work: {
+          ...layout,
+          hooks: "protect",
+          remote: "git@example.com:team/t.git",
+        },
+        oss: { ...layout, remote: "https://example.com/oss.git" },
+      });
+    });
+  });
+
+  describe("linkRepository()", () => {
+    it("should link a mapped repository into the thoughts repository", async () => {
+      const thoughtsRepo = path.join(tmpDir, "thoughts");
+      mkdirs("thoughts/repos/app/bob", "thoughts/global");
+      const app = gitRepo("code/app");
+      const config: ThoughtsConfig = {
+        thoughtsRepo,
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: { [app]: { repo: "app" } },
+      };
+
+      const result = await linkRepository(config, app, "app");
+
+      expect(result.otherUsers).toEqual(["bob"]);
+      expect(fs.readlinkSync(path.join(app, "thoughts", "alice"))).toBe(
+        path.join(thoughtsRepo, "repos", "app", "alice"),
+      );
+      expect(fs.existsSync(path.join(app, "thoughts", "CLAUDE.md"))).toBe(true);
+      expect(fs.existsSync(path.join(app, ".git", "hooks", "pre-commit"))).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { execFileSync } from "child_process";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  getDefaultThoughtsRepo,
+  ensureThoughtsRepoExists,
+  expandPath,
+  getRepoRemoteUrl,
+  normalizeRemoteUrl,
+  sanitizeProfileName,
+  type ThoughtsConfig,
+} from "../thoughtsConfig.js";
+import type { ProfileConfig } from "../config.js";
+import { relinkRepositories } from "./relink.js";
+
+interface CloneOptions {
+  profile?: string;
+  scan?: string;
+  user?: string;
+  yes?: boolean;
+  configFile?: string;
+}
+
+export interface ThoughtsLayout {
+  reposDir: string;
+  globalDir: string;
+  detected: boolean; // False when the defaults were used
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+function listDirectories(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Works out which directories of a thoughts repository hold the per-project
+ * and the global notes. Project directories contain a shared/ directory of
+ * their own; the global directory contains shared/ directly.
+ */
+export function detectThoughtsLayout(repoPath: string): ThoughtsLayout {
+  const dirs = listDirectories(repoPath);
+  const hasShared = (dir: string) =>
+    fs.existsSync(path.join(repoPath, dir, "shared"));
+
+  const reposDir =
+    (dirs.includes("repos") && "repos") ||
+    dirs.find((dir) =>
+      listDirectories(path.join(repoPath, dir)).some((project) =>
+        hasShared(path.join(dir, project)),
+      ),
+    );
+  const globalDir =
+    (dirs.includes("global") && "global") ||
+    dirs.find((dir) => dir !== reposDir && hasShared(dir));
+
+  return {
+    reposDir: reposDir || "repos",
+    globalDir: globalDir || "global",
+    detected: !!reposDir && !!globalDir,
+  };
+}
+
+/**
+ * Records a cloned thoughts repository as a profile and the URL it came
+ * from. Settings an existing profile of that name has, such as its hooks
+ * policy, are kept.
+ */
+export function setClonedProfile(
+  config: ThoughtsConfig,
+  profileName: string,
+  repoConfig: Pick<ProfileConfig, "thoughtsRepo" | "reposDir" | "globalDir">,
+  url: string,
+): void {
+  config.profiles = {
+    ...config.profiles,
+    [profileName]: {
+      ...config.profiles?.[profileName],
+      ...repoConfig,
+      remote: url,
+    },
+  };
+}
+
+/**
+ * Clones the thoughts repository, or checks an existing clone of the same
+ * remote. Returns false if there was nothing to clone.
+ */
+export function cloneThoughtsRepo(url: string, target: string): boolean {
+  if (fs.existsSync(target) && fs.readdirSync(target).length > 0) {
+    const origin = getRepoRemoteUrl(target);
+    if (origin && origin === normalizeRemoteUrl(url)) {
+      return false;
+    }
+    throw new Error(
+      `${target} already exists and is not a clone of ${url}. Pass a different directory.`,
+    );
+  }
+
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  execFileSync("git", ["clone", url, target], { stdio: "inherit" });
+  return true;
+}
+
+/**
+ * Asks for the username of a new config, defaulting to $USER without a
+ * terminal
+ */
+export async function askForUser(options: { user?: string }): Promise<string> {
+  const defaultUser = process.env.USER || "user";
+  let user = options.user || "";
+
+  while (!user || user.toLowerCase() === "global") {
+    if (user.toLowerCase() === "global") {
+      console.log(
+        chalk.red(
+          'Username cannot be "global" as it\'s reserved for cross-project thoughts.',
+        ),
+      );
+      if (options.user || !process.stdin.isTTY) process.exit(1);
+    }
+    user = process.stdin.isTTY
+      ? (await prompt(`Your username [${defaultUser}]: `)) || defaultUser
+      : defaultUser;
+  }
+
+  return user;
+}
+
+async function askForScanDirectory(
+  options: CloneOptions,
+): Promise<string | undefined> {
+  if (options.scan) return expandPath(options.scan);
+  if (!process.stdin.isTTY) return undefined;
+
+  console.log("");
+  const answer = await prompt(
+    "Directory with code repositories to link, e.g. ~/code (empty to skip): ",
+  );
+  return answer ? expandPath(answer) : undefined;
+}
+
+export async function thoughtsCloneCommand(
+  url: string,
+  directory: string | undefined,
+  options: CloneOptions,
+): Promise<void> {
+  try {
+    let config = loadThoughtsConfig(options);
+
+    const profileName = options.profile
+      ? sanitizeProfileName(options.profile)
+      : undefined;
+    if (profileName && profileName !== options.profile) {
+      console.log(
+        chalk.yellow(
+          `Profile name sanitized: "${options.profile}" → "${profileName}"`,
+        ),
+      );
+    }
+
+    const configuredRepo = profileName
+      ? config?.profiles?.[profileName]?.thoughtsRepo
+      : config?.thoughtsRepo;
+    const defaultRepo = profileName
+      ? `${getDefaultThoughtsRepo()}-${profileName}`
+      : getDefaultThoughtsRepo();
+    const target = expandPath(directory || configuredRepo || defaultRepo);
+
+    // Never silently repoint a configured repository
+    if (configuredRepo && expandPath(configuredRepo) !== target) {
+      const owner = profileName
+        ? `Profile "${profileName}" already uses`
+        : "The default thoughts repository is already";
+      console.error(chalk.red(`Error: ${owner} ${configuredRepo}.`));
+      console.error(
+        profileName
+          ? "Choose another profile name."
+          : "Use --profile <name> to add this repository as a profile.",
+      );
+      process.exit(1);
+    }
+
+    if (cloneThoughtsRepo(url, target)) {
+      console.log(chalk.green(`Cloned ${url} into ${target}`));
+    } else {
+      console.log(chalk.gray(`${target} is already a clone of ${url}`));
+    }
+
+    const layout = detectThoughtsLayout(target);
+    if (layout.detected) {
+      console.log(
+        `Detected layout: ${chalk.cyan(`${layout.reposDir}/`)} for repositories, ${chalk.cyan(`${layout.globalDir}/`)} for global notes`,
+      );
+    } else {
+      console.log(
+        chalk.yellow(
+          `No existing layout found, using ${layout.reposDir}/ and ${layout.globalDir}/`,
+        ),
+      );
+    }
+    ensureThoughtsRepoExists(target, layout.reposDir, layout.globalDir);
+
+    const repoConfig = {
+      thoughtsRepo: target,
+      reposDir: layout.reposDir,
+      globalDir: layout.globalDir,
+    };
+    if (!config) {
+      // On a new machine the clone also becomes the default repository
+      config = {
+        ...repoConfig,
+        user: await askForUser(options),
+        repoMappings: {},
+      };
+    } else if (!profileName) {
+      config = { ...config, ...repoConfig };
+    }
+    if (profileName) {
+      setClonedProfile(config, profileName, repoConfig, url);
+    }
+    saveThoughtsConfig(config, options);
+
+    const scanDir = await askForScanDirectory(options);
+    let linked = true;
+    if (scanDir) {
+      linked = await relinkRepositories(config, scanDir, {
+        profile: profileName,
+        yes: options.yes,
+        configFile: options.configFile,
+        command: "clone",
+      });
+    } else {
+      console.log("");
+      console.log(
+        chalk.gray(
+          `Link repositories with "thoughts relink --scan <dir>" or "thoughts init --directory <name>".`,
+        ),
+      );
+    }
+
+    if (!linked) process.exit(1);
+  } catch (error) {
+    console.error(chalk.red(`Error during thoughts clone: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { Command, Option } from "commander";
+import { getCompletions } from "./completion.js";
+import { CONFIG_VERSION } from "../configSchema.js";
+
+describe("completion.ts", () => {
+  let tmpDir: string;
+  let configFile: string;
+  let program: Command;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-complete-test-"));
+    const thoughtsRepo = path.join(tmpDir, "thoughts");
+    fs.mkdirSync(path.join(thoughtsRepo, "repos", "api"), { recursive: true });
+    fs.mkdirSync(path.join(thoughtsRepo, "repos", "web"), { recursive: true });
+    fs.mkdirSync(path.join(tmpDir, "work", "notes", "cli"), {
+      recursive: true,
+    });
+    fs.mkdirSync(path.join(tmpDir, "code", "thoughts", "alice"), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      path.join(tmpDir, "code", "thoughts", "alice", "a.md"),
+      "",
+    );
+
+    vi.stubEnv("XDG_CONFIG_HOME", tmpDir);
+    configFile = path.join(tmpDir, "humanlayer", "humanlayer.json");
+    fs.mkdirSync(path.dirname(configFile), { recursive: true });
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo,
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: { [path.join(tmpDir, "code")]: "api" },
+          profiles: {
+            work: {
+              thoughtsRepo: path.join(tmpDir, "work"),
+              reposDir: "notes",
+              globalDir: "global",
+            },
+            personal: { thoughtsRepo, reposDir: "repos", globalDir: "global" },
+          },
+        },
+      }),
+    );
+
+    program = new Command().name("thoughts");
+    program
+      .command("init")
+      .option("--directory <name>")
+      .option("--profile <name>")
+      .option("--config-file <path>");
+    program
+      .command("mv <old> <new>")
+      .addOption(new Option("--on-collision <choice>").choices(["a", "b"]))
+      .option("--config-file <path>");
+    program.command("open <note>").option("--config-file <path>");
+    program.command("__complete [words...]", { hidden: true });
+    const profile = program.command("profile");
+    profile.command("show <name>").option("--config-file <path>");
+    profile.command("create <name>").option("--config-file <path>");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  const complete = (words: string[], cwd = path.join(tmpDir, "code")) =>
+    getCompletions(program, words, cwd);
+
+  it("should complete visible subcommands and their flags", () => {
+    expect(getCompletions(program, [""], tmpDir)).toEqual([
+      "init",
+      "mv",
+      "open",
+      "profile",
+      "help",
+    ]);
+    expect(getCompletions(program, ["pro"], tmpDir)).toEqual(["profile"]);
+    expect(getCompletions(program, ["init", "--d"], tmpDir)).toEqual([
+      "--directory",
+    ]);
+    expect(getCompletions(program, ["mv", "--on-collision", ""])).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("should complete profile names from the config", () => {
+    expect(complete(["profile", "show", ""])).toEqual(["work", "personal"]);
+    expect(complete(["profile", "show", "w"])).toEqual(["work"]);
+    expect(complete(["init", "--profile", "p"])).toEqual(["personal"]);
+    // New profiles have no existing name to complete
+    expect(complete(["profile", "create", ""])).toEqual([]);
+
+    const otherConfig = path.join(tmpDir, "other.json");
+    fs.writeFileSync(
+      otherConfig,
+      fs.readFileSync(configFile, "utf8").replace('"work"', '"team"'),
+    );
+    expect(
+      complete(["profile", "show", "--config-file", otherConfig, ""]),
+    ).toEqual(["team", "personal"]);
+  });
+
+  it("should complete directories under the profile's reposDir", () => {
+    expect(complete(["init", "--directory", ""])).toEqual(["api", "web"]);
+    expect(complete(["init", "--profile=work", "--directory", ""])).toEqual([
+      "cli",
+    ]);
+    expect(complete(["mv", "w"])).toEqual(["web"]);
+  });
+
+  it("should complete note paths for <note> arguments", () => {
+    expect(complete(["open", ""])).toEqual([path.join("alice", "a.md")]);
+    expect(complete(["open", ""], tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { Command, Option } from "commander";
+import {
+  ThoughtsConfig,
+  loadThoughtsConfig,
+  getCurrentRepoPath,
+  expandPath,
+  resolveProfileConfig,
+  resolveProfileForRepo,
+} from "../thoughtsConfig.js";
+import { listThoughtsFiles } from "../searchable.js";
+import { findMappedCheckout } from "./prompt.js";
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+interface CompletionContext {
+  cwd: string;
+  optionValues: Record<string, string>; // Options typed so far, by attribute
+  config: () => ThoughtsConfig | null;
+}
+
+type Completer = (context: CompletionContext) => string[];
+
+const completeProfiles: Completer = (context) =>
+  Object.keys(context.config()?.profiles || {});
+
+// Directories under reposDir of the profile given with --profile, or else
+// of the one the current repository uses
+const completeRepoDirectories: Completer = (context) => {
+  const config = context.config();
+  if (!config) return [];
+  const profileConfig = context.optionValues.profile
+    ? resolveProfileConfig(config, context.optionValues.profile)
+    : resolveProfileForRepo(config, context.cwd);
+  const reposDir = path.join(
+    expandPath(profileConfig.thoughtsRepo),
+    profileConfig.reposDir,
+  );
+  if (!fs.existsSync(reposDir)) return [];
+  return fs
+    .readdirSync(reposDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name);
+};
+
+// Note paths relative to the thoughts/ directory of the current checkout
+const completeNotes: Completer = (context) => {
+  const config = context.config();
+  const checkout = config && findMappedCheckout(config, context.cwd);
+  if (!checkout) return [];
+  return listThoughtsFiles(path.join(checkout, "thoughts"));
+};
+
+const OPTION_COMPLETERS: Record<string, Completer> = {
+  "--profile": completeProfiles,
+  "--to": completeProfiles,
+  "--directory": completeRepoDirectories,
+};
+
+// Keyed by the command path and the argument name. Any argument named
+// <note> completes note paths, so new note commands get it for free.
+const ARGUMENT_COMPLETERS: Record<string, Completer> = {
+  "profile show name": completeProfiles,
+  "profile delete name": completeProfiles,
+  "profile rename old": completeProfiles,
+  "profile clone name": completeProfiles,
+  "profile export name": completeProfiles,
+  "repos set-profile profile": completeProfiles,
+  "mv old": completeRepoDirectories,
+};
+
+function findOption(command: Command, flag: string): Option | undefined {
+  return command.options.find(
+    (option) => option.long === flag || option.short === flag,
+  );
+}
+
+function takesValue(option: Option): boolean {
+  return option.required || option.optional;
+}
+
+/**
+ * Returns the candidates for the last of words, the command line after
+ * "thoughts" up to the cursor. Values come from the config where they can:
+ * profile names, directories under reposDir and note paths. An empty list
+ * lets the shell fall back to completing file names.
+ */
+export function getCompletions(
+  program: Command,
+  words: string[],
+  cwd = getCurrentRepoPath(),
+): string[] {
+  const current = words.length > 0 ? words[words.length - 1] : "";
+  const optionValues: Record<string, string> = {};
+  const positionals: string[] = [];
+  const commandPath: string[] = [];
+  let command = program;
+  let pending: Option | undefined;
+
+  for (const word of words.slice(0, -1)) {
+    if (pending) {
+      optionValues[pending.attributeName()] = word;
+      pending = undefined;
+    } else if (word.startsWith("-")) {
+      const [flag, ...inline] = word.split("=");
+      const option = findOption(command, flag);
+      if (option && takesValue(option)) {
+        if (inline.length > 0) {
+          optionValues[option.attributeName()] = inline.join("=");
+        } else {
+          pending = option;
+        }
+      }
+    } else {
+      const subcommand =
+        positionals.length === 0
+          ? command.commands.find(
+              (sub) => sub.name() === word || sub.aliases().includes(word),
+            )
+          : undefined;
+      if (subcommand) {
+        command = subcommand;
+        commandPath.push(word);
+      } else {
+        positionals.push(word);
+      }
+    }
+  }
+
+  let context: CompletionContext | undefined;
+  const getContext = () => {
+    if (!context) {
+      let config: ThoughtsConfig | null | undefined;
+      context = {
+        cwd,
+        optionValues,
+        config: () => {
+          if (config === undefined) {
+            config = loadThoughtsConfig({
+              configFile: optionValues.configFile,
+            });
+          }
+          return config;
+        },
+      };
+    }
+    return context;
+  };
+
+  let candidates: string[] = [];
+  if (pending) {
+    const completer = pending.long && OPTION_COMPLETERS[pending.long];
+    candidates = pending.argChoices
+      ? pending.argChoices
+      : completer
+        ? completer(getContext())
+        : [];
+  } else if (current.startsWith("-")) {
+    // What help lists, so hidden options stay hidden
+    candidates = command
+      .createHelp()
+      .visibleOptions(command)
+      .map((option) => option.long || option.short || "");
+  } else if (command.commands.length > 0 && positionals.length === 0) {
+    candidates = command
+      .createHelp()
+      .visibleCommands(command)
+      .map((sub) => sub.name());
+  } else {
+    const args = command.registeredArguments;
+    const argument =
+      positionals.length < args.length
+        ? args[positionals.length]
+        : args[args.length - 1]?.variadic
+          ? args[args.length - 1]
+          : undefined;
+    if (argument) {
+      const completer =
+        argument.name() === "note"
+          ? completeNotes
+          : ARGUMENT_COMPLETERS[[...commandPath, argument.name()].join(" ")];
+      candidates = argument.argChoices
+        ? argument.argChoices
+        : completer
+          ? completer(getContext())
+          : [];
+    }
+  }
+
+  return candidates.filter(
+    (candidate) => candidate && candidate.startsWith(current),
+  );
+}
+
+/**
+ * Returns a script that completes thoughts in the given shell by calling
+ * "thoughts __complete" with the words typed so far
+ */
+export function getCompletionScript(shell: CompletionShell): string {
+  switch (shell) {
+    case "bash":
+      return `# thoughts completion - add to ~/.bashrc:
+#   source <(thoughts completion bash)
+_thoughts_completion() {
+  local IFS=$'\\n'
+  COMPREPLY=($(thoughts __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F _thoughts_completion thoughts
+`;
+    case "zsh":
+      return `#compdef thoughts
+# thoughts completion - add to ~/.zshrc after compinit:
+#   source <(thoughts completion zsh)
+_thoughts() {
+  local -a candidates
+  candidates=("\${(@f)$(thoughts __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  if [[ -n "\${candidates[1]}" ]]; then
+    compadd -a candidates
+  else
+    _files
+  fi
+}
+compdef _thoughts thoughts
+`;
+    case "fish":
+      return `# thoughts completion - save as ~/.config/fish/completions/thoughts.fish
+function __thoughts_complete
+    set -l tokens (commandline -opc)
+    set -e tokens[1]
+    set -l candidates (thoughts __complete -- $tokens (commandline -ct) 2>/dev/null)
+    if test (count $candidates) -gt 0
+        printf '%s\\n' $candidates
+    else
+        __fish_complete_path (commandline -ct)
+    end
+end
+complete -c thoughts -f -a '(__thoughts_complete)'
+`;
+  }
+}
+
+export async function completionCommand(shell: string): Promise<void> {
+  if (!COMPLETION_SHELLS.includes(shell as CompletionShell)) {
+    console.error(
+      chalk.red(
+        `Error: Unknown shell "${shell}". Use one of: ${COMPLETION_SHELLS.join(", ")}`,
+      ),
+    );
+    process.exit(1);
+  }
+  process.stdout.write(getCompletionScript(shell as CompletionShell));
+}
+
+export async function completeCommand(
+  program: Command,
+  words: string[],
+): Promise<void> {
+  // Runs on every tab press, so a broken config completes nothing rather
+  // than printing errors into the command line
+  try {
+    for (const candidate of getCompletions(program, words)) {
+      console.log(candidate);
+    }
+  } catch {
+    // Nothing to complete
+  }
+}
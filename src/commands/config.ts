@@ -1,18 +1,205 @@
-import { spawn } from "child_process";
+import fs from "fs";
+import readline from "readline";
 import chalk from "chalk";
 import {
   loadThoughtsConfig,
   getRepoNameFromMapping,
   getProfileNameFromMapping,
 } from "../thoughtsConfig.js";
-import { getDefaultConfigPath } from "../config.js";
+import {
+  getDefaultConfigPath,
+  loadConfigLayers,
+  mergeConfigLayers,
+  explainConfigValue,
+  listConfigKeys,
+  resolveConfigKey,
+  formatConfigKey,
+  type ConfigLayer,
+  type ConfigValueSource,
+} from "../config.js";
+import {
+  formatSchemaError,
+  validateConfigFile,
+  validateThoughtsConfig,
+} from "../configSchema.js";
+import { openInEditor } from "../editor.js";
 
 interface ConfigOptions {
   edit?: boolean;
   json?: boolean;
+  explain?: string | boolean;
   configFile?: string;
 }
 
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Checks a config file after editing. parseError is set when the file is no
+ * longer JSON; problems lists schema errors of the file and of the merged
+ * configuration it produces.
+ */
+function checkEditedConfig(
+  configPath: string,
+  configFile: string | undefined,
+): { parseError?: string; problems: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    return { parseError: String(error), problems: [] };
+  }
+
+  // The file itself may be partial; other layers can fill in the rest
+  const problems = validateConfigFile(parsed, true).map(formatSchemaError);
+  if (problems.length === 0) {
+    const merged = mergeConfigLayers(loadConfigLayers(configFile));
+    if (merged.thoughts) {
+      problems.push(
+        ...validateThoughtsConfig(merged.thoughts).map(formatSchemaError),
+      );
+    }
+  }
+  return { problems };
+}
+
+/**
+ * Opens the config file in $EDITOR and checks the result once it closes. A
+ * file that no longer parses is rolled back unless the user edits it again.
+ */
+async function editConfig(
+  configPath: string,
+  configFile: string | undefined,
+): Promise<void> {
+  const original = fs.existsSync(configPath)
+    ? fs.readFileSync(configPath, "utf8")
+    : null;
+  const restore = () => {
+    if (original === null) {
+      fs.rmSync(configPath, { force: true });
+    } else {
+      fs.writeFileSync(configPath, original);
+    }
+    console.error(chalk.yellow("Restored the previous configuration"));
+  };
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    openInEditor(configPath);
+    if (original === null && !fs.existsSync(configPath)) return;
+
+    const { parseError, problems } = checkEditedConfig(configPath, configFile);
+    if (!parseError && problems.length === 0) {
+      console.log(chalk.green("✓ Configuration is valid"));
+      return;
+    }
+
+    if (parseError) {
+      console.error(chalk.red(`Error: ${configPath} is not valid JSON`));
+      console.error(chalk.red(`  ${parseError}`));
+    } else {
+      console.error(chalk.red("Error: The edited configuration has problems:"));
+      problems.forEach((problem) => console.error(chalk.red(`  ${problem}`)));
+    }
+
+    if (!process.stdin.isTTY) {
+      if (parseError) restore();
+      process.exit(1);
+    }
+
+    const choice = (
+      await prompt(
+        parseError
+          ? "(e)dit again or (r)evert? [e] "
+          : "(e)dit again, (r)evert or (k)eep anyway? [e] ",
+      )
+    ).toLowerCase();
+    if (choice === "r") {
+      restore();
+      return;
+    }
+    if (choice === "k" && !parseError) {
+      return;
+    }
+  }
+}
+
+function describeSource(source: ConfigValueSource): string {
+  if (source.envVar) return `${source.layer} (${source.envVar})`;
+  return `${source.layer} (${source.path})`;
+}
+
+/**
+ * Shows the effective value of one setting, or of every setting, along with
+ * the layer it comes from and the values it overrides
+ */
+function explainConfig(
+  layers: ConfigLayer[],
+  key: string | undefined,
+  json: boolean | undefined,
+): void {
+  let keyPaths: string[][];
+  if (key) {
+    keyPaths = [resolveConfigKey(key)];
+  } else {
+    keyPaths = listConfigKeys(mergeConfigLayers(layers).thoughts, ["thoughts"]);
+  }
+
+  const explained = keyPaths.map((keyPath) => ({
+    key: formatConfigKey(keyPath),
+    sources: explainConfigValue(layers, keyPath),
+  }));
+
+  if (key && explained[0].sources.length === 0) {
+    console.error(chalk.red(`Error: ${key} is not set in any config layer`));
+    process.exit(1);
+  }
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        explained.map(({ key, sources }) => ({
+          key,
+          value: sources[0]?.value,
+          layer: sources[0]?.layer,
+          path: sources[0]?.path ?? null,
+          envVar: sources[0]?.envVar ?? null,
+          overrides: sources.slice(1),
+        })),
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  for (const { key, sources } of explained) {
+    const [effective, ...overridden] = sources;
+    console.log(
+      `${chalk.cyan(key)} = ${JSON.stringify(effective.value, null, 2)}`,
+    );
+    console.log(chalk.gray(`  from ${describeSource(effective)}`));
+    for (const source of overridden) {
+      console.log(
+        chalk.gray(
+          `  overrides ${describeSource(source)}: ${JSON.stringify(source.value)}`,
+        ),
+      );
+    }
+  }
+}
+
 export async function thoughtsConfigCommand(
   options: ConfigOptions,
 ): Promise<void> {
@@ -21,8 +208,18 @@ export async function thoughtsConfigCommand(
 
     // Handle edit mode
     if (options.edit) {
-      const editor = process.env.EDITOR || "vi";
-      spawn(editor, [configPath], { stdio: "inherit" });
+      await editConfig(configPath, options.configFile);
+      return;
+    }
+
+    const layers = loadConfigLayers(options.configFile);
+
+    if (options.explain) {
+      explainConfig(
+        layers,
+        typeof options.explain === "string" ? options.explain : undefined,
+        options.json,
+      );
       return;
     }
 
@@ -48,6 +245,14 @@ export async function thoughtsConfigCommand(
 
     console.log(chalk.yellow("Settings:"));
     console.log(`  Config file: ${chalk.cyan(configPath)}`);
+    for (const layer of layers) {
+      if (!layer.exists || layer.name === "user") continue;
+      const source =
+        layer.name === "env"
+          ? Object.values(layer.envVars || {}).join(", ")
+          : layer.path;
+      console.log(`  Also loaded (${layer.name}): ${chalk.cyan(source)}`);
+    }
     console.log(`  Thoughts repository: ${chalk.cyan(config.thoughtsRepo)}`);
     console.log(`  Repos directory: ${chalk.cyan(config.reposDir)}`);
     console.log(`  Global directory: ${chalk.cyan(config.globalDir)}`);
@@ -72,6 +277,10 @@ export async function thoughtsConfigCommand(
         } else {
           console.log(`    Profile: ${chalk.gray("(default)")}`);
         }
+
+        if (typeof mapping === "object" && mapping.remote) {
+          console.log(`    Remote: ${chalk.gray(mapping.remote)}`);
+        }
       });
     }
 
@@ -91,6 +300,11 @@ export async function thoughtsConfigCommand(
     console.log(
       chalk.gray("To edit configuration, run: thoughts config --edit"),
     );
+    console.log(
+      chalk.gray(
+        "To see where a setting comes from, run: thoughts config --explain <key>",
+      ),
+    );
   } catch (error) {
     console.error(chalk.red(`Error showing thoughts config: ${error}`));
     process.exit(1);
@@ -0,0 +1,45 @@
+import chalk from "chalk";
+import {
+  getConfigValue,
+  loadConfigFile,
+  resolveConfigKey,
+} from "../../config.js";
+import { getConfigKeyType } from "../../configSchema.js";
+
+interface GetOptions {
+  json?: boolean;
+  configFile?: string;
+}
+
+export async function configGetCommand(
+  key: string,
+  options: GetOptions,
+): Promise<void> {
+  try {
+    const keyPath = resolveConfigKey(key);
+    if (!getConfigKeyType(keyPath)) {
+      console.error(chalk.red(`Error: Unknown config key: ${key}`));
+      process.exit(1);
+    }
+
+    // Read without validation so a broken config can still be inspected
+    const { found, value } = getConfigValue(
+      loadConfigFile(options.configFile),
+      keyPath,
+    );
+    if (!found) {
+      console.error(chalk.red(`Error: ${key} is not set`));
+      process.exit(1);
+    }
+
+    // Plain strings print bare so scripts can use them directly
+    if (typeof value === "string" && !options.json) {
+      console.log(value);
+    } else {
+      console.log(JSON.stringify(value, null, 2));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error reading config: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,39 @@
+import chalk from "chalk";
+import {
+  formatConfigKey,
+  getConfigValue,
+  listConfigKeys,
+  loadConfigFile,
+} from "../../config.js";
+
+interface ListOptions {
+  json?: boolean;
+  configFile?: string;
+}
+
+export async function configListCommand(options: ListOptions): Promise<void> {
+  try {
+    const config = loadConfigFile(options.configFile);
+    const entries = listConfigKeys(config.thoughts, ["thoughts"]).map(
+      (keyPath) =>
+        [formatConfigKey(keyPath), getConfigValue(config, keyPath).value] as [
+          string,
+          unknown,
+        ],
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(Object.fromEntries(entries), null, 2));
+      return;
+    }
+
+    for (const [key, value] of entries) {
+      console.log(
+        `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`,
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error listing config: ${error}`));
+    process.exit(1);
+  }
+}
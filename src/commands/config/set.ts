@@ -0,0 +1,55 @@
+import chalk from "chalk";
+import {
+  formatConfigKey,
+  loadConfigFile,
+  resolveConfigKey,
+  saveConfigFile,
+  setConfigValue,
+} from "../../config.js";
+import {
+  formatSchemaError,
+  parseConfigValue,
+  validateConfigChange,
+} from "../../configSchema.js";
+
+interface SetOptions {
+  configFile?: string;
+}
+
+export async function configSetCommand(
+  key: string,
+  value: string,
+  options: SetOptions,
+): Promise<void> {
+  try {
+    const keyPath = resolveConfigKey(key);
+    const parsed = parseConfigValue(keyPath, value);
+
+    const before = loadConfigFile(options.configFile);
+    if (!before.thoughts) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      console.error('Run "thoughts init" first.');
+      process.exit(1);
+    }
+
+    const after = loadConfigFile(options.configFile);
+    setConfigValue(after, keyPath, parsed);
+
+    const errors = validateConfigChange(before, after);
+    if (errors.length > 0) {
+      console.error(
+        chalk.red(`Error: Not setting ${formatConfigKey(keyPath)}:`),
+      );
+      errors.forEach((error) =>
+        console.error(chalk.red(`  ${formatSchemaError(error)}`)),
+      );
+      process.exit(1);
+    }
+
+    saveConfigFile(after, options.configFile, true);
+    console.log(chalk.green(`✓ Set ${formatConfigKey(keyPath)}`));
+  } catch (error) {
+    console.error(chalk.red(`Error setting config: ${error}`));
+    process.exit(1);
+  }
+}
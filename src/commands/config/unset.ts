@@ -0,0 +1,69 @@
+import chalk from "chalk";
+import {
+  deleteConfigValue,
+  explainConfigValue,
+  formatConfigKey,
+  loadConfigFile,
+  loadConfigLayers,
+  resolveConfigKey,
+  saveConfigFile,
+} from "../../config.js";
+import {
+  formatSchemaError,
+  getConfigKeyType,
+  validateConfigChange,
+} from "../../configSchema.js";
+
+interface UnsetOptions {
+  configFile?: string;
+}
+
+export async function configUnsetCommand(
+  key: string,
+  options: UnsetOptions,
+): Promise<void> {
+  try {
+    const keyPath = resolveConfigKey(key);
+    if (!getConfigKeyType(keyPath)) {
+      console.error(chalk.red(`Error: Unknown config key: ${key}`));
+      process.exit(1);
+    }
+
+    const before = loadConfigFile(options.configFile);
+    const after = loadConfigFile(options.configFile);
+    if (!deleteConfigValue(after, keyPath)) {
+      console.error(chalk.red(`Error: ${key} is not set`));
+      process.exit(1);
+    }
+
+    const errors = validateConfigChange(before, after);
+    if (errors.length > 0) {
+      console.error(
+        chalk.red(`Error: Not unsetting ${formatConfigKey(keyPath)}:`),
+      );
+      errors.forEach((error) =>
+        console.error(chalk.red(`  ${formatSchemaError(error)}`)),
+      );
+      process.exit(1);
+    }
+
+    saveConfigFile(after, options.configFile, true);
+    console.log(chalk.green(`✓ Unset ${formatConfigKey(keyPath)}`));
+
+    // The system file and the environment are never written to
+    const [remaining] = explainConfigValue(
+      loadConfigLayers(options.configFile),
+      keyPath,
+    );
+    if (remaining) {
+      console.error(
+        chalk.yellow(
+          `Warning: ${formatConfigKey(keyPath)} is still set by ${remaining.envVar || remaining.path}`,
+        ),
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error unsetting config: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+import chalk from "chalk";
+import { loadThoughtsConfig } from "../../thoughtsConfig.js";
+import {
+  claimDaemonPidFile,
+  getDaemonPaths,
+  writeDaemonPid,
+} from "../../watcher.js";
+import type { WatchCommandOptions } from "../watch.js";
+
+export async function daemonStartCommand(
+  options: WatchCommandOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    const { pidFile, logFile } = getDaemonPaths();
+    fs.mkdirSync(path.dirname(pidFile), { recursive: true });
+    const runningPid = claimDaemonPidFile(pidFile);
+
+    if (runningPid) {
+      console.log(
+        chalk.yellow(`Thoughts daemon is already running (pid ${runningPid})`),
+      );
+      return;
+    }
+
+    // Re-run this CLI's watch command in a detached background process
+    const args = [process.argv[1], "watch"];
+    if (options.debounce) args.push("--debounce", options.debounce);
+    if (options.interval) args.push("--interval", options.interval);
+    if (options.configFile) {
+      args.push("--config-file", path.resolve(options.configFile));
+    }
+
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+    const logFd = fs.openSync(logFile, "a");
+
+    const child = spawn(process.execPath, args, {
+      detached: true,
+      stdio: ["ignore", logFd, logFd],
+      cwd: path.dirname(logFile),
+    });
+    child.unref();
+    fs.closeSync(logFd);
+
+    if (!child.pid) {
+      fs.rmSync(pidFile, { force: true });
+      console.error(chalk.red("Error: Failed to start thoughts daemon"));
+      process.exit(1);
+    }
+
+    writeDaemonPid(pidFile, child.pid);
+
+    console.log(chalk.green(`Thoughts daemon started (pid ${child.pid})`));
+    console.log(chalk.gray(`Log file: ${logFile}`));
+  } catch (error) {
+    console.error(chalk.red(`Error starting thoughts daemon: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,41 @@
+import fs from "fs";
+import chalk from "chalk";
+import { getDaemonPaths, readDaemonPid } from "../../watcher.js";
+
+interface DaemonStatusOptions {
+  json?: boolean;
+}
+
+export async function daemonStatusCommand(
+  options: DaemonStatusOptions,
+): Promise<void> {
+  try {
+    const { pidFile, logFile } = getDaemonPaths();
+    const pid = readDaemonPid(pidFile);
+
+    if (options.json) {
+      console.log(
+        JSON.stringify({ running: !!pid, pid, pidFile, logFile }, null, 2),
+      );
+      return;
+    }
+
+    if (pid) {
+      console.log(`Status: ${chalk.green("running")} (pid ${pid})`);
+    } else {
+      console.log(`Status: ${chalk.gray("stopped")}`);
+    }
+    console.log(`Pid file: ${chalk.cyan(pidFile)}`);
+    console.log(`Log file: ${chalk.cyan(logFile)}`);
+
+    if (fs.existsSync(logFile)) {
+      const lines = fs.readFileSync(logFile, "utf8").trimEnd().split("\n");
+      console.log("");
+      console.log(chalk.yellow("Recent log:"));
+      lines.slice(-5).forEach((line) => console.log(`  ${line}`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error checking thoughts daemon: ${error}`));
+    process.exit(1);
+  }
+}
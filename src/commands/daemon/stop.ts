@@ -0,0 +1,38 @@
+import fs from "fs";
+import chalk from "chalk";
+import { isProcessRunning } from "../../lock.js";
+import { getDaemonPaths, readDaemonPid } from "../../watcher.js";
+
+export async function daemonStopCommand(): Promise<void> {
+  try {
+    const { pidFile } = getDaemonPaths();
+    const pid = readDaemonPid(pidFile);
+
+    if (!pid) {
+      console.log(chalk.gray("Thoughts daemon is not running"));
+      return;
+    }
+
+    // Only a verified daemon gets here, never a process that inherited a
+    // stale pid. SIGTERM lets the watcher commit pending edits before exiting
+    process.kill(pid, "SIGTERM");
+
+    const deadline = Date.now() + 10000;
+    while (isProcessRunning(pid) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (isProcessRunning(pid)) {
+      console.error(
+        chalk.red(`Error: Thoughts daemon (pid ${pid}) did not stop in time`),
+      );
+      process.exit(1);
+    }
+
+    fs.rmSync(pidFile, { force: true });
+    console.log(chalk.green(`Thoughts daemon stopped (pid ${pid})`));
+  } catch (error) {
+    console.error(chalk.red(`Error stopping thoughts daemon: ${error}`));
+    process.exit(1);
+  }
+}
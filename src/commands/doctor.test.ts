@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  applyDoctorFixes,
+  checkConfigSchema,
+  checkHooks,
+  checkMappings,
+  checkSearchable,
+  checkSymlinks,
+  checkThoughtsRepo,
+  runDoctorChecks,
+} from "./doctor.js";
+import { HOOK_VERSION, setupGitHooks } from "./init.js";
+import { createSearchDirectory } from "../searchable.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("doctor.ts checks", () => {
+  let tmpDir: string;
+  let thoughtsRepo: string;
+  let codeRepo: string;
+
+  const run = (command: string, cwd: string) =>
+    execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+
+  const makeConfig = (overrides: Partial<ThoughtsConfig> = {}) =>
+    ({
+      thoughtsRepo,
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: { [codeRepo]: "project" },
+      ...overrides,
+    }) as ThoughtsConfig;
+
+  const profileConfig = () => ({
+    thoughtsRepo,
+    reposDir: "repos",
+    globalDir: "global",
+  });
+
+  // Sets up a healthy thoughts/ directory in the code repo
+  const linkThoughts = () => {
+    const repoTarget = path.join(thoughtsRepo, "repos", "project");
+    for (const dir of ["alice", "shared"]) {
+      fs.mkdirSync(path.join(repoTarget, dir), { recursive: true });
+    }
+    fs.mkdirSync(path.join(thoughtsRepo, "global"), { recursive: true });
+
+    const thoughtsDir = path.join(codeRepo, "thoughts");
+    fs.mkdirSync(thoughtsDir);
+    fs.symlinkSync(
+      path.join(repoTarget, "alice"),
+      path.join(thoughtsDir, "alice"),
+    );
+    fs.symlinkSync(
+      path.join(repoTarget, "shared"),
+      path.join(thoughtsDir, "shared"),
+    );
+    fs.symlinkSync(
+      path.join(thoughtsRepo, "global"),
+      path.join(thoughtsDir, "global"),
+    );
+    return thoughtsDir;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-doctor-test-"));
+    thoughtsRepo = path.join(tmpDir, "thoughts");
+    codeRepo = path.join(tmpDir, "code");
+    fs.mkdirSync(thoughtsRepo);
+    fs.mkdirSync(codeRepo);
+    run("git init -q -b main", thoughtsRepo);
+    run("git init -q", codeRepo);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("checkConfigSchema()", () => {
+    it("should accept a valid config", () => {
+      expect(checkConfigSchema(makeConfig())).toEqual([]);
+    });
+
+    it("should report invalid fields", () => {
+      const config = makeConfig({
+        user: "",
+        repoMappings: { "/a": { profile: "x" } as never, "/b": 3 as never },
+        profiles: { work: { thoughtsRepo: "~/w" } as never },
+      });
+
+      expect(checkConfigSchema(config).map((issue) => issue.message)).toEqual([
+        "thoughts.user must be a non-empty string",
+        'thoughts.repoMappings["/a"].repo must be a non-empty string',
+        'thoughts.repoMappings["/b"] must be an object with "repo" and optional "profile", "remote"',
+        "thoughts.profiles.work.reposDir must be a non-empty string",
+        "thoughts.profiles.work.globalDir must be a non-empty string",
+      ]);
+    });
+  });
+
+  describe("checkThoughtsRepo()", () => {
+    it("should report a missing repository", () => {
+      expect(
+        checkThoughtsRepo(path.join(tmpDir, "missing"))[0].message,
+      ).toMatch(/does not exist/);
+    });
+
+    it("should warn about a missing remote", () => {
+      expect(checkThoughtsRepo(thoughtsRepo)[0].message).toMatch(
+        /No remote configured/,
+      );
+    });
+
+    it("should report a detached HEAD", () => {
+      run(
+        "git -c user.name=t -c user.email=t@x commit -q --allow-empty -m x",
+        thoughtsRepo,
+      );
+      run("git checkout -q --detach", thoughtsRepo);
+
+      const [issue] = checkThoughtsRepo(thoughtsRepo);
+      expect(issue.severity).toBe("error");
+      expect(issue.message).toMatch(/detached/);
+    });
+
+    it("should fix a missing upstream when the remote branch exists", () => {
+      const remote = path.join(tmpDir, "remote.git");
+      run(`git init -q --bare ${remote}`, tmpDir);
+      run(
+        "git -c user.name=t -c user.email=t@x commit -q --allow-empty -m x",
+        thoughtsRepo,
+      );
+      run(`git remote add origin ${remote}`, thoughtsRepo);
+      run("git push -q origin main", thoughtsRepo);
+
+      const issues = checkThoughtsRepo(thoughtsRepo);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].fix).toBe("track origin/main");
+
+      applyDoctorFixes(issues);
+      expect(issues[0].fixed).toBe(true);
+      expect(checkThoughtsRepo(thoughtsRepo)).toEqual([]);
+    });
+  });
+
+  describe("checkSymlinks()", () => {
+    it("should pass a healthy setup", () => {
+      linkThoughts();
+      expect(
+        checkSymlinks(codeRepo, profileConfig(), "project", "alice"),
+      ).toEqual([]);
+    });
+
+    it("should repair missing, broken and misdirected links", () => {
+      const thoughtsDir = linkThoughts();
+      fs.rmSync(path.join(thoughtsDir, "shared"));
+      fs.rmSync(path.join(thoughtsDir, "global"));
+      fs.symlinkSync(
+        path.join(tmpDir, "gone"),
+        path.join(thoughtsDir, "global"),
+      );
+      fs.rmSync(path.join(thoughtsDir, "alice"));
+      fs.symlinkSync(tmpDir, path.join(thoughtsDir, "alice"));
+      fs.mkdirSync(path.join(thoughtsRepo, "repos", "project", "bob"));
+      fs.symlinkSync(path.join(tmpDir, "gone"), path.join(thoughtsDir, "old"));
+
+      const issues = checkSymlinks(
+        codeRepo,
+        profileConfig(),
+        "project",
+        "alice",
+      );
+      expect(issues.map((issue) => issue.message)).toEqual([
+        `thoughts/alice points to ${tmpDir} instead of ${path.join(thoughtsRepo, "repos", "project", "alice")}`,
+        "Missing symlink thoughts/shared",
+        `thoughts/global points to ${path.join(tmpDir, "gone")}, which does not exist`,
+        "Missing symlink thoughts/bob",
+        "thoughts/old is a broken symlink",
+      ]);
+
+      applyDoctorFixes(issues);
+      expect(issues.every((issue) => issue.fixed)).toBe(true);
+      expect(
+        checkSymlinks(codeRepo, profileConfig(), "project", "alice"),
+      ).toEqual([]);
+    });
+
+    it("should not touch real directories", () => {
+      const thoughtsDir = linkThoughts();
+      fs.rmSync(path.join(thoughtsDir, "shared"));
+      fs.mkdirSync(path.join(thoughtsDir, "shared"));
+
+      const [issue] = checkSymlinks(
+        codeRepo,
+        profileConfig(),
+        "project",
+        "alice",
+      );
+      expect(issue.message).toMatch(/is not a symlink/);
+      expect(issue.repair).toBeUndefined();
+    });
+
+    it("should recreate a missing thoughts directory", () => {
+      linkThoughts();
+      fs.rmSync(path.join(codeRepo, "thoughts"), { recursive: true });
+
+      const issues = checkSymlinks(
+        codeRepo,
+        profileConfig(),
+        "project",
+        "alice",
+      );
+      applyDoctorFixes(issues);
+      expect(
+        checkSymlinks(codeRepo, profileConfig(), "project", "alice"),
+      ).toEqual([]);
+      expect(fs.existsSync(path.join(codeRepo, "thoughts", "CLAUDE.md"))).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("checkHooks()", () => {
+    it("should report missing and outdated hooks", () => {
+      const issues = checkHooks(codeRepo);
+      expect(issues.map((issue) => issue.message)).toEqual([
+        "pre-commit hook is not installed",
+        "post-commit hook is not installed",
+      ]);
+
+      applyDoctorFixes(issues);
+      expect(checkHooks(codeRepo)).toEqual([]);
+
+      const postCommit = path.join(codeRepo, ".git", "hooks", "post-commit");
+      fs.writeFileSync(
+        postCommit,
+        fs
+          .readFileSync(postCommit, "utf8")
+          .replace(`# Version: ${HOOK_VERSION}`, "# Version: 1"),
+      );
+      expect(checkHooks(codeRepo)[0].message).toBe(
+        `post-commit hook is outdated (v1, current v${HOOK_VERSION})`,
+      );
+    });
+
+    it("should pass freshly installed hooks", () => {
+      setupGitHooks(codeRepo);
+      expect(checkHooks(codeRepo)).toEqual([]);
+    });
+
+    it("should report hooks the policy leaves out", () => {
+      setupGitHooks(codeRepo);
+      const issues = checkHooks(codeRepo, "protect");
+      expect(issues.map((issue) => issue.message)).toEqual([
+        'post-commit hook is installed but the hooks policy is "protect"',
+      ]);
+
+      applyDoctorFixes(issues);
+      expect(checkHooks(codeRepo, "protect")).toEqual([]);
+      expect(
+        fs.existsSync(path.join(codeRepo, ".git", "hooks", "post-commit")),
+      ).toBe(false);
+    });
+  });
+
+  describe("checkSearchable()", () => {
+    it("should rebuild a drifted searchable directory", () => {
+      const thoughtsDir = linkThoughts();
+      fs.writeFileSync(path.join(thoughtsDir, "alice", "a.md"), "a");
+      expect(checkSearchable(thoughtsDir)[0].message).toMatch(
+        /not been created/,
+      );
+
+      createSearchDirectory(thoughtsDir);
+      expect(checkSearchable(thoughtsDir)).toEqual([]);
+
+      fs.writeFileSync(path.join(thoughtsDir, "alice", "b.md"), "b");
+      const issues = checkSearchable(thoughtsDir);
+      expect(issues[0].message).toBe("searchable/ is out of date: 1 missing");
+
+      applyDoctorFixes(issues);
+      expect(checkSearchable(thoughtsDir)).toEqual([]);
+    });
+  });
+
+  describe("runDoctorChecks()", () => {
+    it("should report a missing config", () => {
+      expect(runDoctorChecks(null)[0].check).toBe("config");
+    });
+
+    it("should report unknown profiles and stale mappings", () => {
+      const gone = path.join(tmpDir, "gone");
+      const config = makeConfig({
+        repoMappings: {
+          [gone]: "old",
+          [path.join(tmpDir, "gone-with-remote")]: {
+            repo: "x",
+            remote: "github.com/org/x",
+          },
+          [codeRepo]: { repo: "project", profile: "missing" },
+        },
+      });
+
+      const issues = runDoctorChecks(config);
+      expect(issues.find((issue) => issue.check === "profiles")?.path).toBe(
+        codeRepo,
+      );
+
+      const stale = issues.filter((issue) =>
+        issue.message.startsWith("Mapped repository no longer exists"),
+      );
+      expect(stale.map((issue) => issue.path)).toEqual([
+        gone,
+        path.join(tmpDir, "gone-with-remote"),
+      ]);
+
+      applyDoctorFixes(stale);
+      expect(Object.keys(config.repoMappings)).toEqual([codeRepo]);
+      expect(stale[0].changesConfig).toBe(true);
+    });
+
+    it("should say when a deleted checkout is the only one with its remote", () => {
+      const gone = path.join(tmpDir, "gone");
+      const config = makeConfig({
+        repoMappings: {
+          [gone]: { repo: "x", remote: "github.com/org/x" },
+          [path.join(tmpDir, "also-gone")]: {
+            repo: "y",
+            remote: "github.com/org/y",
+          },
+          [path.join(tmpDir, "clone-of-y")]: {
+            repo: "y",
+            remote: "github.com/org/y",
+          },
+        },
+      });
+
+      const stale = checkMappings(config);
+      expect(stale.map((issue) => issue.message)).toEqual([
+        "Mapped repository no longer exists (the mapping still links new clones of github.com/org/x to their thoughts)",
+        "Mapped repository no longer exists",
+        "Mapped repository no longer exists",
+      ]);
+      expect(stale[0]).toMatchObject({ severity: "warning", path: gone });
+      expect(stale[0].repair).toBeDefined();
+    });
+  });
+});
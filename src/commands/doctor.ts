@@ -0,0 +1,712 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import chalk from "chalk";
+import {
+  saveThoughtsConfig,
+  expandPath,
+  resolveProfileForRepo,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  describeProfileRule,
+  getRepoThoughtsPath,
+  getGlobalThoughtsPath,
+  createThoughtsDirectoryStructure,
+  type ThoughtsConfig,
+  type ResolvedProfileConfig,
+} from "../thoughtsConfig.js";
+import {
+  loadConfigFile,
+  type HooksPolicy,
+  type SearchableStrategy,
+} from "../config.js";
+import { formatSchemaError, validateThoughtsConfig } from "../configSchema.js";
+import { isRebaseInProgress } from "../conflicts.js";
+import { acquireRepoLock, type RepoLock } from "../lock.js";
+import {
+  SEARCHABLE_DIR,
+  createSearchDirectory,
+  findSearchableDrift,
+} from "../searchable.js";
+import {
+  HOOK_VERSION,
+  getPolicyHooks,
+  THOUGHTS_HOOKS,
+  generateClaudeMd,
+  getGitHooksDir,
+  getInstalledHookVersion,
+  setupGitHooks,
+} from "./init.js";
+
+export type DoctorCheck =
+  | "config"
+  | "profiles"
+  | "thoughts-repo"
+  | "mappings"
+  | "symlinks"
+  | "hooks"
+  | "searchable";
+
+export interface DoctorIssue {
+  check: DoctorCheck;
+  severity: "error" | "warning";
+  message: string;
+  path?: string;
+  fix?: string; // What --fix does about it; unset if it needs a human
+  repair?: () => void;
+  changesConfig?: boolean; // The repair edits the config, which must be saved
+  fixed?: boolean;
+  fixError?: string;
+}
+
+interface DoctorOptions {
+  fix?: boolean;
+  json?: boolean;
+  configFile?: string;
+}
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: repoPath,
+    encoding: "utf8",
+    stdio: "pipe",
+  }).trim();
+}
+
+function tryGit(repoPath: string, args: string[]): string | null {
+  try {
+    return git(repoPath, args);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks that the config has the shape the other commands rely on
+ */
+export function checkConfigSchema(config: ThoughtsConfig): DoctorIssue[] {
+  return validateThoughtsConfig(config).map((error) => ({
+    check: "config",
+    severity: "error",
+    message: formatSchemaError(error),
+  }));
+}
+
+export function checkProfileReferences(config: ThoughtsConfig): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+
+  for (const [repoPath, mapping] of Object.entries(config.repoMappings)) {
+    const profileName = getProfileNameFromMapping(mapping);
+    if (profileName && !config.profiles?.[profileName]) {
+      issues.push({
+        check: "profiles",
+        severity: "error",
+        message: `Mapping uses profile "${profileName}", which does not exist (falling back to the default thoughts repository)`,
+        path: repoPath,
+      });
+    }
+  }
+
+  (config.profileRules ?? []).forEach((rule, index) => {
+    if (!config.profiles?.[rule.profile]) {
+      issues.push({
+        check: "profiles",
+        severity: "error",
+        message: `Profile rule ${index + 1} (${describeProfileRule(rule)}) uses profile "${rule.profile}", which does not exist`,
+      });
+    }
+  });
+  if (config.defaultProfile && !config.profiles?.[config.defaultProfile]) {
+    issues.push({
+      check: "profiles",
+      severity: "error",
+      message: `defaultProfile "${config.defaultProfile}" does not exist`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that a thoughts repository exists and can sync: it is not stuck in a
+ * rebase, is on a branch, and that branch tracks a remote branch
+ */
+export function checkThoughtsRepo(thoughtsRepo: string): DoctorIssue[] {
+  const repoPath = expandPath(thoughtsRepo);
+  const issue = (
+    severity: DoctorIssue["severity"],
+    message: string,
+    extra: Partial<DoctorIssue> = {},
+  ): DoctorIssue => ({
+    check: "thoughts-repo",
+    severity,
+    message,
+    path: repoPath,
+    ...extra,
+  });
+
+  if (!fs.existsSync(repoPath)) {
+    return [issue("error", "Thoughts repository does not exist")];
+  }
+  if (tryGit(repoPath, ["rev-parse", "--git-dir"]) === null) {
+    return [issue("error", "Thoughts repository is not a git repository")];
+  }
+
+  if (isRebaseInProgress(repoPath)) {
+    return [
+      issue(
+        "error",
+        'A sync stopped on merge conflicts; run "thoughts sync --continue" or "thoughts sync --abort"',
+      ),
+    ];
+  }
+
+  const branch = tryGit(repoPath, ["symbolic-ref", "-q", "--short", "HEAD"]);
+  if (!branch) {
+    return [
+      issue(
+        "error",
+        "HEAD is detached; check out a branch before syncing again",
+      ),
+    ];
+  }
+
+  if (tryGit(repoPath, ["remote", "get-url", "origin"]) === null) {
+    return [
+      issue(
+        "warning",
+        "No remote configured; notes are only stored on this machine",
+      ),
+    ];
+  }
+
+  if (tryGit(repoPath, ["rev-parse", "--abbrev-ref", "@{u}"]) !== null) {
+    return [];
+  }
+
+  const remoteBranch = `origin/${branch}`;
+  if (
+    tryGit(repoPath, [
+      "rev-parse",
+      "--verify",
+      "-q",
+      `refs/remotes/${remoteBranch}`,
+    ]) === null
+  ) {
+    return [
+      issue(
+        "warning",
+        `Branch "${branch}" has no upstream; run "git push -u origin ${branch}" in the thoughts repository`,
+      ),
+    ];
+  }
+
+  return [
+    issue("warning", `Branch "${branch}" has no upstream`, {
+      fix: `track ${remoteBranch}`,
+      repair: () =>
+        git(repoPath, ["branch", `--set-upstream-to=${remoteBranch}`]),
+    }),
+  ];
+}
+
+function createSymlink(target: string, linkPath: string): void {
+  fs.mkdirSync(path.dirname(linkPath), { recursive: true });
+  fs.rmSync(linkPath, { force: true });
+  fs.symlinkSync(target, linkPath, "dir");
+}
+
+/**
+ * Returns the symlinks a repository's thoughts/ directory should contain,
+ * keyed by entry name
+ */
+function getExpectedSymlinks(
+  profileConfig: ResolvedProfileConfig,
+  repoName: string,
+  user: string,
+): Map<string, string> {
+  const repoTarget = getRepoThoughtsPath(profileConfig, repoName);
+  const links = new Map<string, string>([
+    [user, path.join(repoTarget, user)],
+    ["shared", path.join(repoTarget, "shared")],
+    ["global", getGlobalThoughtsPath(profileConfig)],
+  ]);
+
+  if (fs.existsSync(repoTarget)) {
+    for (const entry of fs.readdirSync(repoTarget, { withFileTypes: true })) {
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        !links.has(entry.name)
+      ) {
+        links.set(entry.name, path.join(repoTarget, entry.name));
+      }
+    }
+  }
+
+  return links;
+}
+
+export function checkSymlinks(
+  repoPath: string,
+  profileConfig: ResolvedProfileConfig,
+  repoName: string,
+  user: string,
+): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+  const thoughtsDir = path.join(repoPath, "thoughts");
+  const expected = getExpectedSymlinks(profileConfig, repoName, user);
+  const required = [user, "shared", "global"];
+
+  if (!fs.existsSync(thoughtsDir)) {
+    return [
+      {
+        check: "symlinks",
+        severity: "error",
+        message: "thoughts/ directory is missing",
+        path: thoughtsDir,
+        fix: "recreate thoughts/ and its symlinks",
+        repair: () => {
+          fs.mkdirSync(thoughtsDir, { recursive: true });
+          expected.forEach((target, name) =>
+            createSymlink(target, path.join(thoughtsDir, name)),
+          );
+          fs.writeFileSync(
+            path.join(thoughtsDir, "CLAUDE.md"),
+            generateClaudeMd(
+              profileConfig.thoughtsRepo,
+              profileConfig.reposDir,
+              repoName,
+              user,
+            ),
+          );
+        },
+      },
+    ];
+  }
+
+  for (const [name, target] of expected) {
+    const linkPath = path.join(thoughtsDir, name);
+    const severity = required.includes(name) ? "error" : "warning";
+    const relink = {
+      fix: `link to ${target}`,
+      repair: () => createSymlink(target, linkPath),
+    };
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.lstatSync(linkPath);
+    } catch {
+      issues.push({
+        check: "symlinks",
+        severity,
+        message: `Missing symlink thoughts/${name}`,
+        path: linkPath,
+        ...relink,
+      });
+      continue;
+    }
+
+    if (!stat.isSymbolicLink()) {
+      issues.push({
+        check: "symlinks",
+        severity,
+        message: `thoughts/${name} is not a symlink; move its contents to ${target} and run "thoughts init --force"`,
+        path: linkPath,
+      });
+      continue;
+    }
+
+    const current = path.resolve(thoughtsDir, fs.readlinkSync(linkPath));
+    if (!fs.existsSync(current)) {
+      issues.push({
+        check: "symlinks",
+        severity,
+        message: `thoughts/${name} points to ${current}, which does not exist`,
+        path: linkPath,
+        ...relink,
+      });
+    } else if (current !== target) {
+      issues.push({
+        check: "symlinks",
+        severity: "warning",
+        message: `thoughts/${name} points to ${current} instead of ${target}`,
+        path: linkPath,
+        ...relink,
+      });
+    }
+  }
+
+  // Broken links that are not ours to recreate
+  for (const entry of fs.readdirSync(thoughtsDir, { withFileTypes: true })) {
+    const linkPath = path.join(thoughtsDir, entry.name);
+    if (
+      entry.isSymbolicLink() &&
+      !expected.has(entry.name) &&
+      !fs.existsSync(linkPath)
+    ) {
+      issues.push({
+        check: "symlinks",
+        severity: "warning",
+        message: `thoughts/${entry.name} is a broken symlink`,
+        path: linkPath,
+        fix: "remove it",
+        repair: () => fs.rmSync(linkPath, { force: true }),
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function checkHooks(
+  repoPath: string,
+  policy: HooksPolicy = "all",
+): DoctorIssue[] {
+  let hooksDir: string;
+  try {
+    hooksDir = getGitHooksDir(repoPath);
+  } catch {
+    return [
+      {
+        check: "hooks",
+        severity: "error",
+        message: "Not a git repository",
+        path: repoPath,
+      },
+    ];
+  }
+
+  const issues: DoctorIssue[] = [];
+  const reinstall = {
+    fix: "install the current hooks",
+    repair: () => {
+      setupGitHooks(repoPath, policy);
+    },
+  };
+
+  for (const hook of getPolicyHooks(policy)) {
+    const hookPath = path.join(hooksDir, hook);
+    const version = getInstalledHookVersion(hookPath);
+
+    let message: string | null = null;
+    if (version === null) {
+      message = fs.existsSync(hookPath)
+        ? `${hook} hook is not the thoughts hook (it will be kept and called from it)`
+        : `${hook} hook is not installed`;
+    } else if (version < parseInt(HOOK_VERSION)) {
+      message = `${hook} hook is outdated (v${version}, current v${HOOK_VERSION})`;
+    }
+
+    if (message) {
+      issues.push({
+        check: "hooks",
+        severity: "warning",
+        message,
+        path: hookPath,
+        ...reinstall,
+      });
+    }
+  }
+
+  // Thoughts hooks left over from before the policy changed
+  const wanted = getPolicyHooks(policy);
+  for (const hook of THOUGHTS_HOOKS.filter((name) => !wanted.includes(name))) {
+    const hookPath = path.join(hooksDir, hook);
+    if (getInstalledHookVersion(hookPath) !== null) {
+      issues.push({
+        check: "hooks",
+        severity: "warning",
+        message: `${hook} hook is installed but the hooks policy is "${policy}"`,
+        path: hookPath,
+        fix: "remove hooks the policy leaves out",
+        repair: reinstall.repair,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function checkSearchable(
+  thoughtsDir: string,
+  strategy?: SearchableStrategy,
+): DoctorIssue[] {
+  const searchDir = path.join(thoughtsDir, SEARCHABLE_DIR);
+  const rebuild = {
+    fix: "rebuild searchable/",
+    repair: () => {
+      createSearchDirectory(thoughtsDir, strategy);
+    },
+  };
+
+  if (!fs.existsSync(searchDir)) {
+    return [
+      {
+        check: "searchable",
+        severity: "warning",
+        message: "searchable/ has not been created yet",
+        path: searchDir,
+        ...rebuild,
+      },
+    ];
+  }
+
+  const drift = findSearchableDrift(thoughtsDir);
+  const parts = [
+    drift.missing.length && `${drift.missing.length} missing`,
+    drift.stale.length && `${drift.stale.length} stale`,
+    drift.drifted.length && `${drift.drifted.length} changed`,
+  ].filter(Boolean);
+
+  if (parts.length === 0) return [];
+  return [
+    {
+      check: "searchable",
+      severity: "warning",
+      message: `searchable/ is out of date: ${parts.join(", ")}`,
+      path: searchDir,
+      ...rebuild,
+    },
+  ];
+}
+
+/**
+ * Checks every mapping: stale paths, missing thoughts directories, and for
+ * each existing checkout its symlinks, hooks and searchable directory
+ */
+export function checkMappings(config: ThoughtsConfig): DoctorIssue[] {
+  const issues: DoctorIssue[] = [];
+  const entries = Object.entries(config.repoMappings);
+
+  for (const [repoPath, mapping] of entries) {
+    const repoName = getRepoNameFromMapping(mapping)!;
+
+    if (!fs.existsSync(repoPath)) {
+      // A mapping whose remote no other checkout shares still lets new
+      // clones find their thoughts, which removing it would lose
+      const remote = typeof mapping === "object" ? mapping.remote : undefined;
+      const onlyRecordOfRemote =
+        !!remote &&
+        !entries.some(
+          ([otherPath, other]) =>
+            otherPath !== repoPath &&
+            typeof other === "object" &&
+            other.remote === remote,
+        );
+
+      issues.push({
+        check: "mappings",
+        severity: "warning",
+        message: onlyRecordOfRemote
+          ? `Mapped repository no longer exists (the mapping still links new clones of ${remote} to their thoughts)`
+          : "Mapped repository no longer exists",
+        path: repoPath,
+        fix: "remove the mapping",
+        repair: () => {
+          delete config.repoMappings[repoPath];
+        },
+        changesConfig: true,
+      });
+      continue;
+    }
+
+    const profileConfig = resolveProfileForRepo(config, repoPath);
+    issues.push(...checkHooks(repoPath, profileConfig.hooks));
+
+    // A missing thoughts repository is reported on its own
+    if (!fs.existsSync(expandPath(profileConfig.thoughtsRepo))) continue;
+
+    const repoTarget = getRepoThoughtsPath(profileConfig, repoName);
+    if (!fs.existsSync(repoTarget)) {
+      issues.push({
+        check: "mappings",
+        severity: "error",
+        message: `Thoughts directory ${repoTarget} does not exist`,
+        path: repoPath,
+        fix: "create it",
+        repair: () =>
+          createThoughtsDirectoryStructure(
+            profileConfig,
+            repoName,
+            config.user,
+          ),
+      });
+    }
+
+    issues.push(
+      ...checkSymlinks(repoPath, profileConfig, repoName, config.user),
+    );
+
+    const thoughtsDir = path.join(repoPath, "thoughts");
+    if (fs.existsSync(thoughtsDir)) {
+      issues.push(...checkSearchable(thoughtsDir, config.searchableStrategy));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Returns the thoughts repositories of the default config and every profile
+ */
+function getThoughtsRepos(config: ThoughtsConfig): string[] {
+  const repos = [config.thoughtsRepo];
+  Object.values(config.profiles || {}).forEach((profile) =>
+    repos.push(profile.thoughtsRepo),
+  );
+  return [...new Set(repos.map((repo) => expandPath(repo)))];
+}
+
+export function runDoctorChecks(config: ThoughtsConfig | null): DoctorIssue[] {
+  if (!config) {
+    return [
+      {
+        check: "config",
+        severity: "error",
+        message: 'Thoughts not configured. Run "thoughts init" first.',
+      },
+    ];
+  }
+
+  // The remaining checks rely on the config having the right shape
+  const schemaIssues = checkConfigSchema(config);
+  if (schemaIssues.length > 0) {
+    return schemaIssues;
+  }
+
+  return [
+    ...checkProfileReferences(config),
+    ...getThoughtsRepos(config).flatMap((repo) => checkThoughtsRepo(repo)),
+    ...checkMappings(config),
+  ];
+}
+
+/**
+ * Runs the repair of every fixable issue in order, recording the outcome
+ */
+export function applyDoctorFixes(issues: DoctorIssue[]): void {
+  for (const issue of issues) {
+    if (!issue.repair) continue;
+    try {
+      issue.repair();
+      issue.fixed = true;
+    } catch (error) {
+      issue.fixError = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+function printIssue(issue: DoctorIssue, fixing: boolean): void {
+  const icon = issue.fixed
+    ? chalk.green("✓")
+    : issue.severity === "error"
+      ? chalk.red("✗")
+      : chalk.yellow("!");
+
+  console.log(`  ${icon} ${issue.message}`);
+  if (issue.path) {
+    console.log(`    ${chalk.gray(issue.path)}`);
+  }
+
+  if (issue.fixed) {
+    console.log(`    ${chalk.green(`Fixed: ${issue.fix}`)}`);
+  } else if (issue.fixError) {
+    console.log(
+      `    ${chalk.red(`Could not ${issue.fix}: ${issue.fixError}`)}`,
+    );
+  } else if (issue.fix && !fixing) {
+    console.log(`    ${chalk.gray(`--fix will ${issue.fix}`)}`);
+  }
+}
+
+export async function thoughtsDoctorCommand(
+  options: DoctorOptions,
+): Promise<void> {
+  try {
+    // Load without validation so schema problems are reported, not thrown
+    const config = loadConfigFile(options.configFile).thoughts || null;
+    const issues = runDoctorChecks(config);
+
+    if (options.fix && config && issues.some((issue) => issue.repair)) {
+      // Keep syncs out of the thoughts repositories while repairing
+      const locks: RepoLock[] = [];
+      try {
+        for (const repo of getThoughtsRepos(config).sort()) {
+          if (fs.existsSync(repo)) {
+            locks.push(await acquireRepoLock(repo, "doctor"));
+          }
+        }
+        applyDoctorFixes(issues);
+      } finally {
+        locks.forEach((lock) => lock.release());
+      }
+
+      if (issues.some((issue) => issue.fixed && issue.changesConfig)) {
+        saveThoughtsConfig(config, options, !!options.json);
+      }
+    }
+
+    const remaining = issues.filter((issue) => !issue.fixed);
+    const errors = remaining.filter((issue) => issue.severity === "error");
+    const warnings = remaining.filter((issue) => issue.severity === "warning");
+    const fixable = remaining.filter(
+      (issue) => issue.repair && !issue.fixError,
+    );
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          {
+            ok: errors.length === 0,
+            issues: issues.map((issue) => ({
+              check: issue.check,
+              severity: issue.severity,
+              message: issue.message,
+              path: issue.path,
+              fixable: !!issue.repair,
+              fix: issue.fix,
+              fixed: !!issue.fixed,
+              fixError: issue.fixError,
+            })),
+          },
+          null,
+          2,
+        ),
+      );
+    } else if (issues.length === 0) {
+      console.log(chalk.green("✓ Everything looks good"));
+    } else {
+      const checks = [...new Set(issues.map((issue) => issue.check))];
+      for (const check of checks) {
+        console.log(chalk.blue(`${check}:`));
+        issues
+          .filter((issue) => issue.check === check)
+          .forEach((issue) => printIssue(issue, !!options.fix));
+        console.log("");
+      }
+
+      const fixedCount = issues.length - remaining.length;
+      const summary = [
+        `${errors.length} error(s)`,
+        `${warnings.length} warning(s)`,
+        ...(fixedCount > 0 ? [`${fixedCount} fixed`] : []),
+      ];
+      console.log(summary.join(", "));
+      if (fixable.length > 0) {
+        console.log(
+          chalk.gray(
+            `Run "thoughts doctor --fix" to repair ${fixable.length} of them`,
+          ),
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error running thoughts doctor: ${error}`));
+    process.exit(1);
+  }
+}
@@ -7,6 +7,8 @@ import {
   sanitizeDirectoryName,
   generateClaudeMd,
   setupGitHooks,
+  assertThoughtsDirectoryReplaceable,
+  hasForeignThoughtsDirectory,
 } from "./init.js";
 
 describe("init.ts helpers", () => {
@@ -46,6 +48,25 @@ describe("init.ts helpers", () => {
     });
   });
 
+  describe("hasForeignThoughtsDirectory()", () => {
+    it("should only flag files that linking did not create", () => {
+      const thoughtsDir = path.join(tmpDir, "thoughts");
+      expect(hasForeignThoughtsDirectory(tmpDir)).toBe(false);
+
+      fs.mkdirSync(path.join(thoughtsDir, "searchable"), { recursive: true });
+      fs.writeFileSync(path.join(thoughtsDir, "CLAUDE.md"), "generated");
+      fs.symlinkSync(tmpDir, path.join(thoughtsDir, "alice"));
+      expect(hasForeignThoughtsDirectory(tmpDir)).toBe(false);
+      expect(() => assertThoughtsDirectoryReplaceable(tmpDir)).not.toThrow();
+
+      fs.writeFileSync(path.join(thoughtsDir, "draft.md"), "mine");
+      expect(hasForeignThoughtsDirectory(tmpDir)).toBe(true);
+      expect(() => assertThoughtsDirectoryReplaceable(tmpDir)).toThrow(
+        "has files of its own",
+      );
+    });
+  });
+
   describe("generateClaudeMd()", () => {
     it("should include repo name in output", () => {
       const result = generateClaudeMd(
@@ -226,6 +247,35 @@ describe("init.ts helpers", () => {
       expect(preCommit).toContain("Cannot commit thoughts/");
     });
 
+    it("should only install the pre-commit hook with the protect policy", () => {
+      const result = setupGitHooks(gitRepo, "protect");
+
+      const hooksDir = path.join(gitRepo, ".git", "hooks");
+      expect(result.updated).toEqual(["pre-commit"]);
+      expect(fs.existsSync(path.join(hooksDir, "pre-commit"))).toBe(true);
+      expect(fs.existsSync(path.join(hooksDir, "post-commit"))).toBe(false);
+    });
+
+    it("should remove our hooks and restore backups when switching to none", () => {
+      const hooksDir = path.join(gitRepo, ".git", "hooks");
+      fs.mkdirSync(hooksDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(hooksDir, "post-commit"),
+        "#!/bin/bash\necho 'my custom hook'",
+      );
+      setupGitHooks(gitRepo);
+
+      const result = setupGitHooks(gitRepo, "none");
+
+      expect(result.updated).toEqual([]);
+      expect(result.removed.sort()).toEqual(["post-commit", "pre-commit"]);
+      expect(fs.existsSync(path.join(hooksDir, "pre-commit"))).toBe(false);
+      expect(fs.existsSync(path.join(hooksDir, "post-commit.old"))).toBe(false);
+      expect(
+        fs.readFileSync(path.join(hooksDir, "post-commit"), "utf8"),
+      ).toContain("my custom hook");
+    });
+
     it("should post-commit hook skip worktrees", () => {
       setupGitHooks(gitRepo);
 
@@ -6,6 +6,7 @@ import chalk from "chalk";
 import readline from "readline";
 import {
   ThoughtsConfig,
+  ResolvedProfileConfig,
   loadThoughtsConfig,
   saveThoughtsConfig,
   getDefaultThoughtsRepo,
@@ -19,7 +20,15 @@ import {
   updateSymlinksForNewUsers,
   validateProfile,
   resolveProfileForRepo,
+  resolveRepoMapping,
+  getRepoRemoteUrl,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  matchProfileRules,
+  describeProfileRule,
 } from "../thoughtsConfig.js";
+import { acquireRepoLock } from "../lock.js";
+import type { HooksPolicy } from "../config.js";
 
 interface InitOptions {
   force?: boolean;
@@ -200,8 +209,22 @@ These files will be automatically synchronized with your thoughts repository whe
 `;
 }
 
-export function setupGitHooks(repoPath: string): { updated: string[] } {
-  const updated: string[] = [];
+// Hook version for update detection
+// Increment when hooks need updating - v4 coalesces overlapping syncs
+export const HOOK_VERSION = "4";
+
+export const THOUGHTS_HOOKS = ["pre-commit", "post-commit"];
+
+/**
+ * Returns the thoughts hooks a profile's hooks policy asks for
+ */
+export function getPolicyHooks(policy: HooksPolicy = "all"): string[] {
+  if (policy === "none") return [];
+  if (policy === "protect") return ["pre-commit"];
+  return THOUGHTS_HOOKS;
+}
+
+export function getGitHooksDir(repoPath: string): string {
   // Use git rev-parse to find the common git directory for hooks (handles worktrees)
   // In worktrees, hooks are stored in the common git directory, not the worktree-specific one
   let gitCommonDir: string;
@@ -220,16 +243,37 @@ export function setupGitHooks(repoPath: string): { updated: string[] } {
     throw new Error(`Failed to find git common directory: ${error}`);
   }
 
-  const hooksDir = path.join(gitCommonDir, "hooks");
+  return path.join(gitCommonDir, "hooks");
+}
+
+/**
+ * Returns the version of an installed thoughts hook (0 for hooks from before
+ * versioning), or null if the hook is missing or not installed by thoughts
+ */
+export function getInstalledHookVersion(hookPath: string): number | null {
+  if (!fs.existsSync(hookPath)) return null;
+  const content = fs.readFileSync(hookPath, "utf8");
+  if (!content.includes("thoughts") && !content.includes("HumanLayer thoughts"))
+    return null;
+
+  const versionMatch = content.match(/# Version: (\d+)/);
+  return versionMatch ? parseInt(versionMatch[1]) : 0;
+}
+
+export function setupGitHooks(
+  repoPath: string,
+  policy: HooksPolicy = "all",
+): { updated: string[]; removed: string[] } {
+  const updated: string[] = [];
+  const removed: string[] = [];
+  const hooksDir = getGitHooksDir(repoPath);
+  const wanted = getPolicyHooks(policy);
 
   // Ensure hooks directory exists (might not exist in some setups)
   if (!fs.existsSync(hooksDir)) {
     fs.mkdirSync(hooksDir, { recursive: true });
   }
 
-  // Hook version for update detection
-  const HOOK_VERSION = "3"; // Increment when hooks need updating - v3 fixes recursive backup issue
-
   // Pre-commit hook
   const preCommitPath = path.join(hooksDir, "pre-commit");
   const preCommitContent = `#!/bin/bash
@@ -265,7 +309,8 @@ fi
 COMMIT_MSG=$(git log -1 --pretty=%B)
 
 # Auto-sync thoughts after each commit (only in non-worktree repos)
-thoughts sync --message "Auto-sync with commit: $COMMIT_MSG" >/dev/null 2>&1 &
+# --coalesce merges this sync into one that is already running
+thoughts sync --coalesce --message "Auto-sync with commit: $COMMIT_MSG" >/dev/null 2>&1 &
 
 # Call any existing post-commit hook
 if [ -f "${postCommitPath}.old" ]; then
@@ -291,8 +336,19 @@ fi
     return currentVersion < parseInt(HOOK_VERSION);
   };
 
+  // Hooks the policy leaves out: remove ours and restore what they replaced
+  for (const hook of THOUGHTS_HOOKS.filter((name) => !wanted.includes(name))) {
+    const hookPath = path.join(hooksDir, hook);
+    if (getInstalledHookVersion(hookPath) === null) continue;
+    fs.unlinkSync(hookPath);
+    if (fs.existsSync(`${hookPath}.old`)) {
+      fs.renameSync(`${hookPath}.old`, hookPath);
+    }
+    removed.push(hook);
+  }
+
   // Backup existing hooks if they exist and aren't ours (or need updating)
-  if (fs.existsSync(preCommitPath)) {
+  if (wanted.includes("pre-commit") && fs.existsSync(preCommitPath)) {
     const content = fs.readFileSync(preCommitPath, "utf8");
     if (
       (!content.includes("thoughts") &&
@@ -312,7 +368,7 @@ fi
     }
   }
 
-  if (fs.existsSync(postCommitPath)) {
+  if (wanted.includes("post-commit") && fs.existsSync(postCommitPath)) {
     const content = fs.readFileSync(postCommitPath, "utf8");
     if (
       (!content.includes("thoughts") &&
@@ -333,19 +389,192 @@ fi
   }
 
   // Write new hooks only if needed
-  if (!fs.existsSync(preCommitPath) || hookNeedsUpdate(preCommitPath)) {
+  if (
+    wanted.includes("pre-commit") &&
+    (!fs.existsSync(preCommitPath) || hookNeedsUpdate(preCommitPath))
+  ) {
     fs.writeFileSync(preCommitPath, preCommitContent);
     fs.chmodSync(preCommitPath, "755");
     updated.push("pre-commit");
   }
 
-  if (!fs.existsSync(postCommitPath) || hookNeedsUpdate(postCommitPath)) {
+  if (
+    wanted.includes("post-commit") &&
+    (!fs.existsSync(postCommitPath) || hookNeedsUpdate(postCommitPath))
+  ) {
     fs.writeFileSync(postCommitPath, postCommitContent);
     fs.chmodSync(postCommitPath, "755");
     updated.push("post-commit");
   }
 
-  return { updated };
+  return { updated, removed };
+}
+
+export interface LinkRepositoryOptions {
+  pull?: boolean; // Pull the thoughts repository while it is locked
+  command?: string; // Command name recorded in the lock
+}
+
+export interface LinkRepositoryResult {
+  profileConfig: ResolvedProfileConfig;
+  otherUsers: string[]; // Users whose directories were linked as well
+  updatedHooks: string[];
+}
+
+// Entries of a code repo's thoughts/ directory that init itself creates
+const GENERATED_THOUGHTS_ENTRIES = new Set([
+  "CLAUDE.md",
+  "searchable",
+  ".search",
+]);
+
+/**
+ * Checks whether a repository has a thoughts/ directory with content that
+ * linking would delete, as opposed to a previous thoughts setup
+ */
+export function hasForeignThoughtsDirectory(repoPath: string): boolean {
+  const thoughtsDir = path.join(repoPath, "thoughts");
+  if (!fs.existsSync(thoughtsDir)) return false;
+  if (!fs.lstatSync(thoughtsDir).isDirectory()) return true;
+
+  return fs
+    .readdirSync(thoughtsDir, { withFileTypes: true })
+    .some(
+      (entry) =>
+        !entry.isSymbolicLink() && !GENERATED_THOUGHTS_ENTRIES.has(entry.name),
+    );
+}
+
+/**
+ * Throws if relinking an existing checkout would delete files of its own in
+ * thoughts/, since linkRepository replaces the whole directory
+ */
+export function assertThoughtsDirectoryReplaceable(repoPath: string): void {
+  if (hasForeignThoughtsDirectory(repoPath)) {
+    throw new Error(
+      `${path.join(repoPath, "thoughts")} has files of its own that relinking would delete; move them out of the way first`,
+    );
+  }
+}
+
+/**
+ * Links a code repository to its directory in the thoughts repository: the
+ * directory structure, the thoughts/ symlinks, CLAUDE.md and the git hooks.
+ * The repository's mapping must already be in the config.
+ */
+export async function linkRepository(
+  config: ThoughtsConfig,
+  repoPath: string,
+  mappedName: string,
+  options: LinkRepositoryOptions = {},
+): Promise<LinkRepositoryResult> {
+  // Resolve profile config for directory creation
+  const profileConfig = resolveProfileForRepo(config, repoPath);
+  const expandedRepo = expandPath(profileConfig.thoughtsRepo);
+
+  // Keep background syncs out of the thoughts repo while we set it up
+  const lock = await acquireRepoLock(
+    profileConfig.thoughtsRepo,
+    options.command || "init",
+  );
+
+  let otherUsers: string[];
+  try {
+    // Create directory structure using profile config
+    createThoughtsDirectoryStructure(profileConfig, mappedName, config.user);
+
+    // Create thoughts directory in the code repo
+    const thoughtsDir = path.join(repoPath, "thoughts");
+    if (fs.existsSync(thoughtsDir)) {
+      // Handle searchable directories specially if they exist (might have read-only permissions)
+      const searchableDir = path.join(thoughtsDir, "searchable");
+      const oldSearchDir = path.join(thoughtsDir, ".search");
+
+      for (const dir of [searchableDir, oldSearchDir]) {
+        if (fs.existsSync(dir)) {
+          try {
+            // Reset permissions so we can delete it
+            execSync(`chmod -R 755 "${dir}"`, { stdio: "pipe" });
+          } catch {
+            // Ignore chmod errors
+          }
+        }
+      }
+      fs.rmSync(thoughtsDir, { recursive: true, force: true });
+    }
+    fs.mkdirSync(thoughtsDir);
+
+    // Create symlinks - flipped structure for easier access
+    const repoTarget = getRepoThoughtsPath(profileConfig, mappedName);
+    const globalTarget = getGlobalThoughtsPath(profileConfig);
+
+    // Direct symlinks to user and shared directories for repo-specific thoughts
+    fs.symlinkSync(
+      path.join(repoTarget, config.user),
+      path.join(thoughtsDir, config.user),
+      "dir",
+    );
+    fs.symlinkSync(
+      path.join(repoTarget, "shared"),
+      path.join(thoughtsDir, "shared"),
+      "dir",
+    );
+
+    // Global directory as before
+    fs.symlinkSync(globalTarget, path.join(thoughtsDir, "global"), "dir");
+
+    // Check for other users and create symlinks
+    otherUsers = updateSymlinksForNewUsers(
+      repoPath,
+      profileConfig,
+      mappedName,
+      config.user,
+    );
+
+    if (options.pull) {
+      pullThoughtsRepo(expandedRepo);
+    }
+  } finally {
+    lock.release();
+  }
+
+  // Generate CLAUDE.md
+  const claudeMd = generateClaudeMd(
+    profileConfig.thoughtsRepo,
+    profileConfig.reposDir,
+    mappedName,
+    config.user,
+  );
+  fs.writeFileSync(path.join(repoPath, "thoughts", "CLAUDE.md"), claudeMd);
+
+  // Setup git hooks
+  const hookResult = setupGitHooks(repoPath, profileConfig.hooks);
+
+  return { profileConfig, otherUsers, updatedHooks: hookResult.updated };
+}
+
+function pullThoughtsRepo(expandedRepo: string): void {
+  // Pull latest thoughts if remote exists
+  try {
+    execSync("git remote get-url origin", {
+      cwd: expandedRepo,
+      stdio: "pipe",
+    });
+  } catch {
+    // No remote configured, skip pull
+    return;
+  }
+
+  try {
+    execSync("git pull --rebase", {
+      stdio: "pipe",
+      cwd: expandedRepo,
+    });
+    console.log(chalk.green("Pulled latest thoughts from remote"));
+  } catch (error: unknown) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(chalk.yellow("Warning: Could not pull latest thoughts:"), msg);
+  }
 }
 
 export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
@@ -477,15 +706,54 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
       }
     }
 
+    // Pick up a mapping made for another checkout of this repository
+    const existingMapping = resolveRepoMapping(config, currentRepo, options);
+    if (existingMapping?.matchedBy === "remote") {
+      console.log(
+        chalk.green(
+          `Found existing mapping for this repository's remote (from ${existingMapping.repoPath})`,
+        ),
+      );
+    }
+
+    // Without --profile, a new repository gets the profile the rules pick
+    const ruleMatch =
+      options.profile || existingMapping
+        ? undefined
+        : matchProfileRules(config, currentRepo);
+    if (ruleMatch) {
+      const reason = ruleMatch.rule
+        ? `matched ${describeProfileRule(ruleMatch.rule)}`
+        : "defaultProfile";
+      if (!validateProfile(config, ruleMatch.profile)) {
+        console.error(
+          chalk.red(
+            `Error: Profile "${ruleMatch.profile}" (${reason}) does not exist.`,
+          ),
+        );
+        console.error(
+          'Fix the profile rules, or pass --profile to choose one. "thoughts doctor" lists the broken rules.',
+        );
+        process.exit(1);
+      }
+      console.log(
+        chalk.green(`Using profile "${ruleMatch.profile}" (${reason})`),
+      );
+    }
+
     // Resolve profile config early so we use the right thoughtsRepo throughout
     // Create a temporary mapping to resolve the profile (will be updated later with actual mapping)
+    const profileName =
+      options.profile ||
+      getProfileNameFromMapping(existingMapping?.mapping) ||
+      ruleMatch?.profile;
     const tempProfileConfig =
-      options.profile && config.profiles && config.profiles[options.profile]
+      profileName && config.profiles && config.profiles[profileName]
         ? {
-            thoughtsRepo: config.profiles[options.profile].thoughtsRepo,
-            reposDir: config.profiles[options.profile].reposDir,
-            globalDir: config.profiles[options.profile].globalDir,
-            profileName: options.profile,
+            thoughtsRepo: config.profiles[profileName].thoughtsRepo,
+            reposDir: config.profiles[profileName].reposDir,
+            globalDir: config.profiles[profileName].globalDir,
+            profileName,
           }
         : {
             thoughtsRepo: config.thoughtsRepo,
@@ -576,7 +844,7 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
     });
 
     // Check if current repo is already mapped
-    let mappedName = config.repoMappings[currentRepo];
+    let mappedName = getRepoNameFromMapping(existingMapping?.mapping);
 
     if (!mappedName) {
       if (options.directory) {
@@ -691,71 +959,22 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
 
       console.log("");
 
-      // Update config with profile-aware mapping
-      if (options.profile) {
-        config.repoMappings[currentRepo] = {
-          repo: mappedName,
-          profile: options.profile,
-        };
-      } else {
-        // Keep string format for backward compatibility
-        config.repoMappings[currentRepo] = mappedName;
-      }
+      // Update config with profile-aware mapping, remembering the remote so
+      // other checkouts of this repository find it
+      const remote = getRepoRemoteUrl(currentRepo);
+      config.repoMappings[currentRepo] = {
+        repo: mappedName,
+        ...(profileName && { profile: profileName }),
+        ...(remote && { remote }),
+      };
       saveThoughtsConfig(config, options);
     }
 
-    // Resolve profile config for directory creation
-    const profileConfig = resolveProfileForRepo(config, currentRepo);
-
-    // Create directory structure using profile config
-    createThoughtsDirectoryStructure(profileConfig, mappedName, config.user);
-
-    // Create thoughts directory in current repo
-    const thoughtsDir = path.join(currentRepo, "thoughts");
-    if (fs.existsSync(thoughtsDir)) {
-      // Handle searchable directories specially if they exist (might have read-only permissions)
-      const searchableDir = path.join(thoughtsDir, "searchable");
-      const oldSearchDir = path.join(thoughtsDir, ".search");
-
-      for (const dir of [searchableDir, oldSearchDir]) {
-        if (fs.existsSync(dir)) {
-          try {
-            // Reset permissions so we can delete it
-            execSync(`chmod -R 755 "${dir}"`, { stdio: "pipe" });
-          } catch {
-            // Ignore chmod errors
-          }
-        }
-      }
-      fs.rmSync(thoughtsDir, { recursive: true, force: true });
-    }
-    fs.mkdirSync(thoughtsDir);
-
-    // Create symlinks - flipped structure for easier access
-    const repoTarget = getRepoThoughtsPath(profileConfig, mappedName);
-    const globalTarget = getGlobalThoughtsPath(profileConfig);
-
-    // Direct symlinks to user and shared directories for repo-specific thoughts
-    fs.symlinkSync(
-      path.join(repoTarget, config.user),
-      path.join(thoughtsDir, config.user),
-      "dir",
-    );
-    fs.symlinkSync(
-      path.join(repoTarget, "shared"),
-      path.join(thoughtsDir, "shared"),
-      "dir",
-    );
-
-    // Global directory as before
-    fs.symlinkSync(globalTarget, path.join(thoughtsDir, "global"), "dir");
-
-    // Check for other users and create symlinks
-    const otherUsers = updateSymlinksForNewUsers(
+    const { profileConfig, otherUsers, updatedHooks } = await linkRepository(
+      config,
       currentRepo,
-      profileConfig,
       mappedName,
-      config.user,
+      { pull: true },
     );
 
     if (otherUsers.length > 0) {
@@ -763,45 +982,9 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
         chalk.green(`Added symlinks for other users: ${otherUsers.join(", ")}`),
       );
     }
-
-    // Pull latest thoughts if remote exists
-    try {
-      execSync("git remote get-url origin", {
-        cwd: expandedRepo,
-        stdio: "pipe",
-      });
-      // Remote exists, try to pull
-      try {
-        execSync("git pull --rebase", {
-          stdio: "pipe",
-          cwd: expandedRepo,
-        });
-        console.log(chalk.green("Pulled latest thoughts from remote"));
-      } catch (error: unknown) {
-        const msg = error instanceof Error ? error.message : String(error);
-        console.warn(
-          chalk.yellow("Warning: Could not pull latest thoughts:"),
-          msg,
-        );
-      }
-    } catch {
-      // No remote configured, skip pull
-    }
-
-    // Generate CLAUDE.md
-    const claudeMd = generateClaudeMd(
-      profileConfig.thoughtsRepo,
-      profileConfig.reposDir,
-      mappedName,
-      config.user,
-    );
-    fs.writeFileSync(path.join(thoughtsDir, "CLAUDE.md"), claudeMd);
-
-    // Setup git hooks
-    const hookResult = setupGitHooks(currentRepo);
-    if (hookResult.updated.length > 0) {
+    if (updatedHooks.length > 0) {
       console.log(
-        chalk.yellow(`Updated git hooks: ${hookResult.updated.join(", ")}`),
+        chalk.yellow(`Updated git hooks: ${updatedHooks.join(", ")}`),
       );
     }
 
@@ -828,13 +1011,22 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
       `             └── shared/  ${chalk.gray("(team cross-repo notes)")}`,
     );
     console.log("");
-    console.log("Protection enabled:");
-    console.log(
-      `  ${chalk.green("✓")} Pre-commit hook: Prevents committing thoughts/`,
-    );
-    console.log(
-      `  ${chalk.green("✓")} Post-commit hook: Auto-syncs thoughts after commits`,
-    );
+    const hooks = getPolicyHooks(profileConfig.hooks);
+    if (hooks.length > 0) {
+      console.log("Protection enabled:");
+      console.log(
+        `  ${chalk.green("✓")} Pre-commit hook: Prevents committing thoughts/`,
+      );
+      if (hooks.includes("post-commit")) {
+        console.log(
+          `  ${chalk.green("✓")} Post-commit hook: Auto-syncs thoughts after commits`,
+        );
+      }
+    } else {
+      console.log(
+        chalk.gray(`Git hooks are disabled by the profile's hooks policy`),
+      );
+    }
     console.log("");
     console.log("Next steps:");
     console.log(
@@ -844,7 +1036,9 @@ export async function thoughtsInitCommand(options: InitOptions): Promise<void> {
       `  2. Create markdown files in ${chalk.cyan(`thoughts/${config.user}/`)} for your notes`,
     );
     console.log(
-      `  3. Your thoughts will sync automatically when you commit code`,
+      hooks.includes("post-commit")
+        ? `  3. Your thoughts will sync automatically when you commit code`
+        : `  3. Run ${chalk.cyan("thoughts sync")} to save your thoughts`,
     );
     console.log(
       `  4. Run ${chalk.cyan("thoughts status")} to check sync status`,
@@ -0,0 +1,170 @@
+import path from "path";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  getCurrentRepoPath,
+  getRepoThoughtsPath,
+  getGlobalThoughtsPath,
+  resolveProfileForRepo,
+  findRepoMapping,
+  getRepoNameFromMapping,
+} from "../thoughtsConfig.js";
+import { collectNotes, type NoteMetadata } from "../notes.js";
+
+interface ListOptions {
+  global?: boolean;
+  status?: string;
+  tag?: string;
+  author?: string;
+  sort?: string;
+  reverse?: boolean;
+  json?: boolean;
+  configFile?: string;
+}
+
+const SORT_FIELDS = ["created", "title", "status", "author", "path"] as const;
+type SortField = (typeof SORT_FIELDS)[number];
+
+export function filterNotes(
+  notes: NoteMetadata[],
+  filters: { status?: string; tag?: string; author?: string },
+): NoteMetadata[] {
+  const matches = (value: string | undefined, wanted: string | undefined) =>
+    !wanted || (value || "").toLowerCase() === wanted.toLowerCase();
+
+  return notes.filter(
+    (note) =>
+      matches(note.status, filters.status) &&
+      matches(note.author, filters.author) &&
+      (!filters.tag ||
+        note.tags.some(
+          (tag) => tag.toLowerCase() === filters.tag!.toLowerCase(),
+        )),
+  );
+}
+
+export function sortNotes(
+  notes: NoteMetadata[],
+  field: SortField,
+  reverse = false,
+): NoteMetadata[] {
+  const sorted = [...notes].sort((a, b) => {
+    const left = a[field] || "";
+    const right = b[field] || "";
+    return left.localeCompare(right) || a.path.localeCompare(b.path);
+  });
+
+  // Newest first is the natural order for dates
+  const descending = field === "created" ? !reverse : reverse;
+  return descending ? sorted.reverse() : sorted;
+}
+
+function printTable(notes: NoteMetadata[]): void {
+  const columns: Array<{
+    header: string;
+    value: (note: NoteMetadata) => string;
+  }> = [
+    { header: "CREATED", value: (note) => note.created || "" },
+    { header: "STATUS", value: (note) => note.status || "" },
+    { header: "AUTHOR", value: (note) => note.author || "" },
+    { header: "TITLE", value: (note) => note.title },
+    { header: "PATH", value: (note) => note.path },
+  ];
+
+  const widths = columns.map((column) =>
+    Math.max(
+      column.header.length,
+      ...notes.map((note) => column.value(note).length),
+    ),
+  );
+
+  console.log(
+    chalk.gray(
+      columns
+        .map((column, i) => column.header.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    ),
+  );
+  for (const note of notes) {
+    const cells = columns.map((column, i) =>
+      column.value(note).padEnd(widths[i]),
+    );
+    console.log(
+      [
+        chalk.gray(cells[0]),
+        chalk.yellow(cells[1]),
+        cells[2],
+        chalk.cyan(cells[3]),
+        chalk.gray(cells[4]),
+      ]
+        .join("  ")
+        .trimEnd(),
+    );
+  }
+}
+
+export async function thoughtsListCommand(options: ListOptions): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    const sortField = (options.sort || "created") as SortField;
+    if (!SORT_FIELDS.includes(sortField)) {
+      console.error(chalk.red(`Error: Cannot sort by "${options.sort}".`));
+      console.error(chalk.gray(`Valid fields: ${SORT_FIELDS.join(", ")}`));
+      process.exit(1);
+    }
+
+    const currentRepo = getCurrentRepoPath();
+    const mappedName = getRepoNameFromMapping(
+      findRepoMapping(config, currentRepo)?.mapping,
+    );
+
+    if (!mappedName) {
+      console.error(
+        chalk.red("Error: Thoughts not initialized for this repository."),
+      );
+      console.error('Run "thoughts init" to set up thoughts.');
+      process.exit(1);
+    }
+
+    const profileConfig = resolveProfileForRepo(config, currentRepo);
+
+    let notes = collectNotes(
+      getRepoThoughtsPath(profileConfig, mappedName),
+      "thoughts",
+    );
+    if (options.global) {
+      notes.push(
+        ...collectNotes(
+          getGlobalThoughtsPath(profileConfig),
+          path.join("thoughts", "global"),
+        ),
+      );
+    }
+
+    notes = sortNotes(filterNotes(notes, options), sortField, options.reverse);
+
+    if (options.json) {
+      console.log(JSON.stringify(notes, null, 2));
+      return;
+    }
+
+    if (notes.length === 0) {
+      console.log(chalk.gray("No notes found"));
+      return;
+    }
+
+    printTable(notes);
+  } catch (error) {
+    console.error(chalk.red(`Error listing notes: ${error}`));
+    process.exit(1);
+  }
+}
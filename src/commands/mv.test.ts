@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  checkRepoDirectory,
+  mergeDirectories,
+  renameRepoMappings,
+} from "./mv.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("mv.ts", () => {
+  let tmpDir: string;
+
+  const write = (file: string, content: string) => {
+    const fullPath = path.join(tmpDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+  const read = (file: string) =>
+    fs.readFileSync(path.join(tmpDir, file), "utf8");
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-mv-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("checkRepoDirectory()", () => {
+    it("should only accept directories directly under reposDir", () => {
+      const reposDir = path.join(tmpDir, "repos");
+      write("repos/app/a.md", "a");
+      write("repos/notes.md", "n");
+      write("global/g.md", "g");
+      fs.symlinkSync(path.join(tmpDir, "global"), path.join(reposDir, "link"));
+
+      expect(checkRepoDirectory(reposDir, "app")).toBeNull();
+      // Already moved elsewhere
+      expect(checkRepoDirectory(reposDir, "gone")).toBeNull();
+      for (const name of [
+        "../global",
+        "../../elsewhere",
+        "app/sub",
+        "..",
+        "",
+      ]) {
+        expect(checkRepoDirectory(reposDir, name)).toContain("not a path");
+      }
+      expect(checkRepoDirectory(reposDir, "notes.md")).toContain(
+        "is not a directory",
+      );
+      expect(checkRepoDirectory(reposDir, "link")).toContain(
+        "is not a directory",
+      );
+    });
+  });
+
+  describe("mergeDirectories()", () => {
+    it("should move new files and drop identical ones", async () => {
+      write("old/alice/plan.md", "plan");
+      write("old/shared/same.md", "same");
+      write("new/shared/same.md", "same");
+
+      const result = await mergeDirectories(
+        path.join(tmpDir, "old"),
+        path.join(tmpDir, "new"),
+        async () => "both",
+      );
+
+      expect(result).toEqual({
+        moved: [path.join("alice", "plan.md")],
+        identical: [path.join("shared", "same.md")],
+        collisions: [],
+      });
+      expect(read("new/alice/plan.md")).toBe("plan");
+      expect(fs.existsSync(path.join(tmpDir, "old"))).toBe(false);
+    });
+
+    it("should apply the chosen version for each collision", async () => {
+      write("old/a.md", "old a");
+      write("old/b.md", "old b");
+      write("old/c.md", "old c");
+      write("new/a.md", "new a");
+      write("new/b.md", "new b");
+      write("new/c.md", "new c");
+      const choices = { "a.md": "existing", "b.md": "moved", "c.md": "both" };
+
+      const result = await mergeDirectories(
+        path.join(tmpDir, "old"),
+        path.join(tmpDir, "new"),
+        async (file) => choices[file as keyof typeof choices] as never,
+      );
+
+      expect(result.collisions).toEqual([
+        { file: "a.md", choice: "existing" },
+        { file: "b.md", choice: "moved" },
+        { file: "c.md", choice: "both", copy: "c.from-old.md" },
+      ]);
+      expect(read("new/a.md")).toBe("new a");
+      expect(read("new/b.md")).toBe("old b");
+      expect(read("new/c.md")).toBe("new c");
+      expect(read("new/c.from-old.md")).toBe("old c");
+    });
+  });
+
+  describe("renameRepoMappings()", () => {
+    it("should only update mappings into the same thoughts repository", () => {
+      const config: ThoughtsConfig = {
+        thoughtsRepo: "/notes",
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {
+          "/code/app": "app",
+          "/code/app2": { repo: "app", remote: "github.com/acme/app" },
+          "/code/work-app": { repo: "app", profile: "work" },
+          "/code/lib": { repo: "lib" },
+        },
+        profiles: {
+          work: {
+            thoughtsRepo: "/work-notes",
+            reposDir: "repos",
+            globalDir: "global",
+          },
+        },
+      };
+
+      const updated = renameRepoMappings(
+        config,
+        { thoughtsRepo: "/notes", reposDir: "repos", globalDir: "global" },
+        "app",
+        "webapp",
+      );
+
+      expect(updated).toEqual(["/code/app", "/code/app2"]);
+      expect(config.repoMappings).toEqual({
+        "/code/app": { repo: "webapp" },
+        "/code/app2": { repo: "webapp", remote: "github.com/acme/app" },
+        "/code/work-app": { repo: "app", profile: "work" },
+        "/code/lib": { repo: "lib" },
+      });
+    });
+  });
+});
@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { execFileSync } from "child_process";
+import chalk from "chalk";
+import {
+  ThoughtsConfig,
+  ResolvedProfileConfig,
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  expandPath,
+  getRepoNameFromMapping,
+  resolveProfileForRepo,
+  resolveProfileConfig,
+  validateProfile,
+} from "../thoughtsConfig.js";
+import { acquireRepoLock } from "../lock.js";
+import { isRebaseInProgress } from "../conflicts.js";
+import {
+  assertThoughtsDirectoryReplaceable,
+  linkRepository,
+  sanitizeDirectoryName,
+} from "./init.js";
+
+interface MvOptions {
+  merge?: boolean;
+  onCollision?: string;
+  profile?: string;
+  configFile?: string;
+}
+
+// What to do when a file exists in both directories of a merge: keep the
+// existing file, replace it with the moved one, or keep both
+export type MergeChoice = "existing" | "moved" | "both";
+
+const MERGE_CHOICES: MergeChoice[] = ["existing", "moved", "both"];
+
+export interface MergeResult {
+  moved: string[]; // Files that had no counterpart in the target
+  identical: string[]; // Files already present with the same content
+  collisions: Array<{ file: string; choice: MergeChoice; copy?: string }>;
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: repoPath,
+    encoding: "utf8",
+    stdio: "pipe",
+  });
+}
+
+export function isGitRepo(repoPath: string): boolean {
+  try {
+    git(repoPath, ["rev-parse", "--git-dir"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function listFiles(dir: string, prefix = ""): string[] {
+  return fs
+    .readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .flatMap((entry) => {
+      const relPath = path.join(prefix, entry.name);
+      return entry.isDirectory() ? listFiles(dir, relPath) : [relPath];
+    })
+    .sort();
+}
+
+/**
+ * Returns an unused sibling path for the moved side of a collision,
+ * e.g. plan.md -> plan.from-old-name.md
+ */
+function getMergeCopyPath(dir: string, file: string, from: string): string {
+  const ext = path.extname(file);
+  const base = file.slice(0, file.length - ext.length);
+
+  let candidate = `${base}.from-${from}${ext}`;
+  for (let n = 2; fs.existsSync(path.join(dir, candidate)); n++) {
+    candidate = `${base}.from-${from}-${n}${ext}`;
+  }
+  return candidate;
+}
+
+/**
+ * Checks that name names a directory directly under reposDir, so mv never
+ * moves anything from outside it. A name that does not exist passes, since
+ * another machine may have moved it already. Returns the problem, or null.
+ */
+export function checkRepoDirectory(
+  reposDir: string,
+  name: string,
+): string | null {
+  if (
+    !name ||
+    name === "." ||
+    name.includes("..") ||
+    name.includes("/") ||
+    name.includes(path.sep)
+  ) {
+    return `"${name}" must be the name of a directory in ${reposDir}, not a path.`;
+  }
+  const source = path.join(reposDir, name);
+  let stats: fs.Stats;
+  try {
+    // Not followed: a symlink could point anywhere
+    stats = fs.lstatSync(source);
+  } catch {
+    return null;
+  }
+  return stats.isDirectory() ? null : `${source} is not a directory.`;
+}
+
+/**
+ * Moves every file of source into target and removes source. Files with the
+ * same content in both are dropped from source; for other collisions choose
+ * decides which version survives.
+ */
+export async function mergeDirectories(
+  source: string,
+  target: string,
+  choose: (file: string) => Promise<MergeChoice>,
+): Promise<MergeResult> {
+  const result: MergeResult = { moved: [], identical: [], collisions: [] };
+
+  for (const file of listFiles(source)) {
+    const from = path.join(source, file);
+    const to = path.join(target, file);
+
+    if (!fs.existsSync(to)) {
+      fs.mkdirSync(path.dirname(to), { recursive: true });
+      fs.renameSync(from, to);
+      result.moved.push(file);
+      continue;
+    }
+
+    if (fs.readFileSync(from).equals(fs.readFileSync(to))) {
+      fs.rmSync(from);
+      result.identical.push(file);
+      continue;
+    }
+
+    const choice = await choose(file);
+    if (choice === "existing") {
+      fs.rmSync(from);
+      result.collisions.push({ file, choice });
+    } else if (choice === "moved") {
+      fs.renameSync(from, to);
+      result.collisions.push({ file, choice });
+    } else {
+      const copy = getMergeCopyPath(target, file, path.basename(source));
+      fs.renameSync(from, path.join(target, copy));
+      result.collisions.push({ file, choice, copy });
+    }
+  }
+
+  fs.rmSync(source, { recursive: true, force: true });
+  return result;
+}
+
+/**
+ * Lists the checkouts whose mapping resolves to the given directory
+ */
+export function findReposUsingDirectory(
+  config: ThoughtsConfig,
+  profileConfig: ResolvedProfileConfig,
+  name: string,
+): string[] {
+  return Object.entries(config.repoMappings)
+    .filter(([repoPath, mapping]) => {
+      if (getRepoNameFromMapping(mapping) !== name) return false;
+      const mapped = resolveProfileForRepo(config, repoPath);
+      return (
+        expandPath(mapped.thoughtsRepo) ===
+          expandPath(profileConfig.thoughtsRepo) &&
+        mapped.reposDir === profileConfig.reposDir
+      );
+    })
+    .map(([repoPath]) => repoPath)
+    .sort();
+}
+
+/**
+ * Points every mapping of oldName in the given thoughts repository at
+ * newName. Returns the paths of the updated repositories.
+ */
+export function renameRepoMappings(
+  config: ThoughtsConfig,
+  profileConfig: ResolvedProfileConfig,
+  oldName: string,
+  newName: string,
+): string[] {
+  const updated = findReposUsingDirectory(config, profileConfig, oldName);
+  for (const repoPath of updated) {
+    const mapping = config.repoMappings[repoPath];
+    config.repoMappings[repoPath] =
+      typeof mapping === "string"
+        ? { repo: newName }
+        : { ...mapping, repo: newName };
+  }
+  return updated;
+}
+
+async function askMergeChoice(file: string): Promise<MergeChoice> {
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const answer = (
+      await prompt(
+        `${chalk.cyan(file)} exists in both: keep [e]xisting, use [m]oved, or keep [b]oth? `,
+      )
+    ).toLowerCase();
+    const choice = MERGE_CHOICES.find(
+      (candidate) => candidate === answer || candidate[0] === answer,
+    );
+    if (choice) return choice;
+    console.log(chalk.red("Please answer e, m or b"));
+  }
+}
+
+/**
+ * Stages and commits paths of a thoughts repository, leaving any other
+ * changes alone. Returns false if the paths had no changes.
+ */
+export function commitThoughtsPaths(
+  expandedRepo: string,
+  paths: string[],
+  message: string,
+): boolean {
+  // Only paths on disk or in the index can be staged
+  const known = paths.filter(
+    (relPath) =>
+      fs.existsSync(path.join(expandedRepo, relPath)) ||
+      git(expandedRepo, ["ls-files", "--", relPath]),
+  );
+  if (known.length === 0) return false;
+
+  git(expandedRepo, ["add", "-A", "--", ...known]);
+  try {
+    git(expandedRepo, ["diff", "--cached", "--quiet", "--", ...known]);
+    return false;
+  } catch {
+    // Differences staged
+  }
+  git(expandedRepo, ["commit", "-m", message, "--", ...known]);
+  return true;
+}
+
+export async function thoughtsMvCommand(
+  oldName: string,
+  newNameArg: string,
+  options: MvOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    if (options.profile && !validateProfile(config, options.profile)) {
+      console.error(
+        chalk.red(`Error: Profile "${options.profile}" does not exist.`),
+      );
+      process.exit(1);
+    }
+
+    const onCollision = options.onCollision as MergeChoice | undefined;
+    if (onCollision && !MERGE_CHOICES.includes(onCollision)) {
+      console.error(
+        chalk.red(
+          `Error: --on-collision must be one of ${MERGE_CHOICES.join(", ")}`,
+        ),
+      );
+      process.exit(1);
+    }
+
+    const newName = sanitizeDirectoryName(newNameArg);
+    if (newName !== newNameArg) {
+      console.log(
+        chalk.yellow(
+          `Directory name sanitized: "${newNameArg}" → "${newName}"`,
+        ),
+      );
+    }
+    if (newName === oldName) {
+      console.error(chalk.red("Error: Old and new names are the same."));
+      process.exit(1);
+    }
+
+    const profileConfig = resolveProfileConfig(config, options.profile);
+    const expandedRepo = expandPath(profileConfig.thoughtsRepo);
+    const reposDir = path.join(expandedRepo, profileConfig.reposDir);
+    const invalid = checkRepoDirectory(reposDir, oldName);
+    if (invalid) {
+      console.error(chalk.red(`Error: ${invalid}`));
+      process.exit(1);
+    }
+    const source = path.join(reposDir, oldName);
+    const target = path.join(reposDir, newName);
+    const relSource = path.join(profileConfig.reposDir, oldName);
+    const relTarget = path.join(profileConfig.reposDir, newName);
+
+    if (!fs.existsSync(source)) {
+      // Another machine may have moved it already and we just pulled that
+      if (!fs.existsSync(target)) {
+        console.error(chalk.red(`Error: ${source} does not exist.`));
+        process.exit(1);
+      }
+      console.log(
+        chalk.gray(`${relSource} is already gone, updating mappings only`),
+      );
+    } else {
+      if (fs.existsSync(target) && !options.merge) {
+        console.error(chalk.red(`Error: ${target} already exists.`));
+        console.error(
+          "Use --merge to move the files of both directories into it.",
+        );
+        process.exit(1);
+      }
+
+      const lock = await acquireRepoLock(expandedRepo, "mv");
+      try {
+        const tracked = isGitRepo(expandedRepo);
+        if (tracked && isRebaseInProgress(expandedRepo)) {
+          console.error(
+            chalk.red(
+              'Error: The thoughts repository has an interrupted sync. Run "thoughts sync --continue" first.',
+            ),
+          );
+          process.exit(1);
+        }
+
+        let message: string;
+        if (fs.existsSync(target)) {
+          const choose = onCollision
+            ? async () => onCollision
+            : process.stdin.isTTY
+              ? askMergeChoice
+              : async (): Promise<MergeChoice> => "both";
+          const result = await mergeDirectories(source, target, choose);
+
+          console.log(
+            chalk.green(`✓ Merged ${relSource} into ${relTarget}`) +
+              chalk.gray(
+                ` (${result.moved.length} moved, ${result.identical.length} identical, ${result.collisions.length} collision(s))`,
+              ),
+          );
+          for (const collision of result.collisions) {
+            const outcome =
+              collision.choice === "both"
+                ? `kept both, moved file saved as ${collision.copy}`
+                : `kept ${collision.choice} version`;
+            console.log(`  ${chalk.cyan(collision.file)}: ${outcome}`);
+          }
+          message = `Merge ${relSource} into ${relTarget}`;
+        } else {
+          fs.renameSync(source, target);
+          console.log(chalk.green(`✓ Renamed ${relSource} to ${relTarget}`));
+          message = `Rename ${relSource} to ${relTarget}`;
+        }
+
+        if (
+          tracked &&
+          commitThoughtsPaths(expandedRepo, [relSource, relTarget], message)
+        ) {
+          console.log(
+            chalk.gray(`Committed "${message}". Run "thoughts sync" to push.`),
+          );
+        }
+      } finally {
+        lock.release();
+      }
+    }
+
+    const updated = renameRepoMappings(config, profileConfig, oldName, newName);
+    if (updated.length === 0) {
+      console.log(chalk.gray(`No repositories were mapped to ${oldName}`));
+      return;
+    }
+    saveThoughtsConfig(config, options, true);
+    console.log(chalk.green(`✓ Updated ${updated.length} mapping(s)`));
+
+    let failed = 0;
+    for (const repoPath of updated) {
+      if (!fs.existsSync(repoPath)) {
+        console.log(
+          `  ${chalk.gray("-")} ${repoPath} ${chalk.gray("(missing)")}`,
+        );
+        continue;
+      }
+      try {
+        assertThoughtsDirectoryReplaceable(repoPath);
+        await linkRepository(config, repoPath, newName, { command: "mv" });
+        console.log(`  ${chalk.green("✓")} ${repoPath}`);
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`  ${chalk.red("✗")} ${repoPath}: ${message}`);
+      }
+    }
+    if (failed > 0) process.exit(1);
+  } catch (error) {
+    console.error(chalk.red(`Error during thoughts mv: ${error}`));
+    process.exit(1);
+  }
+}
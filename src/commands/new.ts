@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  getCurrentRepoPath,
+  expandPath,
+  getRepoThoughtsPath,
+  getGlobalThoughtsPath,
+  resolveProfileForRepo,
+  findRepoMapping,
+  getRepoNameFromMapping,
+} from "../thoughtsConfig.js";
+import {
+  formatDate,
+  listTemplateNames,
+  loadTemplate,
+  renderTemplate,
+  slugify,
+} from "../templates.js";
+
+interface NewOptions {
+  template?: string;
+  shared?: boolean;
+  global?: boolean;
+  date?: boolean;
+  force?: boolean;
+  configFile?: string;
+}
+
+export async function thoughtsNewCommand(
+  titleParts: string[],
+  options: NewOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    const currentRepo = getCurrentRepoPath();
+    const mappedName = getRepoNameFromMapping(
+      findRepoMapping(config, currentRepo)?.mapping,
+    );
+
+    if (!mappedName) {
+      console.error(
+        chalk.red("Error: Thoughts not initialized for this repository."),
+      );
+      console.error('Run "thoughts init" to set up thoughts.');
+      process.exit(1);
+    }
+
+    const title = titleParts.join(" ").trim();
+    const slug = slugify(title);
+    if (!slug) {
+      console.error(
+        chalk.red(`Error: Cannot derive a file name from title "${title}".`),
+      );
+      process.exit(1);
+    }
+
+    const profileConfig = resolveProfileForRepo(config, currentRepo);
+    const expandedRepo = expandPath(profileConfig.thoughtsRepo);
+
+    // Resolve the template before touching the filesystem
+    const templateName = options.template || "note";
+    const template = loadTemplate(expandedRepo, templateName);
+    if (template === undefined) {
+      console.error(chalk.red(`Error: Template "${templateName}" not found.`));
+      console.error("");
+      console.error(chalk.gray("Available templates:"));
+      listTemplateNames(expandedRepo).forEach((name) => {
+        console.error(chalk.gray(`  - ${name}`));
+      });
+      process.exit(1);
+    }
+
+    // Pick the destination: personal by default, shared and/or global on request
+    const owner = options.shared ? "shared" : config.user;
+    const baseDir = options.global
+      ? getGlobalThoughtsPath(profileConfig)
+      : getRepoThoughtsPath(profileConfig, mappedName);
+    const destDir = path.join(baseDir, owner);
+    const linkedDir = options.global
+      ? path.join("thoughts", "global", owner)
+      : path.join("thoughts", owner);
+
+    const date = formatDate(new Date());
+    const fileName =
+      options.date === false ? `${slug}.md` : `${date}-${slug}.md`;
+    const destPath = path.join(destDir, fileName);
+
+    if (fs.existsSync(destPath) && !options.force) {
+      console.error(
+        chalk.red(`Error: ${path.join(linkedDir, fileName)} already exists.`),
+      );
+      console.error(chalk.yellow("Use --force to overwrite it."));
+      process.exit(1);
+    }
+
+    const content = renderTemplate(template, {
+      title,
+      date,
+      user: config.user,
+      repo: mappedName,
+    });
+
+    fs.mkdirSync(destDir, { recursive: true });
+    fs.writeFileSync(destPath, content);
+
+    console.log(chalk.green(`Created ${path.join(linkedDir, fileName)}`));
+  } catch (error) {
+    console.error(chalk.red(`Error creating note: ${error}`));
+    process.exit(1);
+  }
+}
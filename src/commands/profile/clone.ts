@@ -0,0 +1,77 @@
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  ensureThoughtsRepoExists,
+  expandPath,
+  sanitizeProfileName,
+  validateProfile,
+} from "../../thoughtsConfig.js";
+import { withRepoLock } from "../../lock.js";
+import type { ProfileConfig } from "../../config.js";
+
+interface CloneOptions {
+  repo?: string;
+  configFile?: string;
+}
+
+/**
+ * Creates a profile from an existing one, optionally pointing it at another
+ * thoughts repository with the same layout and settings
+ */
+export async function profileCloneCommand(
+  sourceName: string,
+  newNameArg: string,
+  options: CloneOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    if (!validateProfile(config, sourceName)) {
+      console.error(chalk.red(`Error: Profile "${sourceName}" not found.`));
+      process.exit(1);
+    }
+
+    const newName = sanitizeProfileName(newNameArg);
+    if (newName !== newNameArg) {
+      console.log(
+        chalk.yellow(`Profile name sanitized: "${newNameArg}" → "${newName}"`),
+      );
+    }
+    if (validateProfile(config, newName)) {
+      console.error(chalk.red(`Error: Profile "${newName}" already exists.`));
+      process.exit(1);
+    }
+
+    const profile: ProfileConfig = { ...config.profiles![sourceName] };
+    if (options.repo) {
+      profile.thoughtsRepo = options.repo;
+      // The remote belongs to the source's repository
+      delete profile.remote;
+    }
+
+    config.profiles = { ...config.profiles, [newName]: profile };
+    saveThoughtsConfig(config, options, true);
+
+    if (options.repo) {
+      await withRepoLock(
+        expandPath(profile.thoughtsRepo),
+        "profile clone",
+        () => ensureThoughtsRepoExists(profile),
+      );
+    }
+
+    console.log(
+      chalk.green(`✓ Created profile "${newName}" from "${sourceName}"`),
+    );
+    console.log(`  Thoughts repository: ${chalk.cyan(profile.thoughtsRepo)}`);
+  } catch (error) {
+    console.error(chalk.red(`Error cloning profile: ${error}`));
+    process.exit(1);
+  }
+}
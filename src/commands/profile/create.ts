@@ -8,6 +8,7 @@ import {
   sanitizeProfileName,
   validateProfile,
 } from "../../thoughtsConfig.js";
+import { withRepoLock } from "../../lock.js";
 import type { ProfileConfig } from "../../config.js";
 
 interface CreateOptions {
@@ -123,7 +124,9 @@ export async function profileCreateCommand(
 
     // Create the profile's thoughts repository structure
     console.log(chalk.gray("\nInitializing profile thoughts repository..."));
-    ensureThoughtsRepoExists(profileConfig);
+    await withRepoLock(thoughtsRepo, "profile create", () =>
+      ensureThoughtsRepoExists(profileConfig),
+    );
 
     console.log(
       chalk.green(`\nProfile "${sanitizedName}" created successfully!`),
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { findProfileReferences, removeProfile } from "./delete.js";
+import type { ThoughtsConfig } from "../../thoughtsConfig.js";
+
+describe("profile delete", () => {
+  const profile = {
+    thoughtsRepo: "~/work-thoughts",
+    reposDir: "repos",
+    globalDir: "global",
+  };
+
+  const makeConfig = (): ThoughtsConfig => ({
+    thoughtsRepo: "~/thoughts",
+    reposDir: "repos",
+    globalDir: "global",
+    user: "alice",
+    repoMappings: {
+      "/code/api": { repo: "api", profile: "work" },
+      "/code/cli": "cli",
+    },
+    profiles: { work: profile, oss: profile },
+    profileRules: [
+      { profile: "work", path: "~/work/**" },
+      { profile: "oss", path: "~/oss/**" },
+    ],
+    defaultProfile: "work",
+  });
+
+  describe("findProfileReferences()", () => {
+    it("should find the mappings, rules and defaultProfile naming it", () => {
+      const config = makeConfig();
+
+      expect(findProfileReferences(config, "work")).toEqual({
+        repos: ["/code/api"],
+        rules: [{ profile: "work", path: "~/work/**" }],
+        isDefault: true,
+      });
+      expect(findProfileReferences(config, "oss")).toEqual({
+        repos: [],
+        rules: [{ profile: "oss", path: "~/oss/**" }],
+        isDefault: false,
+      });
+    });
+  });
+
+  describe("removeProfile()", () => {
+    it("should drop the rules and defaultProfile that name it", () => {
+      const config = makeConfig();
+
+      removeProfile(config, "work");
+      expect(Object.keys(config.profiles!)).toEqual(["oss"]);
+      expect(config.profileRules).toEqual([
+        { profile: "oss", path: "~/oss/**" },
+      ]);
+      expect(config.defaultProfile).toBeUndefined();
+
+      removeProfile(config, "oss");
+      expect(config.profiles).toBeUndefined();
+      expect(config.profileRules).toBeUndefined();
+    });
+  });
+});
@@ -1,16 +1,77 @@
+import fs from "fs";
 import chalk from "chalk";
 import readline from "readline";
 import {
   loadThoughtsConfig,
   saveThoughtsConfig,
   validateProfile,
+  expandPath,
+  describeProfileRule,
+  type ThoughtsConfig,
 } from "../../thoughtsConfig.js";
+import type { ProfileRule } from "../../config.js";
+import { acquireRepoLock } from "../../lock.js";
 
 interface DeleteOptions {
   force?: boolean;
   configFile?: string;
 }
 
+export interface ProfileReferences {
+  repos: string[]; // Mapped repositories using the profile
+  rules: ProfileRule[]; // Profile rules that pick it
+  isDefault: boolean; // Whether it is the defaultProfile
+}
+
+/**
+ * Finds everything in the config that refers to a profile by name
+ */
+export function findProfileReferences(
+  config: ThoughtsConfig,
+  profileName: string,
+): ProfileReferences {
+  return {
+    repos: Object.entries(config.repoMappings)
+      .filter(
+        ([, mapping]) =>
+          typeof mapping === "object" && mapping.profile === profileName,
+      )
+      .map(([repoPath]) => repoPath),
+    rules: (config.profileRules ?? []).filter(
+      (rule) => rule.profile === profileName,
+    ),
+    isDefault: config.defaultProfile === profileName,
+  };
+}
+
+/**
+ * Removes a profile from the config along with the profile rules and the
+ * defaultProfile that name it. Repositories mapped to it fall back to the
+ * default config.
+ */
+export function removeProfile(
+  config: ThoughtsConfig,
+  profileName: string,
+): void {
+  delete config.profiles?.[profileName];
+  // If profiles is now empty, remove it entirely
+  if (config.profiles && Object.keys(config.profiles).length === 0) {
+    delete config.profiles;
+  }
+
+  if (config.profileRules) {
+    config.profileRules = config.profileRules.filter(
+      (rule) => rule.profile !== profileName,
+    );
+    if (config.profileRules.length === 0) {
+      delete config.profileRules;
+    }
+  }
+  if (config.defaultProfile === profileName) {
+    delete config.defaultProfile;
+  }
+}
+
 function prompt(question: string): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -42,13 +103,8 @@ export async function profileDeleteCommand(
       process.exit(1);
     }
 
-    // Check if any repositories are using this profile
-    const usingRepos: string[] = [];
-    Object.entries(config.repoMappings).forEach(([repoPath, mapping]) => {
-      if (typeof mapping === "object" && mapping.profile === profileName) {
-        usingRepos.push(repoPath);
-      }
-    });
+    const references = findProfileReferences(config, profileName);
+    const usingRepos = references.repos;
 
     if (usingRepos.length > 0 && !options.force) {
       console.error(
@@ -73,6 +129,36 @@ export async function profileDeleteCommand(
       process.exit(1);
     }
 
+    // Rules naming a missing profile would be reported by every doctor run
+    if (
+      (references.rules.length > 0 || references.isDefault) &&
+      !options.force
+    ) {
+      console.error(
+        chalk.red(
+          `Error: Profile "${profileName}" is picked by the profile rules:`,
+        ),
+      );
+      console.error("");
+      references.rules.forEach((rule) => {
+        console.error(chalk.gray(`  - rule: ${describeProfileRule(rule)}`));
+      });
+      if (references.isDefault) {
+        console.error(chalk.gray("  - defaultProfile"));
+      }
+      console.error("");
+      console.error(chalk.yellow("Options:"));
+      console.error(
+        chalk.gray(
+          '  1. Change them with "thoughts config set profileRules" or "thoughts config unset defaultProfile"',
+        ),
+      );
+      console.error(
+        chalk.gray("  2. Use --force to delete the profile along with them"),
+      );
+      process.exit(1);
+    }
+
     // Confirm deletion
     if (!options.force) {
       console.log(
@@ -93,19 +179,29 @@ export async function profileDeleteCommand(
       }
     }
 
-    // Delete profile
-    delete config.profiles![profileName];
+    // Wait for any sync running against the profile's repo to finish
+    const thoughtsRepo = expandPath(config.profiles![profileName].thoughtsRepo);
+    const lock = fs.existsSync(thoughtsRepo)
+      ? await acquireRepoLock(thoughtsRepo, "profile delete")
+      : null;
 
-    // If profiles is now empty, remove it entirely
-    if (Object.keys(config.profiles!).length === 0) {
-      delete config.profiles;
-    }
+    removeProfile(config, profileName);
 
     // Save config
     saveThoughtsConfig(config, options);
+    lock?.release();
 
     console.log(chalk.green(`\nProfile "${profileName}" deleted`));
 
+    if (references.rules.length > 0) {
+      console.log(
+        chalk.gray(`Removed ${references.rules.length} profile rule(s)`),
+      );
+    }
+    if (references.isDefault) {
+      console.log(chalk.gray("Removed defaultProfile"));
+    }
+
     if (usingRepos.length > 0) {
       console.log("");
       console.log(
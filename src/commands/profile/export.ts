@@ -0,0 +1,115 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  expandPath,
+  validateProfile,
+} from "../../thoughtsConfig.js";
+import type { ProfileConfig } from "../../config.js";
+
+interface ExportOptions {
+  output?: string;
+  configFile?: string;
+}
+
+// Bump when the file layout changes incompatibly
+export const PROFILE_EXPORT_VERSION = 1;
+
+export interface ProfileExportFile {
+  thoughtsProfile: number; // PROFILE_EXPORT_VERSION of the writer
+  name: string;
+  profile: ProfileConfig;
+}
+
+function getOriginUrl(repoPath: string): string | undefined {
+  try {
+    return (
+      execFileSync("git", ["remote", "get-url", "origin"], {
+        cwd: repoPath,
+        encoding: "utf8",
+        stdio: "pipe",
+      }).trim() || undefined
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a profile definition that works on other machines: the thoughts
+ * repository is given relative to the home directory, and its remote is
+ * filled in from the local clone if the profile does not name one
+ */
+export function buildProfileExport(
+  name: string,
+  profile: ProfileConfig,
+): ProfileExportFile {
+  const expandedRepo = expandPath(profile.thoughtsRepo);
+  const home = os.homedir();
+  const thoughtsRepo =
+    expandedRepo === home || expandedRepo.startsWith(home + path.sep)
+      ? path.join("~", path.relative(home, expandedRepo))
+      : profile.thoughtsRepo;
+  const remote = profile.remote || getOriginUrl(expandedRepo);
+
+  return {
+    thoughtsProfile: PROFILE_EXPORT_VERSION,
+    name,
+    profile: {
+      ...profile,
+      thoughtsRepo,
+      ...(remote && { remote }),
+    },
+  };
+}
+
+export async function profileExportCommand(
+  profileName: string,
+  options: ExportOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    if (!validateProfile(config, profileName)) {
+      console.error(chalk.red(`Error: Profile "${profileName}" not found.`));
+      process.exit(1);
+    }
+
+    const exported = buildProfileExport(
+      profileName,
+      config.profiles![profileName],
+    );
+    const content = JSON.stringify(exported, null, 2) + "\n";
+
+    if (!options.output) {
+      process.stdout.write(content);
+      return;
+    }
+
+    fs.writeFileSync(options.output, content);
+    console.log(
+      chalk.green(`✓ Exported profile "${profileName}" to ${options.output}`),
+    );
+    if (!exported.profile.remote) {
+      console.log(
+        chalk.yellow(
+          "The profile has no remote, so importers must create or clone its thoughts repository themselves.",
+        ),
+      );
+    }
+    console.log(
+      chalk.gray(`Import it with: thoughts profile import ${options.output}`),
+    );
+  } catch (error) {
+    console.error(chalk.red(`Error exporting profile: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import os from "os";
+import path from "path";
+import { parseProfileExport } from "./import.js";
+import { buildProfileExport, PROFILE_EXPORT_VERSION } from "./export.js";
+
+describe("profile export and import", () => {
+  const profile = {
+    thoughtsRepo: path.join(os.homedir(), "work-thoughts"),
+    reposDir: "projects",
+    globalDir: "common",
+    remote: "git@example.com:team/thoughts.git",
+    hooks: "protect" as const,
+  };
+
+  describe("buildProfileExport()", () => {
+    it("should write the repository relative to the home directory", () => {
+      const exported = buildProfileExport("work", profile);
+
+      expect(exported).toEqual({
+        thoughtsProfile: PROFILE_EXPORT_VERSION,
+        name: "work",
+        profile: { ...profile, thoughtsRepo: path.join("~", "work-thoughts") },
+      });
+    });
+
+    it("should keep paths outside the home directory as they are", () => {
+      const exported = buildProfileExport("work", {
+        ...profile,
+        thoughtsRepo: "/srv/thoughts",
+      });
+
+      expect(exported.profile.thoughtsRepo).toBe("/srv/thoughts");
+    });
+  });
+
+  describe("parseProfileExport()", () => {
+    it("should read what buildProfileExport writes", () => {
+      const exported = buildProfileExport("work", profile);
+
+      expect(parseProfileExport(JSON.stringify(exported), "work.json")).toEqual(
+        exported,
+      );
+    });
+
+    it("should reject files that are not exported profiles", () => {
+      expect(() => parseProfileExport("{", "a.json")).toThrow(
+        "a.json is not valid JSON",
+      );
+      expect(() =>
+        parseProfileExport(JSON.stringify({ thoughts: {} }), "a.json"),
+      ).toThrow("a.json is not an exported thoughts profile");
+    });
+
+    it("should refuse files from a newer format", () => {
+      const content = JSON.stringify({
+        ...buildProfileExport("work", profile),
+        thoughtsProfile: PROFILE_EXPORT_VERSION + 1,
+      });
+
+      expect(() => parseProfileExport(content, "a.json")).toThrow(
+        "newer thoughts CLI",
+      );
+    });
+
+    it("should list every problem with the profile", () => {
+      const content = JSON.stringify({
+        thoughtsProfile: PROFILE_EXPORT_VERSION,
+        name: "",
+        profile: { ...profile, reposDir: "", hooks: "some" },
+      });
+
+      expect(() => parseProfileExport(content, "a.json")).toThrow(
+        [
+          "a.json is invalid:",
+          "  name must be a non-empty string",
+          "  profile.reposDir must be a non-empty string",
+          '  profile.hooks must be one of "all", "protect", "none"',
+        ].join("\n"),
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import fs from "fs";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  ensureThoughtsRepoExists,
+  expandPath,
+  sanitizeProfileName,
+  validateProfile,
+} from "../../thoughtsConfig.js";
+import { withRepoLock } from "../../lock.js";
+import {
+  formatSchemaError,
+  validateProfileConfig,
+} from "../../configSchema.js";
+import { askForUser, cloneThoughtsRepo } from "../clone.js";
+import { PROFILE_EXPORT_VERSION, type ProfileExportFile } from "./export.js";
+
+interface ImportOptions {
+  name?: string;
+  repo?: string;
+  user?: string;
+  force?: boolean;
+  configFile?: string;
+}
+
+/**
+ * Reads an exported profile, explaining exactly what is wrong with a file
+ * that is not one
+ */
+export function parseProfileExport(
+  content: string,
+  source: string,
+): ProfileExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error}`);
+  }
+
+  const file = data as Partial<ProfileExportFile> | null;
+  if (
+    typeof file !== "object" ||
+    file === null ||
+    typeof file.thoughtsProfile !== "number"
+  ) {
+    throw new Error(`${source} is not an exported thoughts profile`);
+  }
+  if (file.thoughtsProfile > PROFILE_EXPORT_VERSION) {
+    throw new Error(
+      `${source} was exported by a newer thoughts CLI (format ${file.thoughtsProfile}); please upgrade`,
+    );
+  }
+
+  const errors = validateProfileConfig(file.profile, ["profile"]);
+  if (typeof file.name !== "string" || !file.name.trim()) {
+    errors.unshift({ path: ["name"], message: "must be a non-empty string" });
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `${source} is invalid:\n${errors.map((error) => `  ${formatSchemaError(error)}`).join("\n")}`,
+    );
+  }
+
+  return file as ProfileExportFile;
+}
+
+export async function profileImportCommand(
+  file: string,
+  options: ImportOptions,
+): Promise<void> {
+  try {
+    const exported = parseProfileExport(fs.readFileSync(file, "utf8"), file);
+    let config = loadThoughtsConfig(options);
+
+    const name = sanitizeProfileName(options.name || exported.name);
+    if (name !== (options.name || exported.name)) {
+      console.log(
+        chalk.yellow(
+          `Profile name sanitized: "${options.name || exported.name}" → "${name}"`,
+        ),
+      );
+    }
+    if (config && validateProfile(config, name) && !options.force) {
+      console.error(chalk.red(`Error: Profile "${name}" already exists.`));
+      console.error(
+        "Use --force to replace it, or --name to import it under another name.",
+      );
+      process.exit(1);
+    }
+
+    const profile = { ...exported.profile };
+    if (options.repo) {
+      profile.thoughtsRepo = options.repo;
+    }
+    const target = expandPath(profile.thoughtsRepo);
+
+    if (profile.remote) {
+      if (cloneThoughtsRepo(profile.remote, target)) {
+        console.log(chalk.green(`Cloned ${profile.remote} into ${target}`));
+      } else {
+        console.log(
+          chalk.gray(`${target} is already a clone of ${profile.remote}`),
+        );
+      }
+    }
+    await withRepoLock(target, "profile import", () =>
+      ensureThoughtsRepoExists(profile),
+    );
+
+    if (!config) {
+      // On a new machine the profile's repository also becomes the default
+      config = {
+        thoughtsRepo: profile.thoughtsRepo,
+        reposDir: profile.reposDir,
+        globalDir: profile.globalDir,
+        user: await askForUser(options),
+        repoMappings: {},
+      };
+    }
+    config.profiles = { ...config.profiles, [name]: profile };
+    saveThoughtsConfig(config, options, true);
+
+    console.log(chalk.green(`✓ Imported profile "${name}"`));
+    console.log(`  Thoughts repository: ${chalk.cyan(profile.thoughtsRepo)}`);
+    if (profile.hooks && profile.hooks !== "all") {
+      console.log(`  Hooks: ${chalk.cyan(profile.hooks)}`);
+    }
+    console.log("");
+    console.log(chalk.gray("Next steps:"));
+    console.log(
+      chalk.gray(
+        `  Link your checkouts with "thoughts relink --scan <dir> --profile ${name}"`,
+      ),
+    );
+    console.log(
+      chalk.gray(`  or run "thoughts init --profile ${name}" in a repository`),
+    );
+  } catch (error) {
+    console.error(chalk.red(`Error importing profile: ${error}`));
+    process.exit(1);
+  }
+}
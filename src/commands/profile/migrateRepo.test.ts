@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import { migrateRepository } from "./migrateRepo.js";
+import type { ThoughtsConfig } from "../../thoughtsConfig.js";
+
+describe("migrateRepository()", () => {
+  let tmpDir: string;
+  let config: ThoughtsConfig;
+  let checkout: string;
+  let otherCheckout: string;
+
+  const run = (command: string, cwd: string) =>
+    execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+
+  const write = (file: string, content: string) => {
+    const fullPath = path.join(tmpDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const lastCommit = (repo: string) =>
+    run("git log -1 --format=%s", path.join(tmpDir, repo)).trim();
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-migrate-test-"));
+    for (const repo of ["thoughts", "work"]) {
+      fs.mkdirSync(path.join(tmpDir, repo));
+      run("git init -q", path.join(tmpDir, repo));
+      run(
+        "git config user.name test && git config user.email test@example.com",
+        path.join(tmpDir, repo),
+      );
+      run("git commit -q --allow-empty -m init", path.join(tmpDir, repo));
+    }
+    write("thoughts/repos/app/alice/plan.md", "plan");
+    run("git add -A && git commit -qm notes", path.join(tmpDir, "thoughts"));
+
+    checkout = path.join(tmpDir, "code", "app");
+    otherCheckout = path.join(tmpDir, "code", "app-2");
+    config = {
+      thoughtsRepo: path.join(tmpDir, "thoughts"),
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: {
+        [checkout]: "app",
+        [otherCheckout]: { repo: "app", remote: "github.com/org/app" },
+        [path.join(tmpDir, "code", "cli")]: "cli",
+      },
+      profiles: {
+        work: {
+          thoughtsRepo: path.join(tmpDir, "work"),
+          reposDir: "projects",
+          globalDir: "global",
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should move the notes and every checkout using them", async () => {
+    const result = await migrateRepository(config, checkout, "work");
+
+    expect(result).toMatchObject({
+      sourceDir: path.join(tmpDir, "thoughts", "repos", "app"),
+      targetDir: path.join(tmpDir, "work", "projects", "app"),
+      copied: 1,
+      repoPaths: [checkout, otherCheckout],
+    });
+    expect(
+      fs.readFileSync(path.join(result.targetDir, "alice", "plan.md"), "utf8"),
+    ).toBe("plan");
+    expect(fs.existsSync(result.sourceDir)).toBe(false);
+    expect(result.targetCommit).not.toBeNull();
+    expect(result.sourceCommit).not.toBeNull();
+    expect(lastCommit("work")).toBe(
+      `Import ${path.join("projects", "app")} from the default thoughts repository`,
+    );
+    expect(lastCommit("thoughts")).toBe(
+      `Move ${path.join("repos", "app")} to profile work`,
+    );
+
+    expect(config.repoMappings).toEqual({
+      [checkout]: { repo: "app", profile: "work" },
+      [otherCheckout]: {
+        repo: "app",
+        remote: "github.com/org/app",
+        profile: "work",
+      },
+      [path.join(tmpDir, "code", "cli")]: "cli",
+    });
+  });
+
+  it("should leave the notes and other checkouts in place with copy", async () => {
+    const result = await migrateRepository(config, checkout, "work", true);
+
+    expect(result).toMatchObject({
+      copied: 1,
+      sourceCommit: null,
+      repoPaths: [checkout],
+    });
+    expect(fs.existsSync(path.join(result.sourceDir, "alice", "plan.md"))).toBe(
+      true,
+    );
+    expect(fs.existsSync(path.join(result.targetDir, "alice", "plan.md"))).toBe(
+      true,
+    );
+    expect(lastCommit("thoughts")).toBe("notes");
+    expect(config.repoMappings[checkout]).toEqual({
+      repo: "app",
+      profile: "work",
+    });
+    expect(config.repoMappings[otherCheckout]).toEqual({
+      repo: "app",
+      remote: "github.com/org/app",
+    });
+  });
+
+  it("should refuse a target that already has notes", async () => {
+    write("work/projects/app/bob/other.md", "other");
+    const before = structuredClone(config);
+
+    await expect(migrateRepository(config, checkout, "work")).rejects.toThrow(
+      `${path.join(tmpDir, "work", "projects", "app")} already has notes`,
+    );
+    expect(config).toEqual(before);
+    expect(
+      fs.existsSync(path.join(tmpDir, "thoughts/repos/app/alice/plan.md")),
+    ).toBe(true);
+    expect(lastCommit("work")).toBe("init");
+  });
+
+  it("should only switch the mappings between profiles sharing the notes", async () => {
+    config.profiles!.client = {
+      thoughtsRepo: path.join(tmpDir, "thoughts"),
+      reposDir: "repos",
+      globalDir: "client-global",
+    };
+
+    const result = await migrateRepository(config, checkout, "client");
+
+    expect(result).toMatchObject({
+      shared: true,
+      copied: 0,
+      targetCommit: null,
+      repoPaths: [checkout, otherCheckout],
+    });
+    expect(
+      fs.existsSync(path.join(tmpDir, "thoughts/repos/app/alice/plan.md")),
+    ).toBe(true);
+    expect(lastCommit("thoughts")).toBe("notes");
+    expect(config.repoMappings[checkout]).toEqual({
+      repo: "app",
+      profile: "client",
+    });
+    expect(config.repoMappings[otherCheckout]).toMatchObject({
+      profile: "client",
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import chalk from "chalk";
+import {
+  ResolvedProfileConfig,
+  ThoughtsConfig,
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  expandPath,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  resolveProfileConfig,
+  resolveProfileForRepo,
+  validateProfile,
+} from "../../thoughtsConfig.js";
+import { acquireRepoLock, type RepoLock } from "../../lock.js";
+import { isRebaseInProgress } from "../../conflicts.js";
+import { assertThoughtsDirectoryReplaceable, linkRepository } from "../init.js";
+import {
+  commitThoughtsPaths,
+  findReposUsingDirectory,
+  isGitRepo,
+} from "../mv.js";
+
+interface MigrateRepoOptions {
+  to?: string;
+  toDefault?: boolean;
+  copy?: boolean;
+  configFile?: string;
+}
+
+export interface MigrateRepoResult {
+  from: ResolvedProfileConfig;
+  to: ResolvedProfileConfig;
+  sourceDir: string;
+  targetDir: string;
+  shared: boolean; // Both profiles use the same directory, so nothing moved
+  copied: number; // Files copied into targetDir
+  sourceCommit: string | null; // Commit removing the notes, unless copied
+  targetCommit: string | null; // Commit importing them
+  repoPaths: string[]; // Checkouts whose mapping now uses the target profile
+}
+
+function describeProfile(profileConfig: ResolvedProfileConfig): string {
+  return profileConfig.profileName
+    ? `profile ${profileConfig.profileName}`
+    : "the default thoughts repository";
+}
+
+function getHeadCommit(repoPath: string): string | null {
+  try {
+    return execFileSync("git", ["rev-parse", "--short", "HEAD"], {
+      cwd: repoPath,
+      encoding: "utf8",
+      stdio: "pipe",
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+function copyDirectory(source: string, target: string): number {
+  let copied = 0;
+  fs.mkdirSync(target, { recursive: true });
+
+  for (const entry of fs.readdirSync(source, { withFileTypes: true })) {
+    const from = path.join(source, entry.name);
+    const to = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      copied += copyDirectory(from, to);
+    } else if (entry.isSymbolicLink()) {
+      fs.symlinkSync(fs.readlinkSync(from), to);
+      copied++;
+    } else {
+      fs.copyFileSync(from, to);
+      copied++;
+    }
+  }
+  return copied;
+}
+
+function hasFiles(dir: string): boolean {
+  if (!fs.existsSync(dir)) return false;
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .some(
+      (entry) => !entry.isDirectory() || hasFiles(path.join(dir, entry.name)),
+    );
+}
+
+function checkNoInterruptedSync(expandedRepo: string): void {
+  if (isGitRepo(expandedRepo) && isRebaseInProgress(expandedRepo)) {
+    throw new Error(
+      `${expandedRepo} has an interrupted sync. Run "thoughts sync --continue" there first.`,
+    );
+  }
+}
+
+/**
+ * Copies the notes from result.sourceDir to result.targetDir and commits
+ * them, then unless copying removes and commits the originals. Throws
+ * before touching anything if the target already has notes.
+ */
+async function transferNotes(
+  result: MigrateRepoResult,
+  name: string,
+  copy: boolean,
+): Promise<void> {
+  const { from, to, sourceDir, targetDir } = result;
+  const fromRepo = expandPath(from.thoughtsRepo);
+  const toRepo = expandPath(to.thoughtsRepo);
+  const relName = path.join(from.reposDir, name);
+
+  if (!fs.existsSync(sourceDir)) {
+    throw new Error(`${sourceDir} does not exist.`);
+  }
+  if (hasFiles(targetDir)) {
+    throw new Error(
+      `${targetDir} already has notes. Rename one of them first with "thoughts mv${to.profileName ? ` --profile ${to.profileName}` : ""} ${name} <new-name>".`,
+    );
+  }
+  if (!fs.existsSync(toRepo)) {
+    throw new Error(`${toRepo} does not exist.`);
+  }
+
+  // Profiles may share a thoughts repository, which has a single lock
+  const locks: RepoLock[] = [];
+  try {
+    for (const repo of [...new Set([fromRepo, toRepo])].sort()) {
+      locks.push(await acquireRepoLock(repo, "profile migrate-repo"));
+      checkNoInterruptedSync(repo);
+    }
+
+    result.copied = copyDirectory(sourceDir, targetDir);
+    const sourceHead = getHeadCommit(fromRepo);
+    const importMessage = `Import ${path.join(to.reposDir, name)} from ${describeProfile(from)}\n\n${copy ? "Copied" : "Moved"} from ${fromRepo}${sourceHead ? ` at ${sourceHead}` : ""}.`;
+    if (
+      isGitRepo(toRepo) &&
+      commitThoughtsPaths(toRepo, [path.join(to.reposDir, name)], importMessage)
+    ) {
+      result.targetCommit = getHeadCommit(toRepo);
+    }
+
+    if (!copy) {
+      fs.rmSync(sourceDir, { recursive: true, force: true });
+      const moveMessage = `Move ${relName} to ${describeProfile(to)}\n\nImported into ${toRepo}${result.targetCommit ? ` as ${result.targetCommit}` : ""}.`;
+      if (
+        isGitRepo(fromRepo) &&
+        commitThoughtsPaths(fromRepo, [relName], moveMessage)
+      ) {
+        result.sourceCommit = getHeadCommit(fromRepo);
+      }
+    }
+  } finally {
+    locks.forEach((lock) => lock.release());
+  }
+}
+
+/**
+ * Moves a mapped repository's notes to another profile's thoughts repository
+ * (or the default one when toProfile is undefined), committing in both, and
+ * points the mappings at that profile. Moving takes every checkout of the
+ * directory along; copying only repoPath. Profiles sharing a thoughts
+ * repository and reposDir already share the notes, so only the mappings
+ * change. The caller saves the config and relinks the checkouts.
+ */
+export async function migrateRepository(
+  config: ThoughtsConfig,
+  repoPath: string,
+  toProfile: string | undefined,
+  copy = false,
+): Promise<MigrateRepoResult> {
+  const name = getRepoNameFromMapping(config.repoMappings[repoPath])!;
+  const from = resolveProfileForRepo(config, repoPath);
+  const to = resolveProfileConfig(config, toProfile);
+  const fromRepo = expandPath(from.thoughtsRepo);
+  const toRepo = expandPath(to.thoughtsRepo);
+
+  const shared = fromRepo === toRepo && from.reposDir === to.reposDir;
+
+  const result: MigrateRepoResult = {
+    from,
+    to,
+    sourceDir: path.join(fromRepo, from.reposDir, name),
+    targetDir: path.join(toRepo, to.reposDir, name),
+    shared,
+    copied: 0,
+    sourceCommit: null,
+    targetCommit: null,
+    // Found before the mappings change
+    repoPaths: copy ? [repoPath] : findReposUsingDirectory(config, from, name),
+  };
+
+  if (!shared) {
+    await transferNotes(result, name, copy);
+  }
+
+  for (const mappedPath of result.repoPaths) {
+    const current = config.repoMappings[mappedPath];
+    const updated =
+      typeof current === "string" ? { repo: current } : { ...current };
+    if (to.profileName) {
+      updated.profile = to.profileName;
+    } else {
+      delete updated.profile;
+    }
+    config.repoMappings[mappedPath] = updated;
+  }
+  return result;
+}
+
+export async function profileMigrateRepoCommand(
+  repoPathArg: string,
+  options: MigrateRepoOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    if (!!options.to === !!options.toDefault) {
+      console.error(
+        chalk.red("Error: Pass either --to <profile> or --to-default."),
+      );
+      process.exit(1);
+    }
+    if (options.to && !validateProfile(config, options.to)) {
+      console.error(chalk.red(`Error: Profile "${options.to}" not found.`));
+      process.exit(1);
+    }
+
+    const repoPath = path.resolve(expandPath(repoPathArg));
+    const mapping = config.repoMappings[repoPath];
+    if (!mapping) {
+      console.error(chalk.red(`Error: ${repoPath} is not mapped.`));
+      console.error('Run "thoughts repos list" to see mapped repositories.');
+      process.exit(1);
+    }
+
+    if (getProfileNameFromMapping(mapping) === options.to) {
+      console.log(
+        chalk.gray(
+          `${repoPath} already uses ${options.to ? `profile ${options.to}` : "the default thoughts repository"}`,
+        ),
+      );
+      return;
+    }
+
+    const { from, to, ...result } = await migrateRepository(
+      config,
+      repoPath,
+      options.to,
+      options.copy,
+    );
+    const fromRepo = expandPath(from.thoughtsRepo);
+    const toRepo = expandPath(to.thoughtsRepo);
+    if (result.shared) {
+      console.log(
+        chalk.gray(
+          `${result.sourceDir} is shared with ${describeProfile(to)}, so no notes move`,
+        ),
+      );
+    } else {
+      console.log(
+        chalk.green(
+          `✓ ${options.copy ? "Copied" : "Moved"} ${result.copied} file(s) from ${result.sourceDir} to ${result.targetDir}`,
+        ),
+      );
+    }
+    if (result.targetCommit) {
+      console.log(
+        chalk.gray(`  Committed in ${toRepo} (${result.targetCommit})`),
+      );
+    }
+    if (result.sourceCommit) {
+      console.log(
+        chalk.gray(`  Committed in ${fromRepo} (${result.sourceCommit})`),
+      );
+    }
+
+    saveThoughtsConfig(config, options, true);
+    console.log(
+      chalk.green(
+        `✓ ${result.repoPaths.length} checkout(s) now use ${describeProfile(to)}`,
+      ),
+    );
+
+    const name = getRepoNameFromMapping(mapping)!;
+    let failed = 0;
+    for (const mappedPath of result.repoPaths) {
+      if (!fs.existsSync(mappedPath)) {
+        console.log(
+          `  ${chalk.gray("-")} ${mappedPath} ${chalk.gray("(missing)")}`,
+        );
+        continue;
+      }
+      try {
+        assertThoughtsDirectoryReplaceable(mappedPath);
+        await linkRepository(config, mappedPath, name, {
+          command: "profile migrate-repo",
+        });
+        console.log(`  ${chalk.green("✓")} ${mappedPath}`);
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`  ${chalk.red("✗")} ${mappedPath}: ${message}`);
+      }
+    }
+
+    if (!result.shared) {
+      const pushRepos = options.copy ? toRepo : `${toRepo} and ${fromRepo}`;
+      console.log("");
+      console.log(
+        chalk.gray(
+          `The commits are pushed by the next "thoughts sync" in ${pushRepos}.`,
+        ),
+      );
+    }
+    if (failed > 0) process.exit(1);
+  } catch (error) {
+    console.error(chalk.red(`Error migrating repository: ${error}`));
+    process.exit(1);
+  }
+}
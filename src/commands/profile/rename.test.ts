@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { renameProfile } from "./rename.js";
+import type { ThoughtsConfig } from "../../thoughtsConfig.js";
+
+describe("renameProfile()", () => {
+  const profile = {
+    thoughtsRepo: "~/work-thoughts",
+    reposDir: "repos",
+    globalDir: "global",
+  };
+
+  it("should rename every reference to the profile", () => {
+    const config: ThoughtsConfig = {
+      thoughtsRepo: "~/thoughts",
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: {
+        "/code/api": { repo: "api", profile: "work" },
+        "/code/cli": "cli",
+        "/code/site": { repo: "site", profile: "personal" },
+      },
+      profiles: { personal: profile, work: profile, oss: profile },
+      profileRules: [
+        { profile: "work", path: "~/work/**" },
+        { profile: "oss", path: "~/oss/**" },
+        { profile: "work", remote: "github.com/acme/*" },
+      ],
+      defaultProfile: "work",
+    };
+
+    expect(renameProfile(config, "work", "acme")).toEqual({
+      mappings: 1,
+      rules: 2,
+      defaultProfile: true,
+    });
+    // Same position in the file
+    expect(Object.keys(config.profiles!)).toEqual(["personal", "acme", "oss"]);
+    expect(config.repoMappings["/code/api"]).toEqual({
+      repo: "api",
+      profile: "acme",
+    });
+    expect(config.profileRules!.map((rule) => rule.profile)).toEqual([
+      "acme",
+      "oss",
+      "acme",
+    ]);
+    expect(config.defaultProfile).toBe("acme");
+  });
+});
@@ -0,0 +1,109 @@
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  sanitizeProfileName,
+  validateProfile,
+  type ThoughtsConfig,
+} from "../../thoughtsConfig.js";
+
+interface RenameOptions {
+  configFile?: string;
+}
+
+export interface ProfileRenameResult {
+  mappings: number; // Repo mappings now using the new name
+  rules: number; // Likewise for profile rules
+  defaultProfile: boolean; // Whether it was the defaultProfile
+}
+
+/**
+ * Renames a profile in the config along with everything that refers to it
+ * by name: repo mappings, profile rules and defaultProfile
+ */
+export function renameProfile(
+  config: ThoughtsConfig,
+  oldName: string,
+  newName: string,
+): ProfileRenameResult {
+  // Rebuild the object so the profile keeps its position in the file
+  config.profiles = Object.fromEntries(
+    Object.entries(config.profiles || {}).map(([name, profile]) => [
+      name === oldName ? newName : name,
+      profile,
+    ]),
+  );
+
+  const result: ProfileRenameResult = {
+    mappings: 0,
+    rules: 0,
+    defaultProfile: false,
+  };
+  for (const [repoPath, mapping] of Object.entries(config.repoMappings)) {
+    if (typeof mapping === "object" && mapping.profile === oldName) {
+      config.repoMappings[repoPath] = { ...mapping, profile: newName };
+      result.mappings++;
+    }
+  }
+  config.profileRules?.forEach((rule) => {
+    if (rule.profile === oldName) {
+      rule.profile = newName;
+      result.rules++;
+    }
+  });
+  if (config.defaultProfile === oldName) {
+    config.defaultProfile = newName;
+    result.defaultProfile = true;
+  }
+  return result;
+}
+
+export async function profileRenameCommand(
+  oldName: string,
+  newNameArg: string,
+  options: RenameOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    if (!validateProfile(config, oldName)) {
+      console.error(chalk.red(`Error: Profile "${oldName}" not found.`));
+      process.exit(1);
+    }
+
+    const newName = sanitizeProfileName(newNameArg);
+    if (newName !== newNameArg) {
+      console.log(
+        chalk.yellow(`Profile name sanitized: "${newNameArg}" → "${newName}"`),
+      );
+    }
+    if (validateProfile(config, newName)) {
+      console.error(chalk.red(`Error: Profile "${newName}" already exists.`));
+      process.exit(1);
+    }
+
+    const updated = renameProfile(config, oldName, newName);
+    saveThoughtsConfig(config, options, true);
+
+    console.log(chalk.green(`✓ Renamed profile "${oldName}" to "${newName}"`));
+    if (updated.mappings > 0) {
+      console.log(
+        chalk.gray(`  Updated ${updated.mappings} repository mapping(s)`),
+      );
+    }
+    if (updated.rules > 0) {
+      console.log(chalk.gray(`  Updated ${updated.rules} profile rule(s)`));
+    }
+    if (updated.defaultProfile) {
+      console.log(chalk.gray("  Updated defaultProfile"));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error renaming profile: ${error}`));
+    process.exit(1);
+  }
+}
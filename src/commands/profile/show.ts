@@ -46,6 +46,10 @@ export async function profileShowCommand(
     console.log(`  Thoughts repository: ${chalk.cyan(profile.thoughtsRepo)}`);
     console.log(`  Repos directory: ${chalk.cyan(profile.reposDir)}`);
     console.log(`  Global directory: ${chalk.cyan(profile.globalDir)}`);
+    if (profile.remote) {
+      console.log(`  Remote: ${chalk.cyan(profile.remote)}`);
+    }
+    console.log(`  Hooks: ${chalk.cyan(profile.hooks || "all")}`);
     console.log("");
 
     // Count repositories using this profile
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  findMappedCheckout,
+  formatPromptSegment,
+  getPromptInfo,
+  PromptInfo,
+} from "./prompt.js";
+import { updateThoughtsRepoState } from "../syncState.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("prompt.ts", () => {
+  let tmpDir: string;
+  let config: ThoughtsConfig;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-prompt-test-"));
+    vi.stubEnv("XDG_STATE_HOME", path.join(tmpDir, "state"));
+    config = {
+      thoughtsRepo: path.join(tmpDir, "thoughts"),
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: {
+        [path.join(tmpDir, "code")]: "code",
+        [path.join(tmpDir, "work")]: { repo: "work", profile: "work" },
+      },
+      profiles: {
+        work: {
+          thoughtsRepo: path.join(tmpDir, "work-thoughts"),
+          reposDir: "repos",
+          globalDir: "global",
+        },
+      },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  const info = (overrides: Partial<PromptInfo>): PromptInfo => ({
+    repository: "/code",
+    profile: null,
+    thoughtsRepo: "~/thoughts",
+    changes: 0,
+    ahead: 0,
+    behind: 0,
+    rebasing: false,
+    updated: null,
+    ...overrides,
+  });
+
+  describe("findMappedCheckout()", () => {
+    it("should find the mapped checkout above a directory", () => {
+      expect(
+        findMappedCheckout(config, path.join(tmpDir, "code", "src", "lib")),
+      ).toBe(path.join(tmpDir, "code"));
+      expect(findMappedCheckout(config, tmpDir)).toBeUndefined();
+    });
+  });
+
+  describe("getPromptInfo()", () => {
+    it("should read counts from the snapshot status and sync leave", () => {
+      const workRepo = path.join(tmpDir, "work-thoughts");
+      fs.mkdirSync(path.join(workRepo, ".git", "rebase-merge"), {
+        recursive: true,
+      });
+      updateThoughtsRepoState(workRepo, {
+        snapshot: {
+          time: "2026-03-01T10:00:00.000Z",
+          branch: "main",
+          changes: 3,
+          ahead: 1,
+          behind: 0,
+        },
+      });
+
+      expect(getPromptInfo(config, path.join(tmpDir, "work"))).toEqual({
+        repository: path.join(tmpDir, "work"),
+        profile: "work",
+        thoughtsRepo: workRepo,
+        changes: 3,
+        ahead: 1,
+        behind: 0,
+        rebasing: true,
+        updated: "2026-03-01T10:00:00.000Z",
+      });
+      expect(getPromptInfo(config, path.join(tmpDir, "code"))).toMatchObject({
+        profile: null,
+        changes: null,
+        rebasing: false,
+      });
+      expect(getPromptInfo(config, tmpDir)).toBeNull();
+    });
+  });
+
+  describe("formatPromptSegment()", () => {
+    it("should leave out counts of zero", () => {
+      expect(formatPromptSegment(info({}))).toBe("✎");
+      expect(formatPromptSegment(info({ changes: 3, ahead: 1 }))).toBe("✎3↑1");
+      expect(
+        formatPromptSegment(
+          info({ profile: "work", behind: 2, ahead: null, rebasing: true }),
+        ),
+      ).toBe("work ✎↓2!");
+      expect(formatPromptSegment(info({ changes: null }))).toBe("✎?");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  ThoughtsConfig,
+  loadThoughtsConfig,
+  getCurrentRepoPath,
+  expandPath,
+  getProfileNameFromMapping,
+  resolveProfileConfig,
+} from "../thoughtsConfig.js";
+import { getThoughtsRepoState } from "../syncState.js";
+
+export const PROMPT_SHELLS = ["bash", "zsh", "fish", "starship"] as const;
+export type PromptShell = (typeof PROMPT_SHELLS)[number];
+
+export interface PromptInfo {
+  repository: string; // Mapped checkout containing the current directory
+  profile: string | null; // Null for the default thoughts repository
+  thoughtsRepo: string;
+  changes: number | null; // Null until status or sync has run
+  ahead: number | null;
+  behind: number | null;
+  rebasing: boolean; // A sync stopped on conflicts
+  updated: string | null; // When the counts were last refreshed
+}
+
+interface PromptOptions {
+  json?: boolean;
+  init?: string;
+  configFile?: string;
+}
+
+/**
+ * Finds the mapped checkout that contains dir by walking up from it. Only
+ * looks at paths, so no git command is needed.
+ */
+export function findMappedCheckout(
+  config: ThoughtsConfig,
+  dir: string,
+): string | undefined {
+  let current = path.resolve(dir);
+  for (;;) {
+    if (config.repoMappings[current]) return current;
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+function isRebasing(repoPath: string): boolean {
+  // Checked on disk: "git rev-parse --git-path" would cost a process
+  return ["rebase-merge", "rebase-apply"].some((name) =>
+    fs.existsSync(path.join(repoPath, ".git", name)),
+  );
+}
+
+/**
+ * Gathers the prompt segment for dir from the config and the snapshot that
+ * status and sync leave behind, without running git
+ */
+export function getPromptInfo(
+  config: ThoughtsConfig,
+  dir: string,
+): PromptInfo | null {
+  const repository = findMappedCheckout(config, dir);
+  if (!repository) return null;
+
+  const profile = getProfileNameFromMapping(config.repoMappings[repository]);
+  const profileConfig = resolveProfileConfig(config, profile);
+  const repoPath = expandPath(profileConfig.thoughtsRepo);
+  const snapshot = getThoughtsRepoState(repoPath).snapshot;
+
+  return {
+    repository,
+    profile: profileConfig.profileName || null,
+    thoughtsRepo: profileConfig.thoughtsRepo,
+    changes: snapshot ? snapshot.changes : null,
+    ahead: snapshot ? snapshot.ahead : null,
+    behind: snapshot ? snapshot.behind : null,
+    rebasing: isRebasing(repoPath),
+    updated: snapshot ? snapshot.time : null,
+  };
+}
+
+/**
+ * Formats a prompt segment such as "work ✎3↑1": the profile, uncommitted
+ * files, commits ahead of and behind the remote, and "!" while a sync is
+ * stopped on conflicts. Counts of zero are left out.
+ */
+export function formatPromptSegment(info: PromptInfo): string {
+  let segment = `✎${info.changes === null ? "?" : info.changes || ""}`;
+  if (info.ahead) segment += `↑${info.ahead}`;
+  if (info.behind) segment += `↓${info.behind}`;
+  if (info.rebasing) segment += "!";
+  return info.profile ? `${info.profile} ${segment}` : segment;
+}
+
+/**
+ * Returns a snippet that adds the segment to a shell's prompt
+ */
+export function getPromptSnippet(shell: PromptShell): string {
+  switch (shell) {
+    case "bash":
+      return `# thoughts prompt segment - add to ~/.bashrc
+__thoughts_prompt() {
+  local segment
+  segment="$(thoughts prompt 2>/dev/null)"
+  [ -n "$segment" ] && printf '(%s) ' "$segment"
+}
+PS1='$(__thoughts_prompt)'"$PS1"
+`;
+    case "zsh":
+      return `# thoughts prompt segment - add to ~/.zshrc
+__thoughts_prompt() {
+  local segment
+  segment="$(thoughts prompt 2>/dev/null)"
+  [[ -n "$segment" ]] && print -rn -- "($segment)"
+}
+setopt PROMPT_SUBST
+RPROMPT='$(__thoughts_prompt)'"$RPROMPT"
+`;
+    case "fish":
+      return `# thoughts prompt segment - save as ~/.config/fish/conf.d/thoughts.fish
+function __thoughts_prompt
+    set -l segment (thoughts prompt 2>/dev/null)
+    test -n "$segment"; and printf '(%s)' $segment
+end
+if not functions -q fish_right_prompt
+    function fish_right_prompt
+        __thoughts_prompt
+    end
+end
+`;
+    case "starship":
+      return `# thoughts prompt segment - add to ~/.config/starship.toml
+[custom.thoughts]
+command = "thoughts prompt"
+when = true
+require_repo = true
+shell = ["sh"]
+format = "[$output]($style) "
+style = "yellow"
+description = "Notes waiting in the thoughts repository"
+`;
+  }
+}
+
+export async function thoughtsPromptCommand(
+  options: PromptOptions,
+): Promise<void> {
+  if (options.init !== undefined) {
+    if (!PROMPT_SHELLS.includes(options.init as PromptShell)) {
+      console.error(
+        chalk.red(
+          `Error: Unknown shell "${options.init}". Use one of: ${PROMPT_SHELLS.join(", ")}`,
+        ),
+      );
+      process.exit(1);
+    }
+    process.stdout.write(getPromptSnippet(options.init as PromptShell));
+    return;
+  }
+
+  // Runs on every prompt, so problems leave the segment empty rather than
+  // printing errors into the user's prompt
+  try {
+    const config = loadThoughtsConfig(options);
+    const info = config && getPromptInfo(config, getCurrentRepoPath());
+    if (!info) return;
+
+    if (options.json) {
+      console.log(JSON.stringify(info, null, 2));
+      return;
+    }
+    console.log(formatPromptSegment(info));
+  } catch {
+    // Nothing to show
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  buildRelinkPlan,
+  findGitRepositories,
+  proposeDirectory,
+} from "./relink.js";
+import { linkRepository } from "./init.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("relink.ts", () => {
+  let tmpDir: string;
+  let config: ThoughtsConfig;
+
+  const run = (command: string, cwd: string) =>
+    execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+
+  const mkdirs = (...dirs: string[]) =>
+    dirs.forEach((dir) =>
+      fs.mkdirSync(path.join(tmpDir, dir), { recursive: true }),
+    );
+
+  const gitRepo = (dir: string, remote?: string) => {
+    mkdirs(dir);
+    run("git init -q", path.join(tmpDir, dir));
+    if (remote) {
+      run(`git remote add origin ${remote}`, path.join(tmpDir, dir));
+    }
+    return path.join(tmpDir, dir);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-relink-test-"));
+    config = {
+      thoughtsRepo: path.join(tmpDir, "thoughts"),
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: {},
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("findGitRepositories()", () => {
+    it("should find nested repositories without entering them", () => {
+      const app = gitRepo("code/app");
+      const lib = gitRepo("code/team/lib");
+      gitRepo("code/app/vendor/inner");
+      gitRepo("code/node_modules/pkg");
+      mkdirs("code/notes");
+
+      expect(findGitRepositories(path.join(tmpDir, "code"))).toEqual([
+        app,
+        lib,
+      ]);
+    });
+
+    it("should stop at the given depth", () => {
+      const app = gitRepo("code/app");
+      gitRepo("code/team/lib");
+
+      expect(findGitRepositories(path.join(tmpDir, "code"), 1)).toEqual([app]);
+    });
+  });
+
+  describe("proposeDirectory()", () => {
+    const dirs = ["api-server", "lib", "website", "web-site2"];
+
+    it("should prefer the remote name over the directory name", () => {
+      expect(
+        proposeDirectory("/src/lib", "github.com/acme/api-server", dirs),
+      ).toEqual({ name: "api-server", matchedBy: "remote" });
+      expect(proposeDirectory("/src/lib", null, dirs)).toEqual({
+        name: "lib",
+        matchedBy: "name",
+      });
+    });
+
+    it("should allow for case, separators and small typos", () => {
+      expect(proposeDirectory("/src/API_Server", null, dirs)).toEqual({
+        name: "api-server",
+        matchedBy: "fuzzy",
+      });
+      expect(proposeDirectory("/src/api-sever", null, dirs)).toEqual({
+        name: "api-server",
+        matchedBy: "fuzzy",
+      });
+      // Short names must match exactly
+      expect(proposeDirectory("/src/lob", null, dirs)).toBeNull();
+    });
+
+    it("should report ties instead of guessing", () => {
+      expect(proposeDirectory("/src/website1", null, dirs)).toEqual({
+        ambiguous: ["website", "web-site2"],
+      });
+    });
+  });
+
+  describe("buildRelinkPlan()", () => {
+    it("should link matches and explain every skip", () => {
+      mkdirs("thoughts/repos/app", "thoughts/repos/lib");
+      const app = gitRepo("code/app");
+      const renamed = gitRepo("code/renamed", "git@github.com:acme/lib.git");
+      const unrelated = gitRepo("code/unrelated");
+
+      expect(buildRelinkPlan(config, [app, renamed, unrelated])).toEqual([
+        {
+          repoPath: app,
+          remote: null,
+          name: "app",
+          matchedBy: "name",
+          action: "link",
+        },
+        {
+          repoPath: renamed,
+          remote: "github.com/acme/lib",
+          name: "lib",
+          matchedBy: "remote",
+          action: "link",
+        },
+        {
+          repoPath: unrelated,
+          remote: null,
+          action: "skip",
+          reason: "no matching directory",
+        },
+      ]);
+    });
+
+    it("should skip repositories with their own thoughts directory", () => {
+      mkdirs("thoughts/repos/app");
+      const app = gitRepo("code/app");
+      mkdirs("code/app/thoughts");
+      fs.writeFileSync(path.join(app, "thoughts", "notes.md"), "mine");
+
+      expect(buildRelinkPlan(config, [app])[0]).toMatchObject({
+        action: "skip",
+        reason: "has a thoughts/ directory with its own files",
+      });
+    });
+
+    it("should keep existing mappings and skip intact links", async () => {
+      mkdirs("thoughts/repos/notes-app", "thoughts/global");
+      const app = gitRepo("code/app");
+      config.repoMappings[app] = { repo: "notes-app" };
+
+      expect(buildRelinkPlan(config, [app])[0]).toMatchObject({
+        name: "notes-app",
+        matchedBy: "mapping",
+        action: "link",
+      });
+
+      await linkRepository(config, app, "notes-app");
+      expect(buildRelinkPlan(config, [app])[0]).toMatchObject({
+        action: "skip",
+        reason: "already linked",
+      });
+    });
+  });
+});
@@ -0,0 +1,448 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import chalk from "chalk";
+import {
+  ThoughtsConfig,
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  expandPath,
+  findRepoMapping,
+  getRepoRemoteUrl,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  validateProfile,
+  resolveProfileConfig,
+  matchProfileRules,
+} from "../thoughtsConfig.js";
+import {
+  hasForeignThoughtsDirectory,
+  linkRepository,
+  sanitizeDirectoryName,
+} from "./init.js";
+import { checkHooks, checkSymlinks } from "./doctor.js";
+
+interface RelinkOptions {
+  scan: string;
+  profile?: string;
+  depth?: string;
+  yes?: boolean;
+  configFile?: string;
+}
+
+export type RelinkMatch = "mapping" | "remote" | "name" | "fuzzy";
+
+export interface RelinkPlanEntry {
+  repoPath: string;
+  remote: string | null;
+  name?: string; // Directory under reposDir the repository links to
+  profile?: string;
+  matchedBy?: RelinkMatch;
+  action: "link" | "skip";
+  reason?: string; // Why the repository is skipped
+}
+
+export interface RelinkResult {
+  repoPath: string;
+  error?: string;
+}
+
+export interface RelinkRepositoriesOptions {
+  profile?: string; // Profile for repositories that are not mapped yet
+  depth?: number;
+  yes?: boolean;
+  configFile?: string;
+  command?: string; // Command name recorded in the repository lock
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+function listDirectories(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Finds git repositories below a directory, without descending into them
+ */
+export function findGitRepositories(rootDir: string, maxDepth = 3): string[] {
+  const repos: string[] = [];
+
+  const walk = (dir: string, depth: number) => {
+    // .git is a directory in clones and a file in worktrees
+    if (fs.existsSync(path.join(dir, ".git"))) {
+      repos.push(dir);
+      return;
+    }
+    if (depth >= maxDepth) return;
+
+    for (const name of listDirectories(dir)) {
+      if (name !== "node_modules") {
+        walk(path.join(dir, name), depth + 1);
+      }
+    }
+  };
+
+  walk(rootDir, 0);
+  return repos.sort();
+}
+
+// Compares names regardless of case and separators: My_App matches my-app
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Proposes a directory of the thoughts repository for a code repository:
+ * the name in its origin remote, then its directory name, then the closest
+ * name allowing for case, separators and small typos
+ */
+export function proposeDirectory(
+  repoPath: string,
+  remote: string | null,
+  existingDirs: string[],
+): { name: string; matchedBy: RelinkMatch } | { ambiguous: string[] } | null {
+  const names = [
+    ...(remote ? [[path.basename(remote), "remote"] as const] : []),
+    [path.basename(repoPath), "name"] as const,
+  ];
+
+  for (const [name, matchedBy] of names) {
+    const sanitized = sanitizeDirectoryName(name);
+    if (existingDirs.includes(sanitized)) {
+      return { name: sanitized, matchedBy };
+    }
+  }
+
+  const targets = names.map(([name]) => normalizeName(name));
+  let best = Infinity;
+  let closest: string[] = [];
+  for (const dir of existingDirs) {
+    const normalized = normalizeName(dir);
+    for (const target of targets) {
+      // Longer names tolerate more typos; short ones must match exactly
+      const allowed = target.length < 4 ? 0 : target.length < 8 ? 1 : 2;
+      const distance = editDistance(normalized, target);
+      if (distance > allowed) continue;
+      if (distance < best) {
+        best = distance;
+        closest = [dir];
+      } else if (distance === best && !closest.includes(dir)) {
+        closest.push(dir);
+      }
+    }
+  }
+
+  if (closest.length === 1) return { name: closest[0], matchedBy: "fuzzy" };
+  if (closest.length > 1) return { ambiguous: closest };
+  return null;
+}
+
+/**
+ * Decides for each code repository which thoughts directory it links to.
+ * Mapped repositories keep their mapping and are skipped if their links and
+ * hooks are intact; others are matched against the existing directories of
+ * the given profile, or of the one the profile rules pick.
+ */
+export function buildRelinkPlan(
+  config: ThoughtsConfig,
+  repoPaths: string[],
+  profileName?: string,
+): RelinkPlanEntry[] {
+  const dirsByProfile = new Map<string | undefined, string[]>();
+  const getExistingDirs = (profile?: string) => {
+    if (!dirsByProfile.has(profile)) {
+      const profileConfig = resolveProfileConfig(config, profile);
+      dirsByProfile.set(
+        profile,
+        listDirectories(
+          path.join(
+            expandPath(profileConfig.thoughtsRepo),
+            profileConfig.reposDir,
+          ),
+        ),
+      );
+    }
+    return dirsByProfile.get(profile)!;
+  };
+
+  return repoPaths.map((repoPath): RelinkPlanEntry => {
+    const remote = getRepoRemoteUrl(repoPath);
+    const skip = (reason: string, extra: Partial<RelinkPlanEntry> = {}) => ({
+      repoPath,
+      remote,
+      ...extra,
+      action: "skip" as const,
+      reason,
+    });
+
+    let entry: RelinkPlanEntry;
+    const existing = findRepoMapping(config, repoPath, remote);
+    if (existing) {
+      const name = getRepoNameFromMapping(existing.mapping)!;
+      const profile = getProfileNameFromMapping(existing.mapping);
+      entry = {
+        repoPath,
+        remote,
+        name,
+        profile,
+        matchedBy: "mapping",
+        action: "link",
+      };
+
+      const mappedProfile = resolveProfileConfig(config, profile);
+      const intact =
+        existing.repoPath === repoPath &&
+        checkSymlinks(repoPath, mappedProfile, name, config.user).length ===
+          0 &&
+        checkHooks(repoPath, mappedProfile.hooks).length === 0;
+      if (intact) {
+        return skip("already linked", { name, profile, matchedBy: "mapping" });
+      }
+    } else {
+      const profile =
+        profileName ?? matchProfileRules(config, repoPath, remote)?.profile;
+      if (profile && !validateProfile(config, profile)) {
+        return skip(`profile "${profile}" does not exist`);
+      }
+      const proposal = proposeDirectory(
+        repoPath,
+        remote,
+        getExistingDirs(profile),
+      );
+      if (!proposal) return skip("no matching directory");
+      if ("ambiguous" in proposal) {
+        return skip(`ambiguous: ${proposal.ambiguous.join(", ")}`);
+      }
+      entry = {
+        repoPath,
+        remote,
+        name: proposal.name,
+        profile,
+        matchedBy: proposal.matchedBy,
+        action: "link",
+      };
+    }
+
+    if (hasForeignThoughtsDirectory(repoPath)) {
+      return skip("has a thoughts/ directory with its own files", {
+        name: entry.name,
+      });
+    }
+    return entry;
+  });
+}
+
+export function printRelinkPlan(plan: RelinkPlanEntry[], root: string): void {
+  const rows = plan.map((entry) => [
+    path.relative(root, entry.repoPath) || ".",
+    entry.name
+      ? `${entry.profile ? `${entry.profile}:` : ""}${entry.name}`
+      : "-",
+    entry.matchedBy || "",
+    entry.action === "link" ? "link" : `skip (${entry.reason})`,
+  ]);
+  const headers = ["REPOSITORY", "DIRECTORY", "MATCH", "ACTION"];
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length)),
+  );
+
+  console.log(
+    chalk.gray(
+      headers
+        .map((header, i) => header.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    ),
+  );
+  for (const row of rows) {
+    const cells = row.map((cell, i) => cell.padEnd(widths[i]));
+    const linking = row[3] === "link";
+    console.log(
+      [
+        chalk.cyan(cells[0]),
+        cells[1],
+        chalk.gray(cells[2]),
+        linking ? chalk.green(cells[3]) : chalk.gray(cells[3]),
+      ]
+        .join("  ")
+        .trimEnd(),
+    );
+  }
+}
+
+/**
+ * Records the mapping of every planned repository and links them one by one,
+ * carrying on past failures
+ */
+export async function applyRelinkPlan(
+  config: ThoughtsConfig,
+  plan: RelinkPlanEntry[],
+  options: RelinkRepositoriesOptions = {},
+): Promise<RelinkResult[]> {
+  const entries = plan.filter((entry) => entry.action === "link");
+
+  for (const entry of entries) {
+    config.repoMappings[entry.repoPath] = {
+      repo: entry.name!,
+      ...(entry.profile && { profile: entry.profile }),
+      ...(entry.remote && { remote: entry.remote }),
+    };
+  }
+  if (entries.length > 0) {
+    saveThoughtsConfig(config, options, true);
+  }
+
+  const results: RelinkResult[] = [];
+  for (const entry of entries) {
+    try {
+      await linkRepository(config, entry.repoPath, entry.name!, {
+        command: options.command || "relink",
+      });
+      results.push({ repoPath: entry.repoPath });
+    } catch (error) {
+      results.push({
+        repoPath: entry.repoPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Plans, confirms and applies links for every repository below scanDir.
+ * Returns false if any repository failed to link.
+ */
+export async function relinkRepositories(
+  config: ThoughtsConfig,
+  scanDir: string,
+  options: RelinkRepositoriesOptions = {},
+): Promise<boolean> {
+  const plan = buildRelinkPlan(
+    config,
+    findGitRepositories(scanDir, options.depth),
+    options.profile,
+  );
+  const linkable = plan.filter((entry) => entry.action === "link");
+
+  console.log("");
+  if (plan.length === 0) {
+    console.log(chalk.gray(`No git repositories found in ${scanDir}`));
+    return true;
+  }
+
+  console.log(chalk.blue(`Repositories in ${scanDir}:`));
+  printRelinkPlan(plan, scanDir);
+  console.log("");
+
+  if (linkable.length === 0) {
+    console.log(chalk.gray("Nothing to link."));
+    return true;
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      console.log(chalk.yellow("Run again with --yes to apply this plan."));
+      return true;
+    }
+    const answer = await prompt(
+      `Link ${linkable.length} repositor${linkable.length === 1 ? "y" : "ies"}? (Y/n): `,
+    );
+    if (answer.toLowerCase() === "n") {
+      console.log("Nothing linked.");
+      return true;
+    }
+  }
+
+  const results = await applyRelinkPlan(config, plan, options);
+  for (const result of results) {
+    if (result.error) {
+      console.log(`  ${chalk.red("✗")} ${result.repoPath}: ${result.error}`);
+    } else {
+      console.log(`  ${chalk.green("✓")} ${result.repoPath}`);
+    }
+  }
+
+  const failed = results.filter((result) => result.error).length;
+  console.log("");
+  console.log(
+    `Linked ${results.length - failed} of ${results.length} repositories`,
+  );
+  return failed === 0;
+}
+
+export async function thoughtsRelinkCommand(
+  options: RelinkOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      console.error('Run "thoughts init" or "thoughts clone" first.');
+      process.exit(1);
+    }
+
+    if (options.profile && !validateProfile(config, options.profile)) {
+      console.error(
+        chalk.red(`Error: Profile "${options.profile}" does not exist.`),
+      );
+      process.exit(1);
+    }
+
+    const scanDir = expandPath(options.scan);
+    if (!fs.existsSync(scanDir)) {
+      console.error(chalk.red(`Error: ${scanDir} does not exist`));
+      process.exit(1);
+    }
+
+    const depth = options.depth ? parseInt(options.depth, 10) : undefined;
+    if (depth !== undefined && (isNaN(depth) || depth < 0)) {
+      console.error(chalk.red("Error: --depth must be a non-negative number"));
+      process.exit(1);
+    }
+
+    const ok = await relinkRepositories(config, scanDir, {
+      profile: options.profile,
+      depth,
+      yes: options.yes,
+      configFile: options.configFile,
+    });
+    if (!ok) process.exit(1);
+  } catch (error) {
+    console.error(chalk.red(`Error during thoughts relink: ${error}`));
+    process.exit(1);
+  }
+}
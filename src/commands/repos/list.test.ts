@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { reposListCommand } from "./list.js";
+import { CONFIG_VERSION } from "../../configSchema.js";
+import { recordSync } from "../../syncState.js";
+
+describe("repos list", () => {
+  let tmpDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-repos-test-"));
+    vi.stubEnv("XDG_STATE_HOME", path.join(tmpDir, "state"));
+    configFile = path.join(tmpDir, "humanlayer.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should print every mapping as JSON with --json", async () => {
+    const thoughtsRepo = path.join(tmpDir, "thoughts");
+    const workRepo = path.join(tmpDir, "work");
+    const app = path.join(tmpDir, "code", "app");
+    fs.mkdirSync(app, { recursive: true });
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo,
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: {
+            [path.join(tmpDir, "code", "gone")]: {
+              repo: "gone",
+              profile: "work",
+            },
+            [app]: { repo: "app", remote: "github.com/org/app" },
+          },
+          profiles: {
+            work: { thoughtsRepo: workRepo, reposDir: "repos", globalDir: "g" },
+          },
+        },
+      }),
+    );
+    recordSync(thoughtsRepo, new Date("2026-03-01T10:00:00.000Z"));
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await reposListCommand({ json: true, configFile });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual([
+      {
+        path: app,
+        exists: true,
+        directory: "app",
+        profile: null,
+        remote: "github.com/org/app",
+        thoughtsRepo,
+        lastSync: "2026-03-01T10:00:00.000Z",
+      },
+      {
+        path: path.join(tmpDir, "code", "gone"),
+        exists: false,
+        directory: "gone",
+        profile: "work",
+        remote: null,
+        thoughtsRepo: workRepo,
+        lastSync: null,
+      },
+    ]);
+  });
+});
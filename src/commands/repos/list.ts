@@ -0,0 +1,130 @@
+import fs from "fs";
+import chalk from "chalk";
+import {
+  ThoughtsConfig,
+  loadThoughtsConfig,
+  expandPath,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  resolveProfileForRepo,
+} from "../../thoughtsConfig.js";
+import { formatTimeAgo, readSyncState } from "../../syncState.js";
+
+interface ListOptions {
+  json?: boolean;
+  configFile?: string;
+}
+
+export interface RepoMappingInfo {
+  path: string;
+  exists: boolean;
+  directory: string;
+  profile: string | null; // Null for the default thoughts repository
+  remote: string | null;
+  thoughtsRepo: string;
+  lastSync: string | null; // Last sync of the thoughts repository
+}
+
+/**
+ * Describes every mapped repository, sorted by path
+ */
+export function describeRepoMappings(
+  config: ThoughtsConfig,
+): RepoMappingInfo[] {
+  const state = readSyncState();
+
+  return Object.entries(config.repoMappings)
+    .map(([repoPath, mapping]) => {
+      const profileConfig = resolveProfileForRepo(config, repoPath);
+      const thoughtsRepo = expandPath(profileConfig.thoughtsRepo);
+      return {
+        path: repoPath,
+        exists: fs.existsSync(repoPath),
+        directory: getRepoNameFromMapping(mapping) || "",
+        profile: getProfileNameFromMapping(mapping) || null,
+        remote: (typeof mapping === "object" && mapping.remote) || null,
+        thoughtsRepo,
+        lastSync: state.repos[thoughtsRepo]?.lastSync || null,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function printTable(repos: RepoMappingInfo[]): void {
+  const columns: Array<{
+    header: string;
+    value: (repo: RepoMappingInfo) => string;
+  }> = [
+    { header: "PATH", value: (repo) => repo.path },
+    { header: "STATUS", value: (repo) => (repo.exists ? "ok" : "missing") },
+    { header: "PROFILE", value: (repo) => repo.profile || "(default)" },
+    { header: "DIRECTORY", value: (repo) => repo.directory },
+    {
+      header: "LAST SYNC",
+      value: (repo) => (repo.lastSync ? formatTimeAgo(repo.lastSync) : "never"),
+    },
+  ];
+
+  const widths = columns.map((column) =>
+    Math.max(
+      column.header.length,
+      ...repos.map((repo) => column.value(repo).length),
+    ),
+  );
+
+  console.log(
+    chalk.gray(
+      columns
+        .map((column, i) => column.header.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    ),
+  );
+  for (const repo of repos) {
+    const cells = columns.map((column, i) =>
+      column.value(repo).padEnd(widths[i]),
+    );
+    cells[0] = chalk.cyan(cells[0]);
+    cells[1] = repo.exists ? chalk.green(cells[1]) : chalk.red(cells[1]);
+    console.log(cells.join("  ").trimEnd());
+  }
+}
+
+export async function reposListCommand(options: ListOptions): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    const repos = describeRepoMappings(config);
+
+    if (options.json) {
+      console.log(JSON.stringify(repos, null, 2));
+      return;
+    }
+
+    if (repos.length === 0) {
+      console.log(chalk.gray("No repositories mapped."));
+      console.log(chalk.gray('Run "thoughts init" in a repository to map it.'));
+      return;
+    }
+
+    printTable(repos);
+
+    const missing = repos.filter((repo) => !repo.exists).length;
+    if (missing > 0) {
+      console.log("");
+      console.log(
+        chalk.yellow(
+          `${missing} mapped path(s) no longer exist. Use "thoughts repos move" for checkouts that moved, or "thoughts repos prune" to forget them.`,
+        ),
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error listing repositories: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import { reposMoveCommand } from "./move.js";
+import { CONFIG_VERSION } from "../../configSchema.js";
+
+describe("repos move", () => {
+  let tmpDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-repos-test-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    configFile = path.join(tmpDir, "humanlayer.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should move the mapping to the new path and relink it", async () => {
+    const thoughtsRepo = path.join(tmpDir, "thoughts");
+    fs.mkdirSync(path.join(thoughtsRepo, "repos", "app"), { recursive: true });
+    fs.mkdirSync(path.join(thoughtsRepo, "global"));
+    const oldPath = path.join(tmpDir, "code", "app");
+    const newPath = path.join(tmpDir, "src", "app");
+    fs.mkdirSync(newPath, { recursive: true });
+    execSync("git init -q", { cwd: newPath, stdio: "pipe" });
+    const other = path.join(tmpDir, "code", "cli");
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo,
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: {
+            [oldPath]: { repo: "app", remote: "github.com/org/app" },
+            [other]: "cli",
+          },
+        },
+      }),
+    );
+
+    await reposMoveCommand(oldPath, newPath, { configFile });
+
+    expect(
+      JSON.parse(fs.readFileSync(configFile, "utf8")).thoughts.repoMappings,
+    ).toEqual({
+      [other]: "cli",
+      [newPath]: { repo: "app", remote: "github.com/org/app" },
+    });
+    expect(fs.readlinkSync(path.join(newPath, "thoughts", "alice"))).toBe(
+      path.join(thoughtsRepo, "repos", "app", "alice"),
+    );
+  });
+
+  it("should leave a thoughts/ directory with files of its own alone", async () => {
+    const thoughtsRepo = path.join(tmpDir, "thoughts");
+    fs.mkdirSync(path.join(thoughtsRepo, "repos", "app"), { recursive: true });
+    fs.mkdirSync(path.join(thoughtsRepo, "global"));
+    const oldPath = path.join(tmpDir, "code", "app");
+    const newPath = path.join(tmpDir, "src", "app");
+    fs.mkdirSync(path.join(newPath, "thoughts"), { recursive: true });
+    fs.writeFileSync(path.join(newPath, "thoughts", "draft.md"), "mine");
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo,
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: { [oldPath]: "app" },
+        },
+      }),
+    );
+
+    await reposMoveCommand(oldPath, newPath, { configFile });
+
+    expect(
+      JSON.parse(fs.readFileSync(configFile, "utf8")).thoughts.repoMappings,
+    ).toEqual({ [newPath]: "app" });
+    expect(fs.readdirSync(path.join(newPath, "thoughts"))).toEqual([
+      "draft.md",
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  expandPath,
+  getRepoNameFromMapping,
+  resolveProfileForRepo,
+} from "../../thoughtsConfig.js";
+import { checkHooks, checkSymlinks } from "../doctor.js";
+import { hasForeignThoughtsDirectory, linkRepository } from "../init.js";
+
+interface MoveOptions {
+  configFile?: string;
+}
+
+export async function reposMoveCommand(
+  oldPath: string,
+  newPath: string,
+  options: MoveOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    const from = path.resolve(expandPath(oldPath));
+    const to = path.resolve(expandPath(newPath));
+    const mapping = config.repoMappings[from];
+
+    if (!mapping) {
+      console.error(chalk.red(`Error: ${from} is not mapped.`));
+      console.error('Run "thoughts repos list" to see mapped repositories.');
+      process.exit(1);
+    }
+    if (config.repoMappings[to]) {
+      console.error(chalk.red(`Error: ${to} is already mapped.`));
+      process.exit(1);
+    }
+    if (!fs.existsSync(to)) {
+      console.error(chalk.red(`Error: ${to} does not exist.`));
+      console.error("Move the checkout first, then update its mapping.");
+      process.exit(1);
+    }
+
+    delete config.repoMappings[from];
+    config.repoMappings[to] = mapping;
+    saveThoughtsConfig(config, options, true);
+    console.log(chalk.green(`✓ Moved mapping ${from} → ${to}`));
+
+    // A fresh checkout at the new path has no links or hooks yet
+    const name = getRepoNameFromMapping(mapping)!;
+    const profileConfig = resolveProfileForRepo(config, to);
+    if (
+      checkSymlinks(to, profileConfig, name, config.user).length > 0 ||
+      checkHooks(to, profileConfig.hooks).length > 0
+    ) {
+      if (hasForeignThoughtsDirectory(to)) {
+        console.log(
+          chalk.yellow(
+            `${path.join(to, "thoughts")} has files of its own, so its links were not recreated.`,
+          ),
+        );
+        console.log(
+          'Move those files out of the way, then run "thoughts doctor --fix" there.',
+        );
+        return;
+      }
+      await linkRepository(config, to, name, { command: "repos move" });
+      console.log(chalk.green("✓ Recreated thoughts links and hooks"));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error moving repository mapping: ${error}`));
+    process.exit(1);
+  }
+}
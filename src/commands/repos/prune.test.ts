@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { reposPruneCommand } from "./prune.js";
+import { CONFIG_VERSION } from "../../configSchema.js";
+
+describe("repos prune", () => {
+  let tmpDir: string;
+  let configFile: string;
+  let app: string;
+
+  const readMappings = () =>
+    JSON.parse(fs.readFileSync(configFile, "utf8")).thoughts.repoMappings;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-repos-test-"));
+    configFile = path.join(tmpDir, "humanlayer.json");
+    app = path.join(tmpDir, "code", "app");
+    fs.mkdirSync(app, { recursive: true });
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo: path.join(tmpDir, "thoughts"),
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: {
+            [app]: "app",
+            [path.join(tmpDir, "code", "gone")]: "gone",
+            [path.join(tmpDir, "code", "old")]: {
+              repo: "old",
+              remote: "github.com/org/old",
+            },
+          },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const output = (log: { mock: { calls: unknown[][] } }) =>
+    log.mock.calls.map((call) => String(call[0])).join("\n");
+
+  it("should only list the missing checkouts with --dry-run", async () => {
+    const before = fs.readFileSync(configFile, "utf8");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await reposPruneCommand({ dryRun: true, configFile });
+
+    expect(fs.readFileSync(configFile, "utf8")).toBe(before);
+    expect(output(log)).toContain("Would remove 2 mapping(s)");
+    expect(output(log)).toContain(path.join(tmpDir, "code", "gone"));
+    expect(output(log)).toContain(path.join(tmpDir, "code", "old"));
+  });
+
+  it("should remove the mappings of missing checkouts", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await reposPruneCommand({ configFile });
+
+    expect(readMappings()).toEqual({ [app]: "app" });
+    expect(output(log)).toContain("Removed 2 mapping(s)");
+
+    await reposPruneCommand({ configFile });
+    expect(output(log)).toContain("All mapped repositories exist.");
+  });
+});
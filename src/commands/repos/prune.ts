@@ -0,0 +1,51 @@
+import fs from "fs";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+} from "../../thoughtsConfig.js";
+
+interface PruneOptions {
+  dryRun?: boolean;
+  configFile?: string;
+}
+
+export async function reposPruneCommand(options: PruneOptions): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    const missing = Object.keys(config.repoMappings)
+      .filter((repoPath) => !fs.existsSync(repoPath))
+      .sort();
+
+    if (missing.length === 0) {
+      console.log(chalk.gray("All mapped repositories exist."));
+      return;
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.yellow(`Would remove ${missing.length} mapping(s):`));
+      missing.forEach((repoPath) => console.log(`  ${chalk.cyan(repoPath)}`));
+      return;
+    }
+
+    for (const repoPath of missing) {
+      delete config.repoMappings[repoPath];
+    }
+    saveThoughtsConfig(config, options, true);
+
+    console.log(chalk.green(`✓ Removed ${missing.length} mapping(s):`));
+    missing.forEach((repoPath) => console.log(`  ${chalk.cyan(repoPath)}`));
+    console.log(
+      chalk.gray("Their notes are still in the thoughts repository."),
+    );
+  } catch (error) {
+    console.error(chalk.red(`Error pruning repositories: ${error}`));
+    process.exit(1);
+  }
+}
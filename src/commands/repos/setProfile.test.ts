@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import { reposSetProfileCommand } from "./setProfile.js";
+import { CONFIG_VERSION } from "../../configSchema.js";
+
+describe("repos set-profile", () => {
+  let tmpDir: string;
+  let configFile: string;
+
+  const readMappings = () =>
+    JSON.parse(fs.readFileSync(configFile, "utf8")).thoughts.repoMappings;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-repos-test-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    configFile = path.join(tmpDir, "humanlayer.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should point the mapping and its links at the profile", async () => {
+    for (const repo of ["thoughts", "work"]) {
+      fs.mkdirSync(path.join(tmpDir, repo, "repos"), { recursive: true });
+      fs.mkdirSync(path.join(tmpDir, repo, "global"));
+    }
+    const app = path.join(tmpDir, "code", "app");
+    fs.mkdirSync(app, { recursive: true });
+    execSync("git init -q", { cwd: app, stdio: "pipe" });
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo: path.join(tmpDir, "thoughts"),
+          reposDir: "repos",
+          globalDir: "global",
+          user: "alice",
+          repoMappings: { [app]: "app" },
+          profiles: {
+            work: {
+              thoughtsRepo: path.join(tmpDir, "work"),
+              reposDir: "repos",
+              globalDir: "global",
+            },
+          },
+        },
+      }),
+    );
+
+    await reposSetProfileCommand(app, "work", { configFile });
+
+    expect(readMappings()).toEqual({ [app]: { repo: "app", profile: "work" } });
+    expect(fs.readlinkSync(path.join(app, "thoughts", "alice"))).toBe(
+      path.join(tmpDir, "work", "repos", "app", "alice"),
+    );
+
+    // Back to the default thoughts repository
+    await reposSetProfileCommand(app, undefined, { configFile });
+
+    expect(readMappings()).toEqual({ [app]: { repo: "app" } });
+    expect(fs.readlinkSync(path.join(app, "thoughts", "alice"))).toBe(
+      path.join(tmpDir, "thoughts", "repos", "app", "alice"),
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  loadThoughtsConfig,
+  saveThoughtsConfig,
+  expandPath,
+  getRepoNameFromMapping,
+  getProfileNameFromMapping,
+  getRepoThoughtsPath,
+  resolveProfileForRepo,
+  validateProfile,
+} from "../../thoughtsConfig.js";
+import { assertThoughtsDirectoryReplaceable, linkRepository } from "../init.js";
+
+interface SetProfileOptions {
+  configFile?: string;
+}
+
+/**
+ * Moves a repository to another profile (or back to the default thoughts
+ * repository when no profile is given) and re-points its symlinks
+ */
+export async function reposSetProfileCommand(
+  repoPathArg: string,
+  profileName: string | undefined,
+  options: SetProfileOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(chalk.red("Error: Thoughts not configured."));
+      process.exit(1);
+    }
+
+    const repoPath = path.resolve(expandPath(repoPathArg));
+    const mapping = config.repoMappings[repoPath];
+
+    if (!mapping) {
+      console.error(chalk.red(`Error: ${repoPath} is not mapped.`));
+      console.error('Run "thoughts repos list" to see mapped repositories.');
+      process.exit(1);
+    }
+    if (!fs.existsSync(repoPath)) {
+      console.error(chalk.red(`Error: ${repoPath} does not exist.`));
+      process.exit(1);
+    }
+    if (profileName && !validateProfile(config, profileName)) {
+      console.error(
+        chalk.red(`Error: Profile "${profileName}" does not exist.`),
+      );
+      process.exit(1);
+    }
+
+    const current = getProfileNameFromMapping(mapping);
+    const target = profileName || "the default repository";
+    if (current === profileName) {
+      console.log(chalk.gray(`${repoPath} already uses ${target}`));
+      return;
+    }
+
+    // Checked before the mapping changes, so a refusal leaves nothing behind
+    assertThoughtsDirectoryReplaceable(repoPath);
+
+    const name = getRepoNameFromMapping(mapping)!;
+    const oldRepoThoughts = getRepoThoughtsPath(
+      resolveProfileForRepo(config, repoPath),
+      name,
+    );
+
+    const updated =
+      typeof mapping === "string" ? { repo: mapping } : { ...mapping };
+    if (profileName) {
+      updated.profile = profileName;
+    } else {
+      delete updated.profile;
+    }
+    config.repoMappings[repoPath] = updated;
+    saveThoughtsConfig(config, options, true);
+
+    await linkRepository(config, repoPath, name, {
+      command: "repos set-profile",
+    });
+
+    const newRepoThoughts = getRepoThoughtsPath(
+      resolveProfileForRepo(config, repoPath),
+      name,
+    );
+    console.log(chalk.green(`✓ ${repoPath} now uses ${target}`));
+    console.log(`  Thoughts: ${chalk.cyan(newRepoThoughts)}`);
+    if (fs.existsSync(oldRepoThoughts)) {
+      console.log(chalk.gray(`  Existing notes stay in ${oldRepoThoughts}`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error setting repository profile: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { loadThoughtsConfig, getCurrentRepoPath } from "../thoughtsConfig.js";
+import {
+  createEmptyIndex,
+  findSnippet,
+  getSearchIndexPath,
+  loadSearchIndex,
+  matchesScopes,
+  parseSearchQuery,
+  saveSearchIndex,
+  searchIndex,
+  updateSearchIndex,
+  type SearchScope,
+} from "../searchIndex.js";
+
+interface SearchOptions {
+  mine?: boolean;
+  shared?: boolean;
+  global?: boolean;
+  user?: string[];
+  limit?: string;
+  json?: boolean;
+  rebuild?: boolean;
+  configFile?: string;
+}
+
+export async function thoughtsSearchCommand(
+  queryParts: string[],
+  options: SearchOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    const currentRepo = getCurrentRepoPath();
+    const thoughtsDir = path.join(currentRepo, "thoughts");
+
+    if (!fs.existsSync(thoughtsDir)) {
+      console.error(
+        chalk.red("Error: Thoughts not initialized for this repository."),
+      );
+      console.error('Run "thoughts init" to set up thoughts.');
+      process.exit(1);
+    }
+
+    const query = parseSearchQuery(queryParts.join(" "));
+    if (
+      query.terms.length === 0 &&
+      query.prefixes.length === 0 &&
+      query.phrases.length === 0
+    ) {
+      console.error(chalk.red("Error: Search query is empty."));
+      process.exit(1);
+    }
+
+    const limit = options.limit ? parseInt(options.limit) : 20;
+    if (isNaN(limit) || limit < 1) {
+      console.error(chalk.red(`Error: Invalid limit "${options.limit}".`));
+      process.exit(1);
+    }
+
+    // Bring the on-disk index up to date before querying
+    const indexPath = getSearchIndexPath(thoughtsDir);
+    const index = options.rebuild
+      ? createEmptyIndex()
+      : loadSearchIndex(indexPath);
+    const stats = updateSearchIndex(index, thoughtsDir);
+    if (stats.added + stats.updated + stats.removed > 0) {
+      saveSearchIndex(indexPath, index);
+    }
+
+    const scopes: SearchScope[] = [];
+    if (options.mine) scopes.push("mine");
+    if (options.shared) scopes.push("shared");
+    if (options.global) scopes.push("global");
+    (options.user || []).forEach((user) => scopes.push({ user }));
+
+    const results = searchIndex(index, query, (relPath) =>
+      matchesScopes(relPath, scopes, config.user),
+    )
+      .slice(0, limit)
+      .map((result) => {
+        const snippet = findSnippet(path.join(thoughtsDir, result.path), query);
+        return {
+          ...result,
+          path: path.join("thoughts", result.path),
+          line: snippet?.line,
+          snippet: snippet?.text,
+        };
+      });
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    if (results.length === 0) {
+      console.log(chalk.gray("No matches found"));
+      return;
+    }
+
+    for (const result of results) {
+      const location = result.line
+        ? `${result.path}:${result.line}`
+        : result.path;
+      console.log(
+        `${chalk.cyan(location)} ${chalk.gray(`(${result.score.toFixed(2)})`)}`,
+      );
+      if (result.snippet) {
+        console.log(`  ${result.snippet}`);
+      }
+    }
+  } catch (error) {
+    console.error(chalk.red(`Error searching thoughts: ${error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  FAST_TIMEOUT_MS,
+  getStatus,
+  getThoughtsRepoStatus,
+  parsePorcelainStatus,
+} from "./status.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("status.ts", () => {
+  let tmpDir: string;
+
+  const run = (cwd: string, command: string) =>
+    execSync(command, { cwd, encoding: "utf8", stdio: "pipe" });
+
+  const profile = (thoughtsRepo: string) => ({
+    thoughtsRepo,
+    reposDir: "repos",
+    globalDir: "global",
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-status-test-"));
+    vi.stubEnv("XDG_STATE_HOME", path.join(tmpDir, "state"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  describe("parsePorcelainStatus()", () => {
+    it("should describe each change with its git status code", () => {
+      expect(
+        parsePorcelainStatus(
+          [
+            " M a.md",
+            "A  b.md",
+            " D c.md",
+            "?? d.md",
+            "R  old.md -> new.md",
+          ].join("\n"),
+        ),
+      ).toEqual([
+        { code: " M", kind: "modified", path: "a.md" },
+        { code: "A ", kind: "added", path: "b.md" },
+        { code: " D", kind: "deleted", path: "c.md" },
+        { code: "??", kind: "untracked", path: "d.md" },
+        { code: "R ", kind: "renamed", path: "new.md" },
+      ]);
+    });
+  });
+
+  describe("getThoughtsRepoStatus()", () => {
+    it("should report a missing repository as an error", () => {
+      const errors: string[] = [];
+      const status = getThoughtsRepoStatus(
+        profile(path.join(tmpDir, "missing")),
+        errors,
+      );
+
+      expect(status.exists).toBe(false);
+      expect(errors).toEqual([
+        `Thoughts repository not found at ${path.join(tmpDir, "missing")}`,
+      ]);
+    });
+
+    it("should count commits ahead and list uncommitted changes", () => {
+      const remote = path.join(tmpDir, "remote.git");
+      const repo = path.join(tmpDir, "thoughts");
+      run(tmpDir, `git init -q --bare ${remote}`);
+      run(tmpDir, `git clone -q ${remote} ${repo}`);
+      run(repo, "git config user.email t@t && git config user.name t");
+      run(repo, "git commit -q --allow-empty -m first");
+      run(repo, "git push -q -u origin HEAD");
+      fs.writeFileSync(path.join(repo, "a.md"), "a");
+      run(repo, "git add a.md && git commit -qm second");
+      fs.writeFileSync(path.join(repo, "a.md"), "changed");
+      fs.writeFileSync(path.join(repo, "note.md"), "note");
+
+      const errors: string[] = [];
+      const status = getThoughtsRepoStatus(profile(repo), errors);
+
+      expect(errors).toEqual([]);
+      expect(status).toMatchObject({
+        exists: true,
+        remote: remote,
+        ahead: 1,
+        behind: 0,
+        pulled: false,
+        lastSync: null,
+        changes: [
+          { code: " M", kind: "modified", path: "a.md" },
+          { code: "??", kind: "untracked", path: "note.md" },
+        ],
+      });
+      expect(status.upstream).toMatch(/^origin\//);
+      expect(status.lastCommit?.subject).toBe("second");
+    });
+
+    it("should only fetch or pull when asked to", () => {
+      const remote = path.join(tmpDir, "remote.git");
+      const repo = path.join(tmpDir, "thoughts");
+      const other = path.join(tmpDir, "other");
+      run(tmpDir, `git init -q --bare ${remote}`);
+      run(tmpDir, `git clone -q ${remote} ${repo}`);
+      run(repo, "git config user.email t@t && git config user.name t");
+      run(repo, "git commit -q --allow-empty -m first");
+      run(repo, "git push -q -u origin HEAD");
+      run(tmpDir, `git clone -q ${remote} ${other}`);
+      run(other, "git config user.email t@t && git config user.name t");
+      run(other, "git commit -q --allow-empty -m remote && git push -q");
+
+      const cached = getThoughtsRepoStatus(profile(repo));
+      expect(cached).toMatchObject({
+        behind: 0,
+        fetched: false,
+        lastFetch: null,
+      });
+
+      const fetched = getThoughtsRepoStatus(profile(repo), [], {
+        fetch: true,
+      });
+      expect(fetched).toMatchObject({
+        behind: 1,
+        fetched: true,
+        pulled: false,
+      });
+      expect(fetched.lastFetch).not.toBeNull();
+      // Later reads keep the fetched state without contacting the remote
+      expect(getThoughtsRepoStatus(profile(repo))).toMatchObject({
+        behind: 1,
+        fetched: false,
+        lastFetch: fetched.lastFetch,
+      });
+
+      const pulled = getThoughtsRepoStatus(profile(repo), [], { pull: true });
+      expect(pulled).toMatchObject({ behind: 0, pulled: true });
+      expect(pulled.lastCommit?.subject).toBe("remote");
+    });
+
+    it("should skip the remote and upstream with fast", () => {
+      const repo = path.join(tmpDir, "thoughts");
+      run(tmpDir, `git init -q ${repo}`);
+      run(repo, "git remote add origin /nonexistent/remote.git");
+      fs.writeFileSync(path.join(repo, "note.md"), "note");
+
+      const errors: string[] = [];
+      const status = getThoughtsRepoStatus(profile(repo), errors, {
+        fast: true,
+      });
+
+      expect(errors).toEqual([]);
+      expect(status).toMatchObject({
+        remoteChecked: false,
+        remote: null,
+        upstream: null,
+        ahead: null,
+        changes: [{ code: "??", kind: "untracked", path: "note.md" }],
+      });
+      expect(status.branch).not.toBeNull();
+    });
+
+    it("should report what git could not read in time as unknown", () => {
+      const repo = path.join(tmpDir, "thoughts");
+      run(tmpDir, `git init -q ${repo}`);
+      // A slow filesystem monitor holds up "git status", as a slow
+      // network filesystem would
+      run(
+        repo,
+        `git config core.fsmonitor 'sleep ${(FAST_TIMEOUT_MS / 1000) * 2} >/dev/null 2>&1; exit 1'`,
+      );
+      fs.writeFileSync(path.join(repo, "note.md"), "note");
+
+      const errors: string[] = [];
+      const status = getThoughtsRepoStatus(profile(repo), errors, {
+        fast: true,
+      });
+
+      expect(status).toMatchObject({ timedOut: true, changes: null });
+      expect(status.branch).not.toBeNull();
+      expect(errors).toEqual([
+        `git took longer than ${FAST_TIMEOUT_MS}ms, so some details are unknown`,
+      ]);
+    });
+  });
+
+  describe("getStatus()", () => {
+    it("should find another checkout's mapping without saving the config", () => {
+      const configHome = path.join(tmpDir, "config");
+      vi.stubEnv("XDG_CONFIG_HOME", configHome);
+      const code = path.join(tmpDir, "code");
+      run(tmpDir, `git init -q ${code}`);
+      run(code, "git remote add origin git@github.com:org/code.git");
+      const config: ThoughtsConfig = {
+        thoughtsRepo: path.join(tmpDir, "thoughts"),
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {
+          [path.join(tmpDir, "old-checkout")]: {
+            repo: "code",
+            remote: "github.com/org/code",
+          },
+        },
+      };
+
+      const status = getStatus(config, code);
+      expect(status.repository).toMatchObject({
+        mapped: true,
+        directory: "code",
+      });
+      expect(Object.keys(config.repoMappings)).toEqual([
+        path.join(tmpDir, "old-checkout"),
+      ]);
+      expect(fs.existsSync(configHome)).toBe(false);
+
+      // Fast never asks git for the remote, so only paths match
+      expect(getStatus(config, code, { fast: true }).repository.mapped).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -1,130 +1,505 @@
 import fs from "fs";
 import path from "path";
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
 import chalk from "chalk";
 import {
+  ThoughtsConfig,
+  ResolvedProfileConfig,
+  ProfileRuleConflict,
   loadThoughtsConfig,
   getCurrentRepoPath,
   expandPath,
   getRepoNameFromMapping,
   getProfileNameFromMapping,
   resolveProfileForRepo,
+  findRepoMapping,
+  getRepoRemoteUrl,
+  findProfileRuleConflict,
+  describeProfileRule,
 } from "../thoughtsConfig.js";
+import {
+  formatTimeAgo,
+  getThoughtsRepoState,
+  recordFetch,
+  updateThoughtsRepoState,
+} from "../syncState.js";
+import { isRebaseInProgress } from "../conflicts.js";
+
+export type FileChangeKind =
+  | "modified"
+  | "added"
+  | "deleted"
+  | "renamed"
+  | "untracked"
+  | "other";
+
+export interface FileChange {
+  code: string; // Two-letter code from git status --porcelain
+  kind: FileChangeKind;
+  path: string;
+}
+
+export interface CommitInfo {
+  hash: string;
+  subject: string;
+  date: string; // ISO commit time
+}
+
+export interface ThoughtsRepoStatus {
+  path: string; // As configured
+  profile: string | null; // Null for the default thoughts repository
+  reposDir: string;
+  globalDir: string;
+  exists: boolean;
+  branch: string | null; // Null when HEAD is detached
+  upstream: string | null;
+  remoteChecked: boolean; // False with --fast: remote and upstream not read
+  remote: string | null; // URL of origin
+  ahead: number | null; // Null without an upstream
+  behind: number | null;
+  fetched: boolean; // Whether status fetched, so ahead/behind are current
+  pulled: boolean; // Whether status pulled because the repo was behind
+  lastCommit: CommitInfo | null;
+  lastSync: string | null;
+  lastFetch: string | null; // Ahead/behind are as of this time unless fetched
+  timedOut: boolean; // With --fast: git ran out of time, so some fields are unknown
+  changes: FileChange[] | null; // Null when unknown
+}
+
+export interface CurrentRepoStatus {
+  path: string;
+  mapped: boolean;
+  directory: string | null;
+  profile: string | null; // Null for the default thoughts repository
+  initialized: boolean; // Whether thoughts/ exists in the checkout
+  profileRuleConflict: ProfileRuleConflict | null;
+}
+
+export interface StatusResult {
+  config: {
+    thoughtsRepo: string;
+    reposDir: string;
+    globalDir: string;
+    user: string;
+    mappedRepos: number;
+  };
+  repository: CurrentRepoStatus;
+  thoughtsRepo: ThoughtsRepoStatus;
+  errors: string[];
+}
+
+interface StatusOptions {
+  json?: boolean;
+  fetch?: boolean; // Fetch from the remote first
+  pull?: boolean; // Fetch, and pull if behind
+  fast?: boolean; // Skip the remote and upstream entirely
+  configFile?: string;
+}
+
+// Keeps "status --fetch" from hanging on an unreachable remote
+const FETCH_TIMEOUT_MS = 30000;
+
+// Keeps "status --fast" within a shell prompt's budget, e.g. when the
+// thoughts repository is on a slow network filesystem
+export const FAST_TIMEOUT_MS = 1000;
+
+function git(
+  repoPath: string,
+  args: string[],
+  timeout?: number,
+  trim = true,
+): string {
+  const output = execFileSync("git", args, {
+    cwd: repoPath,
+    encoding: "utf8",
+    stdio: "pipe",
+    timeout,
+  });
+  return trim ? output.trim() : output;
+}
 
-function getGitStatus(repoPath: string): string {
+function tryGit(repoPath: string, args: string[]): string | null {
   try {
-    return execSync("git status -sb", {
-      cwd: repoPath,
-      encoding: "utf8",
-      stdio: "pipe",
-    }).trim();
+    return git(repoPath, args);
   } catch {
-    return "Not a git repository";
+    return null;
   }
 }
 
-function getUncommittedChanges(repoPath: string): string[] {
-  try {
-    const output = execSync("git status --porcelain", {
-      cwd: repoPath,
-      encoding: "utf8",
-      stdio: "pipe",
+function isTimeout(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ETIMEDOUT";
+}
+
+/**
+ * Parses the output of git status --porcelain
+ */
+export function parsePorcelainStatus(output: string): FileChange[] {
+  return output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const code = line.substring(0, 2);
+      const file = line.substring(3);
+      let kind: FileChangeKind = "other";
+
+      if (code[0] === "M" || code[1] === "M") kind = "modified";
+      else if (code[0] === "A") kind = "added";
+      else if (code[0] === "D" || code[1] === "D") kind = "deleted";
+      else if (code[0] === "?") kind = "untracked";
+      else if (code[0] === "R") kind = "renamed";
+
+      // Renames are listed as "old -> new"
+      const renamed = kind === "renamed" ? file.split(" -> ").pop() : file;
+      return { code, kind, path: renamed || file };
     });
+}
 
-    return output
-      .split("\n")
-      .filter((line) => line.trim())
-      .map((line) => {
-        const status = line.substring(0, 2);
-        const file = line.substring(3);
-        let statusText = "";
-
-        if (status[0] === "M" || status[1] === "M") statusText = "modified";
-        else if (status[0] === "A") statusText = "added";
-        else if (status[0] === "D") statusText = "deleted";
-        else if (status[0] === "?") statusText = "untracked";
-        else if (status[0] === "R") statusText = "renamed";
-
-        return `  ${chalk.yellow(statusText.padEnd(10))} ${file}`;
-      });
-  } catch {
-    return [];
-  }
+function getTracking(
+  repoPath: string,
+): Pick<ThoughtsRepoStatus, "branch" | "upstream" | "ahead" | "behind"> {
+  const branch = tryGit(repoPath, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  const upstream = tryGit(repoPath, [
+    "rev-parse",
+    "--abbrev-ref",
+    "--symbolic-full-name",
+    "@{upstream}",
+  ]);
+  const counts = upstream
+    ? tryGit(repoPath, [
+        "rev-list",
+        "--left-right",
+        "--count",
+        "HEAD...@{upstream}",
+      ])
+    : null;
+  const [ahead, behind] = counts
+    ? counts.split(/\s+/).map((count) => parseInt(count, 10))
+    : [null, null];
+
+  return {
+    branch: branch && branch !== "HEAD" ? branch : null,
+    upstream,
+    ahead,
+    behind,
+  };
 }
 
-function getLastCommit(repoPath: string): string {
+/**
+ * Returns the last commit, or null if there is none. Throws if git runs out
+ * of time.
+ */
+function getLastCommit(repoPath: string, timeout?: number): CommitInfo | null {
+  let output: string;
   try {
-    return execSync('git log -1 --pretty=format:"%h %s (%cr)"', {
-      cwd: repoPath,
-      encoding: "utf8",
-      stdio: "pipe",
-    }).trim();
-  } catch {
-    return "No commits yet";
+    output = git(repoPath, ["log", "-1", "--format=%H%n%cI%n%s"], timeout);
+  } catch (error) {
+    if (isTimeout(error)) throw error;
+    return null;
   }
+  if (!output) return null;
+  const [hash, date, ...subject] = output.split("\n");
+  return { hash, date, subject: subject.join("\n") };
 }
 
-function getRemoteStatus(repoPath: string): string {
-  try {
-    execSync("git remote get-url origin", { cwd: repoPath, stdio: "pipe" });
+/**
+ * Describes a thoughts repository: its branch and how it compares with its
+ * upstream, last commit, last sync and uncommitted changes. Only reads the
+ * repository unless asked to fetch or pull, so ahead/behind reflect the last
+ * fetch. With fast, no git command touches the remote or upstream at all,
+ * and each local one is given FAST_TIMEOUT_MS; what a slower one would have
+ * read is reported as unknown.
+ */
+export function getThoughtsRepoStatus(
+  profileConfig: ResolvedProfileConfig,
+  errors: string[] = [],
+  options: StatusOptions = {},
+): ThoughtsRepoStatus {
+  const thoughtsRepo = profileConfig.thoughtsRepo;
+  const repoPath = expandPath(thoughtsRepo);
+  const status: ThoughtsRepoStatus = {
+    path: thoughtsRepo,
+    profile: profileConfig.profileName || null,
+    reposDir: profileConfig.reposDir,
+    globalDir: profileConfig.globalDir,
+    exists: fs.existsSync(repoPath),
+    branch: null,
+    upstream: null,
+    remoteChecked: !options.fast,
+    remote: null,
+    ahead: null,
+    behind: null,
+    fetched: false,
+    pulled: false,
+    lastCommit: null,
+    lastSync: null,
+    lastFetch: null,
+    timedOut: false,
+    changes: [],
+  };
+  const timeout = options.fast ? FAST_TIMEOUT_MS : undefined;
+  const state = getThoughtsRepoState(repoPath);
+  status.lastSync = state.lastSync || null;
+  status.lastFetch = state.lastFetch || null;
+  if (!status.exists) {
+    errors.push(`Thoughts repository not found at ${thoughtsRepo}`);
+    return status;
+  }
 
-    // Fetch to update remote refs
+  if (options.fast) {
     try {
-      execSync("git fetch", { cwd: repoPath, stdio: "pipe" });
-    } catch {
-      // Fetch might fail, continue anyway
+      status.branch =
+        git(repoPath, ["symbolic-ref", "--short", "-q", "HEAD"], timeout) ||
+        null;
+    } catch (error) {
+      // Otherwise HEAD is detached
+      if (isTimeout(error)) status.timedOut = true;
     }
-
-    // Check if we're ahead/behind
-    const status = execSync("git status -sb", {
-      cwd: repoPath,
-      encoding: "utf8",
-      stdio: "pipe",
-    });
-
-    if (status.includes("ahead")) {
-      const ahead = status.match(/ahead (\d+)/)?.[1] || "?";
-      return chalk.yellow(`${ahead} commits ahead of remote`);
-    } else if (status.includes("behind")) {
-      const behind = status.match(/behind (\d+)/)?.[1] || "?";
-
-      // Try to automatically pull if we're behind
+  } else {
+    status.remote = tryGit(repoPath, ["remote", "get-url", "origin"]);
+    if (status.remote && (options.fetch || options.pull)) {
       try {
-        execSync("git pull --rebase", {
-          stdio: "pipe",
-          cwd: repoPath,
-        });
-        console.log(chalk.green("Automatically pulled latest changes"));
-
-        // Re-check status after pull
-        const newStatus = execSync("git status -sb", {
-          encoding: "utf8",
-          cwd: repoPath,
-          stdio: "pipe",
-        });
-
-        if (newStatus.includes("behind")) {
-          const newBehind = newStatus.match(/behind (\d+)/)?.[1] || "?";
-          return chalk.yellow(
-            `${newBehind} commits behind remote (after pull)`,
-          );
-        } else {
-          return chalk.green("Up to date with remote (after pull)");
-        }
-      } catch {
-        // Silent fail - status is read-only operation
-        return chalk.yellow(`${behind} commits behind remote`);
+        git(repoPath, ["fetch"], FETCH_TIMEOUT_MS);
+        status.fetched = true;
+        recordFetch(repoPath);
+        status.lastFetch = getThoughtsRepoState(repoPath).lastFetch || null;
+      } catch (error) {
+        errors.push(`Could not fetch from remote: ${error}`);
       }
-    } else {
-      return chalk.green("Up to date with remote");
     }
+    Object.assign(status, getTracking(repoPath));
+  }
+
+  if (options.pull && status.behind) {
+    // Pulling keeps the working copy current; failures are only reported
+    try {
+      git(repoPath, ["pull", "--rebase"]);
+      status.pulled = true;
+      Object.assign(status, getTracking(repoPath));
+    } catch (error) {
+      // Leave conflicts to "thoughts sync" rather than a half-done rebase
+      if (isRebaseInProgress(repoPath)) {
+        tryGit(repoPath, ["rebase", "--abort"]);
+      }
+      errors.push(`Could not pull latest changes: ${error}`);
+    }
+  }
+
+  try {
+    status.lastCommit = getLastCommit(repoPath, timeout);
   } catch {
-    return chalk.gray("No remote configured");
+    status.timedOut = true;
+  }
+  try {
+    // Not trimmed: the first line may start with a space of its status code
+    status.changes = parsePorcelainStatus(
+      git(repoPath, ["status", "--porcelain"], timeout, false),
+    );
+  } catch (error) {
+    status.changes = null;
+    if (isTimeout(error)) {
+      status.timedOut = true;
+    } else {
+      errors.push(`Could not read uncommitted changes: ${error}`);
+    }
   }
+  if (status.timedOut) {
+    errors.push(
+      `git took longer than ${FAST_TIMEOUT_MS}ms, so some details are unknown`,
+    );
+  }
+  return status;
 }
 
-interface StatusOptions {
-  configFile?: string;
+/**
+ * Saves the gist of a status for "thoughts prompt", which reads it rather
+ * than running git. Keeps the last known ahead/behind if they were skipped,
+ * and the last known changes if they could not be read.
+ */
+export function recordStatusSnapshot(
+  status: ThoughtsRepoStatus,
+  time = new Date(),
+): void {
+  if (!status.exists) return;
+  const previous = getThoughtsRepoState(status.path).snapshot;
+  updateThoughtsRepoState(status.path, {
+    snapshot: {
+      time: time.toISOString(),
+      branch: status.branch,
+      changes: status.changes
+        ? status.changes.length
+        : (previous?.changes ?? null),
+      ahead: status.remoteChecked ? status.ahead : (previous?.ahead ?? null),
+      behind: status.remoteChecked ? status.behind : (previous?.behind ?? null),
+    },
+  });
+}
+
+/**
+ * Collects everything status reports about the current repository and the
+ * thoughts repository it uses. Never changes the config; with fast, the
+ * repository is only recognized by its path, not its origin remote.
+ */
+export function getStatus(
+  config: ThoughtsConfig,
+  currentRepo: string,
+  options: StatusOptions = {},
+): StatusResult {
+  const errors: string[] = [];
+  const remote = options.fast ? null : getRepoRemoteUrl(currentRepo);
+  const mapping = findRepoMapping(config, currentRepo, remote)?.mapping;
+  const profileConfig = resolveProfileForRepo(config, currentRepo, remote);
+
+  return {
+    config: {
+      thoughtsRepo: config.thoughtsRepo,
+      reposDir: config.reposDir,
+      globalDir: config.globalDir,
+      user: config.user,
+      mappedRepos: Object.keys(config.repoMappings).length,
+    },
+    repository: {
+      path: currentRepo,
+      mapped: !!mapping,
+      directory: getRepoNameFromMapping(mapping) || null,
+      profile: getProfileNameFromMapping(mapping) || null,
+      initialized: fs.existsSync(path.join(currentRepo, "thoughts")),
+      profileRuleConflict:
+        (mapping &&
+          findProfileRuleConflict(config, currentRepo, mapping, remote)) ||
+        null,
+    },
+    thoughtsRepo: getThoughtsRepoStatus(profileConfig, errors, options),
+    errors,
+  };
+}
+
+function describeRemoteStatus(status: ThoughtsRepoStatus): string {
+  if (!status.remoteChecked) return chalk.gray("Not checked (--fast)");
+  if (!status.remote) return chalk.gray("No remote configured");
+  if (status.ahead === null || status.behind === null) {
+    return chalk.yellow("No upstream branch");
+  }
+
+  const after = status.pulled ? " (after pull)" : "";
+  if (status.ahead > 0 && status.behind > 0) {
+    return chalk.yellow(
+      `${status.ahead} commits ahead of and ${status.behind} behind remote${after}`,
+    );
+  }
+  if (status.ahead > 0) {
+    return chalk.yellow(`${status.ahead} commits ahead of remote${after}`);
+  }
+  if (status.behind > 0) {
+    return chalk.yellow(`${status.behind} commits behind remote${after}`);
+  }
+  return chalk.green(`Up to date with remote${after}`);
+}
+
+function printProfileRuleConflict(
+  repoPath: string,
+  conflict: ProfileRuleConflict,
+): void {
+  const describe = (profile?: string) =>
+    profile ? `profile "${profile}"` : "the default thoughts repository";
+  const reason = conflict.rule
+    ? ` (${describeProfileRule(conflict.rule)})`
+    : conflict.ruleProfile
+      ? " (defaultProfile)"
+      : "";
+  console.log(
+    chalk.yellow(
+      `  Warning: this repository uses ${describe(conflict.mappedProfile)}, but the profile rules pick ${describe(conflict.ruleProfile)}${reason}`,
+    ),
+  );
+  console.log(
+    chalk.gray(
+      `  Move its notes with: thoughts profile migrate-repo ${repoPath} ${conflict.ruleProfile ? `--to ${conflict.ruleProfile}` : "--to-default"}`,
+    ),
+  );
+}
+
+export function printStatus(result: StatusResult): void {
+  const { config, repository, thoughtsRepo } = result;
+
+  console.log(chalk.blue("Thoughts Repository Status"));
+  console.log(chalk.gray("=".repeat(50)));
+  console.log("");
+
+  // Show configuration
+  console.log(chalk.yellow("Configuration:"));
+  console.log(`  Repository: ${chalk.cyan(config.thoughtsRepo)}`);
+  console.log(`  Repos directory: ${chalk.cyan(config.reposDir)}`);
+  console.log(`  Global directory: ${chalk.cyan(config.globalDir)}`);
+  console.log(`  User: ${chalk.cyan(config.user)}`);
+  console.log(`  Mapped repos: ${chalk.cyan(config.mappedRepos)}`);
+  console.log("");
+
+  if (repository.mapped) {
+    console.log(chalk.yellow("Current Repository:"));
+    console.log(`  Path: ${chalk.cyan(repository.path)}`);
+    console.log(
+      `  Thoughts directory: ${chalk.cyan(`${thoughtsRepo.reposDir}/${repository.directory}`)}`,
+    );
+    console.log(
+      `  Profile: ${repository.profile ? chalk.cyan(repository.profile) : chalk.gray("(default)")}`,
+    );
+    console.log(
+      `  Status: ${repository.initialized ? chalk.green("Initialized") : chalk.red("Not initialized")}`,
+    );
+    if (repository.profileRuleConflict) {
+      printProfileRuleConflict(repository.path, repository.profileRuleConflict);
+    }
+  } else {
+    console.log(chalk.yellow("Current repository not mapped to thoughts"));
+  }
+  console.log("");
+
+  console.log(chalk.yellow("Thoughts Repository Git Status:"));
+  if (thoughtsRepo.profile) {
+    console.log(chalk.gray(`  (using profile: ${thoughtsRepo.profile})`));
+  }
+  if (thoughtsRepo.exists) {
+    const branch =
+      thoughtsRepo.branch ||
+      (thoughtsRepo.timedOut ? "unknown" : "(detached HEAD)");
+    console.log(
+      `  Branch: ${chalk.cyan(branch)}${thoughtsRepo.upstream ? chalk.gray(` → ${thoughtsRepo.upstream}`) : ""}`,
+    );
+    console.log(`  Remote: ${describeRemoteStatus(thoughtsRepo)}`);
+    const commit = thoughtsRepo.lastCommit;
+    console.log(
+      `  Last commit: ${commit ? `${commit.hash.slice(0, 7)} ${commit.subject} (${formatTimeAgo(commit.date)})` : thoughtsRepo.timedOut ? "unknown" : "No commits yet"}`,
+    );
+    console.log(
+      `  Last sync: ${thoughtsRepo.lastSync ? formatTimeAgo(thoughtsRepo.lastSync) : "never"}`,
+    );
+    if (thoughtsRepo.remote) {
+      const lastFetch = thoughtsRepo.lastFetch
+        ? formatTimeAgo(thoughtsRepo.lastFetch)
+        : "never";
+      console.log(
+        `  Last fetch: ${thoughtsRepo.fetched ? lastFetch : `${lastFetch}${chalk.gray(' (run "thoughts status --fetch" to update)')}`}`,
+      );
+    }
+  }
+  result.errors.forEach((error) =>
+    console.log(chalk.yellow(`  Warning: ${error}`)),
+  );
+  console.log("");
+
+  if (!thoughtsRepo.exists) return;
+  if (!thoughtsRepo.changes) {
+    console.log(chalk.gray("Uncommitted changes: unknown"));
+  } else if (thoughtsRepo.changes.length > 0) {
+    console.log(chalk.yellow("Uncommitted changes:"));
+    thoughtsRepo.changes.forEach((change) =>
+      console.log(`  ${chalk.yellow(change.kind.padEnd(10))} ${change.path}`),
+    );
+    console.log("");
+    console.log(chalk.gray('Run "thoughts sync" to commit these changes'));
+  } else {
+    console.log(chalk.green("No uncommitted changes"));
+  }
 }
 
 export async function thoughtsStatusCommand(
@@ -136,84 +511,26 @@ export async function thoughtsStatusCommand(
 
     if (!config) {
       console.error(
-        chalk.red(
-          'Error: Thoughts not configured. Run "thoughts init" first.',
-        ),
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
       );
       process.exit(1);
     }
 
-    console.log(chalk.blue("Thoughts Repository Status"));
-    console.log(chalk.gray("=".repeat(50)));
-    console.log("");
-
-    // Show configuration
-    console.log(chalk.yellow("Configuration:"));
-    console.log(`  Repository: ${chalk.cyan(config.thoughtsRepo)}`);
-    console.log(`  Repos directory: ${chalk.cyan(config.reposDir)}`);
-    console.log(`  Global directory: ${chalk.cyan(config.globalDir)}`);
-    console.log(`  User: ${chalk.cyan(config.user)}`);
-    console.log(
-      `  Mapped repos: ${chalk.cyan(Object.keys(config.repoMappings).length)}`,
-    );
-    console.log("");
-
-    // Check current repo mapping
-    const currentRepo = getCurrentRepoPath();
-    const currentMapping = config.repoMappings[currentRepo];
-    const mappedName = getRepoNameFromMapping(currentMapping);
-    const profileName = getProfileNameFromMapping(currentMapping);
-    const profileConfig = resolveProfileForRepo(config, currentRepo);
-
-    if (mappedName) {
-      console.log(chalk.yellow("Current Repository:"));
-      console.log(`  Path: ${chalk.cyan(currentRepo)}`);
-      console.log(
-        `  Thoughts directory: ${chalk.cyan(`${profileConfig.reposDir}/${mappedName}`)}`,
+    if (options.fast && (options.fetch || options.pull)) {
+      console.error(
+        chalk.red("Error: --fast cannot be combined with --fetch or --pull"),
       );
-
-      // Add profile info
-      if (profileName) {
-        console.log(`  Profile: ${chalk.cyan(profileName)}`);
-      } else {
-        console.log(`  Profile: ${chalk.gray("(default)")}`);
-      }
-
-      const thoughtsDir = path.join(currentRepo, "thoughts");
-      if (fs.existsSync(thoughtsDir)) {
-        console.log(`  Status: ${chalk.green("Initialized")}`);
-      } else {
-        console.log(`  Status: ${chalk.red("Not initialized")}`);
-      }
-    } else {
-      console.log(chalk.yellow("Current repository not mapped to thoughts"));
+      process.exit(1);
     }
-    console.log("");
-
-    // Show thoughts repository git status using profile's thoughtsRepo
-    const expandedRepo = expandPath(profileConfig.thoughtsRepo);
 
-    console.log(chalk.yellow("Thoughts Repository Git Status:"));
-    if (profileName) {
-      console.log(chalk.gray(`  (using profile: ${profileName})`));
-    }
-    console.log(`  ${getGitStatus(expandedRepo)}`);
-    console.log(`  Remote: ${getRemoteStatus(expandedRepo)}`);
-    console.log(`  Last commit: ${getLastCommit(expandedRepo)}`);
-    console.log("");
+    const result = getStatus(config, getCurrentRepoPath(), options);
+    recordStatusSnapshot(result.thoughtsRepo);
 
-    // Show uncommitted changes
-    const changes = getUncommittedChanges(expandedRepo);
-    if (changes.length > 0) {
-      console.log(chalk.yellow("Uncommitted changes:"));
-      changes.forEach((change) => console.log(change));
-      console.log("");
-      console.log(
-        chalk.gray('Run "thoughts sync" to commit these changes'),
-      );
-    } else {
-      console.log(chalk.green("No uncommitted changes"));
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
     }
+    printStatus(result);
   } catch (error) {
     console.error(chalk.red(`Error checking thoughts status: ${error}`));
     process.exit(1);
@@ -1,18 +1,54 @@
 import fs from "fs";
 import path from "path";
+import readline from "readline";
 import { execSync, execFileSync } from "child_process";
 import chalk from "chalk";
 import {
+  ThoughtsConfig,
   loadThoughtsConfig,
   getCurrentRepoPath,
   expandPath,
   updateSymlinksForNewUsers,
   resolveProfileForRepo,
+  resolveRepoMapping,
   getRepoNameFromMapping,
 } from "../thoughtsConfig.js";
+import type { SearchableStrategy } from "../config.js";
+import { createSearchDirectory, type IndexStrategy } from "../searchable.js";
+import { recordFetch, recordSync } from "../syncState.js";
+import {
+  DEFAULT_SYNC_CONCURRENCY,
+  printSyncSummary,
+  syncAllRepositories,
+} from "./syncAll.js";
+import { getThoughtsRepoStatus, recordStatusSnapshot } from "./status.js";
+import {
+  acquireRepoLock,
+  tryAcquireRepoLock,
+  queueCoalescedSync,
+  takeQueuedSyncs,
+  hasQueuedSyncs,
+} from "../lock.js";
+import {
+  abortRebase,
+  continueRebase,
+  hasConflictMarkers,
+  isRebaseInProgress,
+  listConflictedFiles,
+  markResolved,
+  resolveConflict,
+} from "../conflicts.js";
+import { openInEditor } from "../editor.js";
 
 interface SyncOptions {
   message?: string;
+  coalesce?: boolean;
+  abort?: boolean;
+  continue?: boolean;
+  all?: boolean;
+  concurrency?: string;
+  indexOnly?: boolean;
+  json?: boolean;
   configFile?: string;
 }
 
@@ -29,7 +65,254 @@ function checkGitStatus(repoPath: string): boolean {
   }
 }
 
-function syncThoughts(thoughtsRepo: string, message: string): void {
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Walks the user through every conflicted file of a stopped rebase and
+ * continues it until it completes. Returns false if the user aborted.
+ */
+async function resolveConflictsInteractively(
+  repoPath: string,
+  user: string,
+): Promise<boolean> {
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const files = listConflictedFiles(repoPath);
+
+    if (files.length > 0) {
+      console.log(
+        chalk.yellow(`\n${files.length} conflicting file(s) in ${repoPath}:`),
+      );
+      files.forEach((file) => console.log(`  ${chalk.cyan(file)}`));
+    }
+
+    for (const file of files) {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        console.log("");
+        const answer = (
+          await prompt(
+            `${chalk.cyan(file)}: keep [m]ine, [t]heirs, [b]oth, [e]dit, or [a]bort sync? `,
+          )
+        ).toLowerCase();
+
+        if (answer === "m" || answer === "mine") {
+          resolveConflict(repoPath, file, "mine", user);
+          console.log(chalk.green("Kept your version"));
+        } else if (answer === "t" || answer === "theirs") {
+          resolveConflict(repoPath, file, "theirs", user);
+          console.log(chalk.green("Kept their version"));
+        } else if (answer === "b" || answer === "both") {
+          const copy = resolveConflict(repoPath, file, "both", user);
+          console.log(
+            chalk.green(
+              copy
+                ? `Kept their version, yours is saved as ${copy}`
+                : "Kept their version",
+            ),
+          );
+        } else if (answer === "e" || answer === "edit") {
+          const fullPath = path.join(repoPath, file);
+          openInEditor(fullPath);
+          if (
+            fs.existsSync(fullPath) &&
+            hasConflictMarkers(fs.readFileSync(fullPath, "utf8"))
+          ) {
+            console.log(chalk.yellow("File still contains conflict markers"));
+            continue;
+          }
+          markResolved(repoPath, file);
+          console.log(chalk.green("Marked as resolved"));
+        } else if (answer === "a" || answer === "abort") {
+          abortRebase(repoPath);
+          return false;
+        } else {
+          console.log(chalk.red("Please answer m, t, b, e or a"));
+          continue;
+        }
+        break;
+      }
+    }
+
+    if (continueRebase(repoPath) === "done") {
+      console.log(chalk.green("Conflicts resolved"));
+      return true;
+    }
+  }
+}
+
+export type SyncActionType =
+  | "symlinks"
+  | "searchable"
+  | "commit"
+  | "pull"
+  | "push"
+  | "queued"
+  | "resolve"
+  | "abort"
+  | "info";
+
+export interface SyncAction {
+  type: SyncActionType;
+  message: string;
+  warning?: boolean; // Something went wrong, but the sync carried on
+}
+
+export interface SyncResult {
+  repository: string; // The code checkout
+  directory: string | null;
+  profile: string | null; // Null for the default thoughts repository
+  thoughtsRepo: string; // As configured
+  actions: SyncAction[];
+  committed: boolean;
+  pulled: boolean;
+  pushed: boolean;
+  queuedInto: number | null; // Pid of the sync this request was handed to
+  conflicts: string[]; // Files left conflicted when the sync stopped
+  errors: string[];
+}
+
+type ReportAction = (action: SyncAction) => void;
+
+export function printSyncAction(action: SyncAction): void {
+  if (action.warning) {
+    console.log(chalk.yellow(action.message));
+  } else if (action.type === "searchable" || action.type === "info") {
+    console.log(chalk.gray(action.message));
+  } else {
+    console.log(chalk.green(action.message));
+  }
+}
+
+function printConflictHelp(repoPath: string, files: string[]): void {
+  console.error(
+    chalk.red("Error: Sync stopped on merge conflicts in thoughts repository"),
+  );
+  files.forEach((file) => console.error(`  ${chalk.cyan(file)}`));
+  console.error(
+    `Run ${chalk.cyan("thoughts sync --continue")} in a terminal to resolve them, or ${chalk.cyan("thoughts sync --abort")} to give up.`,
+  );
+}
+
+/**
+ * Prints what a sync could not do. Actions are printed as they happen.
+ */
+export function printSyncErrors(result: SyncResult): void {
+  if (result.conflicts.length > 0) {
+    printConflictHelp(expandPath(result.thoughtsRepo), result.conflicts);
+    return;
+  }
+  result.errors.forEach((error) => console.error(chalk.red(`Error: ${error}`)));
+}
+
+function stopOnConflicts(repoPath: string, result: SyncResult): false {
+  result.conflicts = listConflictedFiles(repoPath);
+  result.errors.push("Sync stopped on merge conflicts in thoughts repository");
+  return false;
+}
+
+/**
+ * Resolves the conflicts of a stopped rebase, interactively when attached to
+ * a terminal. Returns false, with the reason in the result, if they cannot
+ * be resolved here.
+ */
+async function resolveConflicts(
+  repoPath: string,
+  user: string,
+  result: SyncResult,
+  report: ReportAction,
+  interactive: boolean,
+): Promise<boolean> {
+  if (!interactive || !process.stdin.isTTY) {
+    // Files may already have been resolved and staged by hand
+    if (
+      listConflictedFiles(repoPath).length === 0 &&
+      continueRebase(repoPath) === "done"
+    ) {
+      report({ type: "resolve", message: "Finished the interrupted sync" });
+      return true;
+    }
+    return stopOnConflicts(repoPath, result);
+  }
+
+  if (!(await resolveConflictsInteractively(repoPath, user))) {
+    result.errors.push(
+      "Sync aborted. Your changes are committed locally but not pushed.",
+    );
+    return false;
+  }
+  report({ type: "resolve", message: "Conflicts resolved" });
+  return true;
+}
+
+function pushThoughts(
+  expandedRepo: string,
+  result: SyncResult,
+  report: ReportAction,
+): void {
+  // Check if remote exists and push any unpushed commits
+  try {
+    execSync("git remote get-url origin", {
+      cwd: expandedRepo,
+      stdio: "pipe",
+    });
+  } catch {
+    report({
+      type: "info",
+      message: "No remote configured for thoughts repository",
+    });
+    return;
+  }
+
+  try {
+    execSync("git push", { cwd: expandedRepo, stdio: "pipe" });
+    result.pushed = true;
+    report({ type: "push", message: "Pushed to remote" });
+  } catch {
+    report({
+      type: "push",
+      message: "Could not push to remote. You may need to push manually.",
+      warning: true,
+    });
+  }
+}
+
+function getUpstreamHead(expandedRepo: string): string | null {
+  try {
+    return execFileSync("git", ["rev-parse", "@{upstream}"], {
+      cwd: expandedRepo,
+      encoding: "utf8",
+      stdio: "pipe",
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Commits, pulls and pushes a thoughts repository. Returns false, with the
+ * reason in the result, if the sync had to stop.
+ */
+async function syncThoughts(
+  thoughtsRepo: string,
+  message: string,
+  user: string,
+  result: SyncResult,
+  report: ReportAction,
+  interactive: boolean,
+): Promise<boolean> {
   const expandedRepo = expandPath(thoughtsRepo);
 
   try {
@@ -48,181 +331,156 @@ function syncThoughts(thoughtsRepo: string, message: string): void {
         stdio: "pipe",
       });
 
-      console.log(chalk.green("Thoughts synchronized"));
+      result.committed = true;
+      report({ type: "commit", message: "Thoughts synchronized" });
     } else {
-      console.log(chalk.gray("No changes to commit"));
+      report({ type: "info", message: "No changes to commit" });
     }
 
     // Pull latest changes after committing (to avoid conflicts with staged changes)
+    const upstreamBefore = getUpstreamHead(expandedRepo);
     try {
       execSync("git pull --rebase", {
         stdio: "pipe",
         cwd: expandedRepo,
       });
+      recordFetch(expandedRepo);
     } catch (error: unknown) {
-      const errorStr = String(error);
-      if (
-        errorStr.includes("CONFLICT (") ||
-        errorStr.includes("Automatic merge failed") ||
-        errorStr.includes("Patch failed at") ||
-        errorStr.includes(
-          'When you have resolved this problem, run "git rebase --continue"',
-        )
-      ) {
-        console.error(
-          chalk.red("Error: Merge conflict detected in thoughts repository"),
-        );
-        console.error(
-          chalk.red("Please resolve conflicts manually in:"),
-          expandedRepo,
-        );
-        console.error(
-          chalk.red(
-            'Then run "git rebase --continue" and "thoughts sync" again',
-          ),
-        );
-        process.exit(1);
-      } else {
+      if (!isRebaseInProgress(expandedRepo)) {
         const msg = error instanceof Error ? error.message : String(error);
-        console.warn(
-          chalk.yellow("Warning: Could not pull latest changes:"),
-          msg,
-        );
+        report({
+          type: "pull",
+          message: `Warning: Could not pull latest changes: ${msg}`,
+          warning: true,
+        });
+      } else {
+        // The fetch went through, only the rebase stopped
+        recordFetch(expandedRepo);
+        if (
+          !(await resolveConflicts(
+            expandedRepo,
+            user,
+            result,
+            report,
+            interactive,
+          ))
+        ) {
+          return false;
+        }
       }
     }
-
-    // Check if remote exists and push any unpushed commits
-    try {
-      execSync("git remote get-url origin", {
-        cwd: expandedRepo,
-        stdio: "pipe",
-      });
-
-      // Try to push
-      console.log(chalk.gray("Pushing to remote..."));
-      try {
-        execSync("git push", { cwd: expandedRepo, stdio: "pipe" });
-        console.log(chalk.green("Pushed to remote"));
-      } catch {
-        console.log(
-          chalk.yellow(
-            "Could not push to remote. You may need to push manually.",
-          ),
-        );
-      }
-    } catch {
-      // No remote configured
-      console.log(chalk.yellow("No remote configured for thoughts repository"));
+    const upstreamAfter = getUpstreamHead(expandedRepo);
+    if (upstreamAfter && upstreamAfter !== upstreamBefore) {
+      result.pulled = true;
+      report({ type: "pull", message: "Pulled latest changes from remote" });
     }
+
+    pushThoughts(expandedRepo, result, report);
+    return true;
   } catch (error) {
-    console.error(chalk.red(`Error syncing thoughts: ${error}`));
-    process.exit(1);
+    result.errors.push(`Error syncing thoughts: ${error}`);
+    return false;
   }
 }
 
-function createSearchDirectory(thoughtsDir: string): void {
-  const searchDir = path.join(thoughtsDir, "searchable");
-  const oldSearchDir = path.join(thoughtsDir, ".search");
-
-  // Remove old .search directory if it exists
-  if (fs.existsSync(oldSearchDir)) {
-    try {
-      execSync(`chmod -R 755 "${oldSearchDir}"`, { stdio: "pipe" });
-    } catch {
-      // Ignore chmod errors
-    }
-    fs.rmSync(oldSearchDir, { recursive: true, force: true });
+const INDEX_STRATEGY_LABELS: Record<IndexStrategy, string> = {
+  hardlink: "hard links",
+  reflink: "copy-on-write clones",
+  copy: "copies",
+  mirror: "read-only copies",
+};
+
+// Skipped files listed one by one before the rest are only counted
+const MAX_LISTED_SKIPS = 10;
+
+function rebuildSearchDirectory(
+  thoughtsDir: string,
+  strategy: SearchableStrategy | undefined,
+  report: ReportAction,
+): void {
+  const index = createSearchDirectory(thoughtsDir, strategy);
+  const entries = `${index.indexed} ${INDEX_STRATEGY_LABELS[index.strategy]}`;
+  report({
+    type: "searchable",
+    message: index.rebuilt
+      ? `Created ${entries} in searchable directory`
+      : index.added || index.updated || index.removed
+        ? `Updated searchable directory: ${index.added} added, ${index.updated} updated, ${index.removed} removed (${entries})`
+        : `Searchable directory is up to date (${entries})`,
+  });
+  if (index.skipped.length === 0) return;
+
+  report({
+    type: "searchable",
+    message: `Warning: ${index.skipped.length} files could not be added to the searchable directory`,
+    warning: true,
+  });
+  for (const skipped of index.skipped.slice(0, MAX_LISTED_SKIPS)) {
+    report({
+      type: "searchable",
+      message: `  ${skipped.path}: ${skipped.reason}`,
+      warning: true,
+    });
   }
-
-  // Remove existing searchable directory if it exists
-  if (fs.existsSync(searchDir)) {
-    try {
-      // Reset permissions so we can delete it
-      execSync(`chmod -R 755 "${searchDir}"`, { stdio: "pipe" });
-    } catch {
-      // Ignore chmod errors
-    }
-    fs.rmSync(searchDir, { recursive: true, force: true });
+  if (index.skipped.length > MAX_LISTED_SKIPS) {
+    report({
+      type: "searchable",
+      message: `  ...and ${index.skipped.length - MAX_LISTED_SKIPS} more`,
+      warning: true,
+    });
   }
+}
 
-  // Create new .search directory
-  fs.mkdirSync(searchDir, { recursive: true });
-
-  // Function to recursively find all files through symlinks
-  function findFilesFollowingSymlinks(
-    dir: string,
-    baseDir: string = dir,
-    visited: Set<string> = new Set(),
-  ): string[] {
-    const files: string[] = [];
-
-    // Resolve symlinks to avoid cycles
-    const realPath = fs.realpathSync(dir);
-    if (visited.has(realPath)) {
-      return files;
-    }
-    visited.add(realPath);
-
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
-      if (entry.isDirectory() && !entry.name.startsWith(".")) {
-        files.push(...findFilesFollowingSymlinks(fullPath, baseDir, visited));
-      } else if (entry.isSymbolicLink() && !entry.name.startsWith(".")) {
-        try {
-          const stat = fs.statSync(fullPath);
-          if (stat.isDirectory()) {
-            files.push(
-              ...findFilesFollowingSymlinks(fullPath, baseDir, visited),
-            );
-          } else if (stat.isFile() && path.basename(fullPath) !== "CLAUDE.md") {
-            files.push(path.relative(baseDir, fullPath));
-          }
-        } catch {
-          // Ignore broken symlinks
-        }
-      } else if (
-        entry.isFile() &&
-        !entry.name.startsWith(".") &&
-        entry.name !== "CLAUDE.md"
-      ) {
-        files.push(path.relative(baseDir, fullPath));
-      }
-    }
-
-    return files;
+async function syncAllCommand(
+  config: ThoughtsConfig,
+  options: SyncOptions,
+): Promise<void> {
+  if (options.abort || options.continue || options.coalesce) {
+    console.error(
+      chalk.red(
+        "Error: --all cannot be combined with --abort, --continue or --coalesce",
+      ),
+    );
+    process.exit(1);
+  }
+  const concurrency = options.concurrency
+    ? parseInt(options.concurrency, 10)
+    : DEFAULT_SYNC_CONCURRENCY;
+  if (!(concurrency > 0)) {
+    console.error(chalk.red("Error: --concurrency must be a positive number"));
+    process.exit(1);
   }
 
-  // Get all files accessible through the thoughts directory (following symlinks)
-  const allFiles = findFilesFollowingSymlinks(thoughtsDir);
-
-  // Create hard links in .search directory
-  let linkedCount = 0;
-  for (const relPath of allFiles) {
-    const sourcePath = path.join(thoughtsDir, relPath);
-    const targetPath = path.join(searchDir, relPath);
-
-    // Create directory structure
-    const targetDir = path.dirname(targetPath);
-    if (!fs.existsSync(targetDir)) {
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-
-    try {
-      // Resolve symlink to get the real file path
-      const realSourcePath = fs.realpathSync(sourcePath);
-      // Create hard link to the real file
-      fs.linkSync(realSourcePath, targetPath);
-      linkedCount++;
-    } catch {
-      // Silently skip files we can't link (e.g., different filesystems)
+  if (!options.json) {
+    console.log(chalk.blue("Syncing all thoughts repositories..."));
+  }
+  const results = await syncAllRepositories(config, {
+    message: options.message,
+    concurrency,
+    onResult: options.json
+      ? undefined
+      : (result) =>
+          console.log(
+            result.error
+              ? chalk.red(`✗ ${result.thoughtsRepo}`)
+              : chalk.green(`✓ ${result.thoughtsRepo}`),
+          ),
+  });
+  const failed = results.filter((result) => result.error).length;
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log("");
+    printSyncSummary(results);
+    if (failed > 0) {
+      console.error("");
+      console.error(
+        chalk.red(`${failed} of ${results.length} repositories failed`),
+      );
     }
   }
-
-  console.log(
-    chalk.gray(`Created ${linkedCount} hard links in searchable directory`),
-  );
+  if (failed > 0) process.exit(1);
 }
 
 export async function thoughtsSyncCommand(options: SyncOptions): Promise<void> {
@@ -231,14 +489,29 @@ export async function thoughtsSyncCommand(options: SyncOptions): Promise<void> {
     const config = loadThoughtsConfig(options);
 
     if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    if (
+      options.indexOnly &&
+      (options.all || options.abort || options.continue || options.coalesce)
+    ) {
       console.error(
         chalk.red(
-          'Error: Thoughts not configured. Run "thoughts init" first.',
+          "Error: --index-only cannot be combined with --all, --abort, --continue or --coalesce",
         ),
       );
       process.exit(1);
     }
 
+    if (options.all) {
+      await syncAllCommand(config, options);
+      return;
+    }
+
     // Check if current repo has thoughts setup
     const currentRepo = getCurrentRepoPath();
     const thoughtsDir = path.join(currentRepo, "thoughts");
@@ -251,34 +524,198 @@ export async function thoughtsSyncCommand(options: SyncOptions): Promise<void> {
       process.exit(1);
     }
 
+    if (options.abort && options.continue) {
+      console.error(
+        chalk.red("Error: --abort and --continue cannot be used together"),
+      );
+      process.exit(1);
+    }
+
     // Get current repo mapping and resolve profile
-    const mapping = config.repoMappings[currentRepo];
+    const mapping = resolveRepoMapping(config, currentRepo, options)?.mapping;
     const mappedName = getRepoNameFromMapping(mapping);
     const profileConfig = resolveProfileForRepo(config, currentRepo);
+    const expandedRepo = expandPath(profileConfig.thoughtsRepo);
+    const message = options.message || "";
+    // Conflicts cannot be resolved interactively while writing JSON
+    const interactive = !options.json;
+
+    const result: SyncResult = {
+      repository: currentRepo,
+      directory: mappedName || null,
+      profile: profileConfig.profileName || null,
+      thoughtsRepo: profileConfig.thoughtsRepo,
+      actions: [],
+      committed: false,
+      pulled: false,
+      pushed: false,
+      queuedInto: null,
+      conflicts: [],
+      errors: [],
+    };
+    const report: ReportAction = (action) => {
+      result.actions.push(action);
+      if (!options.json) printSyncAction(action);
+    };
+    const finish = () => {
+      // The sync holding the lock records its own result
+      if (!result.queuedInto) {
+        recordStatusSnapshot(getThoughtsRepoStatus(profileConfig));
+      }
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printSyncErrors(result);
+      }
+      if (result.errors.length > 0) process.exit(1);
+    };
 
-    if (mappedName) {
-      // Update symlinks for any new users using profile config
-      const newUsers = updateSymlinksForNewUsers(
-        currentRepo,
-        profileConfig,
-        mappedName,
-        config.user,
-      );
+    if (options.indexOnly) {
+      const lock = await acquireRepoLock(expandedRepo, "sync");
+      try {
+        rebuildSearchDirectory(thoughtsDir, config.searchableStrategy, report);
+      } finally {
+        lock.release();
+      }
+      finish();
+      return;
+    }
+
+    if (options.abort || options.continue) {
+      const lock = await acquireRepoLock(expandedRepo, "sync");
+      try {
+        if (!isRebaseInProgress(expandedRepo)) {
+          result.errors.push("No interrupted sync in the thoughts repository");
+        } else if (options.abort) {
+          abortRebase(expandedRepo);
+          report({
+            type: "abort",
+            message:
+              "Sync aborted. Your changes are committed locally but not pushed.",
+          });
+        } else if (
+          await resolveConflicts(
+            expandedRepo,
+            config.user,
+            result,
+            report,
+            interactive,
+          )
+        ) {
+          pushThoughts(expandedRepo, result, report);
+          recordSync(expandedRepo);
+          rebuildSearchDirectory(
+            thoughtsDir,
+            config.searchableStrategy,
+            report,
+          );
+        }
+      } finally {
+        lock.release();
+      }
+      finish();
+      return;
+    }
 
-      if (newUsers.length > 0) {
-        console.log(
-          chalk.green(`Added symlinks for new users: ${newUsers.join(", ")}`),
+    // Hand off to a sync that is already running for this thoughts repo
+    if (options.coalesce) {
+      const holder = queueCoalescedSync(expandedRepo, message);
+      if (holder) {
+        result.queuedInto = holder.pid;
+        report({
+          type: "queued",
+          message: `Sync already running (pid ${holder.pid}), queued this sync into it`,
+        });
+        finish();
+        return;
+      }
+    }
+
+    // Run one pass for our request, then one for each batch of queued
+    // requests. Stops at the first pass that cannot finish.
+    const runSyncPasses = async (firstMessage: string | null) => {
+      if (
+        firstMessage !== null &&
+        !(await syncThoughts(
+          profileConfig.thoughtsRepo,
+          firstMessage,
+          config.user,
+          result,
+          report,
+          interactive,
+        ))
+      ) {
+        return false;
+      }
+      let queued: string[] | null;
+      while ((queued = takeQueuedSyncs(expandedRepo)) !== null) {
+        report({
+          type: "queued",
+          message: `Syncing ${queued.length} queued request(s)...`,
+        });
+        const passed = await syncThoughts(
+          profileConfig.thoughtsRepo,
+          queued.filter((queuedMessage) => queuedMessage).join("\n"),
+          config.user,
+          result,
+          report,
+          interactive,
+        );
+        if (!passed) return false;
+      }
+      return true;
+    };
+
+    const lock = await acquireRepoLock(expandedRepo, "sync");
+    try {
+      // Committing on top of a stopped rebase would bury the conflicts
+      if (isRebaseInProgress(expandedRepo)) {
+        stopOnConflicts(expandedRepo, result);
+        finish();
+        return;
+      }
+
+      if (mappedName) {
+        // Update symlinks for any new users using profile config
+        const newUsers = updateSymlinksForNewUsers(
+          currentRepo,
+          profileConfig,
+          mappedName,
+          config.user,
         );
+
+        if (newUsers.length > 0) {
+          report({
+            type: "symlinks",
+            message: `Added symlinks for new users: ${newUsers.join(", ")}`,
+          });
+        }
+      }
+
+      // Create searchable directory with hard links
+      rebuildSearchDirectory(thoughtsDir, config.searchableStrategy, report);
+
+      // Sync the thoughts repository using profile's thoughtsRepo
+      if (await runSyncPasses(message)) {
+        recordSync(expandedRepo);
       }
+    } finally {
+      lock.release();
     }
 
-    // Create .search directory with hard links
-    console.log(chalk.blue("Creating searchable index..."));
-    createSearchDirectory(thoughtsDir);
+    // Requests queued between our last check and the release are ours too,
+    // unless another sync grabbed the lock and will pick them up itself
+    while (result.errors.length === 0 && hasQueuedSyncs(expandedRepo)) {
+      const nextLock = tryAcquireRepoLock(expandedRepo, "sync");
+      if (!nextLock) break;
+      try {
+        await runSyncPasses(null);
+      } finally {
+        nextLock.release();
+      }
+    }
 
-    // Sync the thoughts repository using profile's thoughtsRepo
-    console.log(chalk.blue("Syncing thoughts..."));
-    syncThoughts(profileConfig.thoughtsRepo, options.message || "");
+    finish();
   } catch (error) {
     console.error(chalk.red(`Error during thoughts sync: ${error}`));
     process.exit(1);
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  collectSyncTargets,
+  runWithConcurrency,
+  syncAllRepositories,
+} from "./syncAll.js";
+import { readSyncState } from "../syncState.js";
+import type { ThoughtsConfig } from "../thoughtsConfig.js";
+
+describe("syncAll.ts", () => {
+  let tmpDir: string;
+
+  const run = (cwd: string, command: string) =>
+    execSync(command, { cwd, encoding: "utf8", stdio: "pipe" });
+
+  // A thoughts repository with a commit, pushed to a bare remote
+  const createThoughtsRepo = (name: string, withRemote = true) => {
+    const repo = path.join(tmpDir, name);
+    fs.mkdirSync(path.join(repo, "repos"), { recursive: true });
+    run(repo, "git init -q");
+    run(repo, "git config user.email t@t && git config user.name t");
+    fs.writeFileSync(path.join(repo, "README.md"), name);
+    run(repo, "git add -A && git commit -qm init");
+    if (withRemote) {
+      const remote = path.join(tmpDir, `${name}.git`);
+      run(tmpDir, `git init -q --bare ${remote}`);
+      run(repo, `git remote add origin ${remote}`);
+      run(repo, "git push -q -u origin HEAD");
+    }
+    return repo;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-syncall-test-"));
+    vi.stubEnv("XDG_STATE_HOME", path.join(tmpDir, "state"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe("runWithConcurrency()", () => {
+    it("should keep the order of results and the limit of calls", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const results = await runWithConcurrency(
+        [30, 10, 20, 5, 15],
+        2,
+        async (delay) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          running--;
+          return delay * 2;
+        },
+      );
+
+      expect(results).toEqual([60, 20, 40, 10, 30]);
+      expect(maxRunning).toBe(2);
+    });
+  });
+
+  describe("collectSyncTargets()", () => {
+    it("should merge profiles that share a repository", () => {
+      const checkout = path.join(tmpDir, "code");
+      fs.mkdirSync(path.join(checkout, "thoughts"), { recursive: true });
+
+      const config: ThoughtsConfig = {
+        thoughtsRepo: path.join(tmpDir, "thoughts"),
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {
+          [checkout]: { repo: "code", profile: "work" },
+          [path.join(tmpDir, "gone")]: "gone",
+        },
+        profiles: {
+          work: {
+            thoughtsRepo: path.join(tmpDir, "work"),
+            reposDir: "repos",
+            globalDir: "global",
+          },
+          same: {
+            thoughtsRepo: path.join(tmpDir, "thoughts"),
+            reposDir: "notes",
+            globalDir: "global",
+          },
+        },
+      };
+
+      expect(collectSyncTargets(config)).toEqual([
+        {
+          thoughtsRepo: path.join(tmpDir, "thoughts"),
+          profiles: ["same"],
+          hasDefault: true,
+          checkouts: [],
+        },
+        {
+          thoughtsRepo: path.join(tmpDir, "work"),
+          profiles: ["work"],
+          hasDefault: false,
+          checkouts: [checkout],
+        },
+      ]);
+    });
+  });
+
+  describe("syncAllRepositories()", () => {
+    it("should commit and push every repository and report failures", async () => {
+      const defaultRepo = createThoughtsRepo("thoughts");
+      const workRepo = createThoughtsRepo("work");
+      const localRepo = createThoughtsRepo("local", false);
+      fs.writeFileSync(path.join(defaultRepo, "a.md"), "a");
+      fs.writeFileSync(path.join(localRepo, "b.md"), "b");
+      // An unreachable remote
+      run(workRepo, "git remote set-url origin /nonexistent/remote.git");
+
+      const config: ThoughtsConfig = {
+        thoughtsRepo: defaultRepo,
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {},
+        profiles: {
+          work: { thoughtsRepo: workRepo, reposDir: "repos", globalDir: "g" },
+          local: { thoughtsRepo: localRepo, reposDir: "repos", globalDir: "g" },
+          missing: {
+            thoughtsRepo: path.join(tmpDir, "missing"),
+            reposDir: "repos",
+            globalDir: "g",
+          },
+        },
+      };
+
+      const results = await syncAllRepositories(config, {
+        message: "Nightly sync",
+        concurrency: 2,
+      });
+
+      expect(
+        results.map(({ thoughtsRepo, committed, remote, error }) => ({
+          thoughtsRepo: path.basename(thoughtsRepo),
+          committed,
+          remote,
+          failed: !!error,
+        })),
+      ).toEqual([
+        {
+          thoughtsRepo: "thoughts",
+          committed: true,
+          remote: "pushed",
+          failed: false,
+        },
+        { thoughtsRepo: "work", committed: false, remote: null, failed: true },
+        {
+          thoughtsRepo: "local",
+          committed: true,
+          remote: "none",
+          failed: false,
+        },
+        {
+          thoughtsRepo: "missing",
+          committed: false,
+          remote: null,
+          failed: true,
+        },
+      ]);
+      expect(results[1].error).toMatch(/^pull failed/);
+      expect(results[3].error).toBe("thoughts repository not found");
+
+      expect(
+        run(tmpDir, `git --git-dir thoughts.git log -1 --format=%s`).trim(),
+      ).toBe("Nightly sync");
+      const state = readSyncState();
+      expect(state.repos[defaultRepo]?.lastSync).toBeDefined();
+      expect(state.repos[workRepo]?.lastSync).toBeUndefined();
+      // Failed or not, each existing repository leaves a prompt snapshot
+      expect(state.repos[defaultRepo]?.snapshot).toMatchObject({
+        changes: 0,
+        ahead: 0,
+      });
+      expect(state.repos[workRepo]?.snapshot).toBeDefined();
+    });
+  });
+});
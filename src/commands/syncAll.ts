@@ -0,0 +1,315 @@
+import fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+import chalk from "chalk";
+import {
+  ThoughtsConfig,
+  expandPath,
+  updateSymlinksForNewUsers,
+  resolveProfileConfig,
+  resolveProfileForRepo,
+  getRepoNameFromMapping,
+} from "../thoughtsConfig.js";
+import { createSearchDirectory } from "../searchable.js";
+import { recordFetch, recordSync } from "../syncState.js";
+import { acquireRepoLock } from "../lock.js";
+import { isRebaseInProgress } from "../conflicts.js";
+import { getThoughtsRepoStatus, recordStatusSnapshot } from "./status.js";
+
+export const DEFAULT_SYNC_CONCURRENCY = 4;
+
+export interface SyncAllOptions {
+  message?: string;
+  concurrency?: number;
+  onResult?: (result: SyncAllResult) => void; // Called as each one finishes
+}
+
+export interface SyncTarget {
+  thoughtsRepo: string; // Expanded path
+  profiles: string[]; // Names of the profiles that use it
+  hasDefault: boolean; // Whether it is also the default thoughts repository
+  checkouts: string[]; // Existing mapped checkouts that link to this repo
+}
+
+export interface SyncAllResult {
+  thoughtsRepo: string;
+  profiles: string[];
+  hasDefault: boolean;
+  committed: boolean;
+  remote: "pushed" | "none" | null; // null when the exchange did not happen
+  checkouts: number; // Checkouts whose searchable/ was rebuilt
+  skipped: number; // Notes left out of those searchable/ directories
+  error?: string;
+}
+
+function git(repoPath: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd: repoPath }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+async function hasOrigin(repoPath: string): Promise<boolean> {
+  try {
+    await git(repoPath, ["remote", "get-url", "origin"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs fn on every item with at most limit calls in flight, returning the
+ * results in the order of items
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Lists the default thoughts repository and every profile's, merging
+ * profiles that share a repository, with the existing checkouts linked to each
+ */
+export function collectSyncTargets(config: ThoughtsConfig): SyncTarget[] {
+  const targets = new Map<string, SyncTarget>();
+  const getTarget = (thoughtsRepo: string) => {
+    const expanded = expandPath(thoughtsRepo);
+    if (!targets.has(expanded)) {
+      targets.set(expanded, {
+        thoughtsRepo: expanded,
+        profiles: [],
+        hasDefault: false,
+        checkouts: [],
+      });
+    }
+    return targets.get(expanded)!;
+  };
+
+  getTarget(config.thoughtsRepo).hasDefault = true;
+  for (const name of Object.keys(config.profiles || {})) {
+    getTarget(resolveProfileConfig(config, name).thoughtsRepo).profiles.push(
+      name,
+    );
+  }
+
+  for (const repoPath of Object.keys(config.repoMappings)) {
+    if (!fs.existsSync(path.join(repoPath, "thoughts"))) continue;
+    const profileConfig = resolveProfileForRepo(config, repoPath);
+    getTarget(profileConfig.thoughtsRepo).checkouts.push(repoPath);
+  }
+
+  return [...targets.values()];
+}
+
+/**
+ * Syncs one thoughts repository without user interaction: refreshes its
+ * checkouts, commits, pulls and pushes. A pull that stops on conflicts is
+ * rolled back so they can be resolved with "thoughts sync" in a checkout.
+ */
+export async function syncTarget(
+  config: ThoughtsConfig,
+  target: SyncTarget,
+  message: string,
+): Promise<SyncAllResult> {
+  const result: SyncAllResult = {
+    thoughtsRepo: target.thoughtsRepo,
+    profiles: target.profiles,
+    hasDefault: target.hasDefault,
+    committed: false,
+    remote: null,
+    checkouts: 0,
+    skipped: 0,
+  };
+  const repo = target.thoughtsRepo;
+
+  if (!fs.existsSync(repo)) {
+    return { ...result, error: "thoughts repository not found" };
+  }
+
+  let lock;
+  try {
+    lock = await acquireRepoLock(repo, "sync --all");
+  } catch (error) {
+    return { ...result, error: String(error) };
+  }
+
+  try {
+    if (isRebaseInProgress(repo)) {
+      throw new Error(
+        'stopped on merge conflicts, run "thoughts sync --continue" in a checkout',
+      );
+    }
+
+    for (const checkout of target.checkouts) {
+      const profileConfig = resolveProfileForRepo(config, checkout);
+      const mappedName = getRepoNameFromMapping(config.repoMappings[checkout]);
+      if (mappedName) {
+        updateSymlinksForNewUsers(
+          checkout,
+          profileConfig,
+          mappedName,
+          config.user,
+        );
+      }
+      result.skipped += createSearchDirectory(
+        path.join(checkout, "thoughts"),
+        config.searchableStrategy,
+      ).skipped.length;
+      result.checkouts++;
+    }
+
+    await git(repo, ["add", "-A"]);
+    if ((await git(repo, ["status", "--porcelain"])).trim()) {
+      await git(repo, [
+        "commit",
+        "-m",
+        message || `Sync thoughts - ${new Date().toISOString()}`,
+      ]);
+      result.committed = true;
+    }
+
+    if (!(await hasOrigin(repo))) {
+      result.remote = "none";
+    } else {
+      try {
+        await git(repo, ["pull", "--rebase"]);
+        recordFetch(repo);
+      } catch (error) {
+        if (isRebaseInProgress(repo)) {
+          await git(repo, ["rebase", "--abort"]);
+          throw new Error(
+            'pull stopped on merge conflicts, run "thoughts sync" in a checkout to resolve them',
+          );
+        }
+        throw new Error(`pull failed: ${(error as Error).message}`);
+      }
+      try {
+        await git(repo, ["push"]);
+      } catch (error) {
+        throw new Error(`push failed: ${(error as Error).message}`);
+      }
+      result.remote = "pushed";
+    }
+
+    recordSync(repo);
+    return result;
+  } catch (error) {
+    return { ...result, error: (error as Error).message || String(error) };
+  } finally {
+    lock.release();
+    recordStatusSnapshot(
+      getThoughtsRepoStatus(
+        resolveProfileConfig(
+          config,
+          target.hasDefault ? undefined : target.profiles[0],
+        ),
+      ),
+    );
+  }
+}
+
+/**
+ * Syncs the default thoughts repository and every profile's in parallel
+ */
+export async function syncAllRepositories(
+  config: ThoughtsConfig,
+  options: SyncAllOptions = {},
+): Promise<SyncAllResult[]> {
+  const targets = collectSyncTargets(config);
+  return runWithConcurrency(
+    targets,
+    options.concurrency ?? DEFAULT_SYNC_CONCURRENCY,
+    async (target) => {
+      const result = await syncTarget(config, target, options.message || "");
+      options.onResult?.(result);
+      return result;
+    },
+  );
+}
+
+function describeProfiles(result: SyncAllResult): string {
+  const names = result.hasDefault
+    ? ["(default)", ...result.profiles]
+    : result.profiles;
+  return names.join(", ");
+}
+
+export function printSyncSummary(results: SyncAllResult[]): void {
+  const columns: Array<{
+    header: string;
+    value: (result: SyncAllResult) => string;
+  }> = [
+    { header: "REPOSITORY", value: (result) => result.thoughtsRepo },
+    { header: "PROFILE", value: describeProfiles },
+    {
+      header: "COMMITTED",
+      value: (result) => (result.committed ? "yes" : "no"),
+    },
+    {
+      header: "REMOTE",
+      value: (result) =>
+        result.remote === "pushed"
+          ? "pushed"
+          : result.remote === "none"
+            ? "no remote"
+            : "-",
+    },
+    { header: "CHECKOUTS", value: (result) => String(result.checkouts) },
+    {
+      header: "RESULT",
+      value: (result) =>
+        result.error
+          ? `failed: ${result.error}`
+          : result.skipped > 0
+            ? `ok, ${result.skipped} files not searchable`
+            : "ok",
+    },
+  ];
+
+  const widths = columns.map((column) =>
+    Math.max(
+      column.header.length,
+      ...results.map((result) => column.value(result).length),
+    ),
+  );
+
+  console.log(
+    chalk.gray(
+      columns
+        .map((column, i) => column.header.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    ),
+  );
+  for (const result of results) {
+    const cells = columns.map((column, i) =>
+      column.value(result).padEnd(widths[i]),
+    );
+    cells[0] = chalk.cyan(cells[0]);
+    const last = cells.length - 1;
+    cells[last] = result.error
+      ? chalk.red(cells[last])
+      : chalk.green(cells[last]);
+    console.log(cells.join("  ").trimEnd());
+  }
+}
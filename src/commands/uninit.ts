@@ -8,7 +8,11 @@ import {
   getCurrentRepoPath,
   getRepoNameFromMapping,
   getProfileNameFromMapping,
+  resolveProfileForRepo,
+  resolveRepoMapping,
+  expandPath,
 } from "../thoughtsConfig.js";
+import { acquireRepoLock } from "../lock.js";
 
 interface UninitOptions {
   force?: boolean;
@@ -37,7 +41,7 @@ export async function thoughtsUninitCommand(
       process.exit(1);
     }
 
-    const mapping = config.repoMappings[currentRepo];
+    const mapping = resolveRepoMapping(config, currentRepo, options)?.mapping;
     const mappedName = getRepoNameFromMapping(mapping);
     const profileName = getProfileNameFromMapping(mapping);
 
@@ -53,6 +57,14 @@ export async function thoughtsUninitCommand(
       process.exit(1);
     }
 
+    // Don't pull the rug out from under a running sync
+    const thoughtsRepo = expandPath(
+      resolveProfileForRepo(config, currentRepo).thoughtsRepo,
+    );
+    const lock = fs.existsSync(thoughtsRepo)
+      ? await acquireRepoLock(thoughtsRepo, "uninit")
+      : null;
+
     console.log(
       chalk.blue("Removing thoughts setup from current repository..."),
     );
@@ -93,6 +105,8 @@ export async function thoughtsUninitCommand(
       saveThoughtsConfig(config, options);
     }
 
+    lock?.release();
+
     console.log(chalk.green("Thoughts removed from repository"));
 
     // Provide info about what was done
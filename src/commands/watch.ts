@@ -0,0 +1,89 @@
+import chalk from "chalk";
+import {
+  expandPath,
+  loadThoughtsConfig,
+  resolveProfileForRepo,
+  type ResolvedProfileConfig,
+} from "../thoughtsConfig.js";
+import { getMappedThoughtsRepos, watchThoughtsRepos } from "../watcher.js";
+import { getThoughtsRepoStatus, recordStatusSnapshot } from "./status.js";
+
+export interface WatchCommandOptions {
+  debounce?: string;
+  interval?: string;
+  configFile?: string;
+}
+
+function log(message: string): void {
+  console.log(`${chalk.gray(new Date().toISOString())} ${message}`);
+}
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`Invalid number: "${value}"`);
+  }
+  return parsed;
+}
+
+export async function thoughtsWatchCommand(
+  options: WatchCommandOptions,
+): Promise<void> {
+  try {
+    const config = loadThoughtsConfig(options);
+
+    if (!config) {
+      console.error(
+        chalk.red('Error: Thoughts not configured. Run "thoughts init" first.'),
+      );
+      process.exit(1);
+    }
+
+    const debounceSeconds = parsePositive(options.debounce, 5);
+    const intervalSeconds = parsePositive(options.interval, 300);
+
+    const repos = getMappedThoughtsRepos(config);
+    if (repos.length === 0) {
+      console.error(chalk.red("Error: No mapped thoughts repositories found."));
+      console.error('Run "thoughts init" in a repository first.');
+      process.exit(1);
+    }
+
+    const profiles = new Map<string, ResolvedProfileConfig>();
+    for (const repoPath of Object.keys(config.repoMappings)) {
+      const profileConfig = resolveProfileForRepo(config, repoPath);
+      profiles.set(expandPath(profileConfig.thoughtsRepo), profileConfig);
+    }
+
+    const watcher = watchThoughtsRepos(repos, {
+      debounceMs: debounceSeconds * 1000,
+      intervalMs: intervalSeconds * 1000,
+      log,
+      // Keeps "thoughts prompt" current between runs of status and sync
+      onUpdate: (repo) => {
+        const profileConfig = profiles.get(repo);
+        if (profileConfig) {
+          recordStatusSnapshot(getThoughtsRepoStatus(profileConfig));
+        }
+      },
+    });
+
+    repos.forEach((repo) => log(`Watching ${chalk.cyan(repo)}`));
+    log(
+      `Committing ${debounceSeconds}s after the last edit, pulling and pushing every ${intervalSeconds}s`,
+    );
+
+    // Commit pending edits before exiting
+    const shutdown = (signal: string) => {
+      log(`Received ${signal}, stopping`);
+      watcher.stop();
+      process.exit(0);
+    };
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+  } catch (error) {
+    console.error(chalk.red(`Error watching thoughts: ${error}`));
+    process.exit(1);
+  }
+}
@@ -3,11 +3,17 @@ import fs from "fs";
 import path from "path";
 import os from "os";
 import {
+  explainConfigValue,
   getDefaultConfigPath,
   loadConfigFile,
+  loadConfigLayers,
+  parseConfigKey,
+  formatConfigKey,
+  resolveConfigKey,
   saveConfigFile,
   type ConfigFile,
 } from "./config.js";
+import { CONFIG_VERSION } from "./configSchema.js";
 
 describe("config.ts", () => {
   let tmpDir: string;
@@ -71,9 +77,17 @@ describe("config.ts", () => {
         },
       };
       fs.writeFileSync(configPath, JSON.stringify(testConfig));
+      vi.spyOn(console, "error").mockImplementation(() => {});
 
+      // Unversioned files are upgraded to the current shape on load
       const result = loadConfigFile(configPath);
-      expect(result).toEqual(testConfig);
+      expect(result).toEqual({
+        version: CONFIG_VERSION,
+        thoughts: {
+          ...testConfig.thoughts,
+          repoMappings: { "/repo": { repo: "my-repo" } },
+        },
+      });
     });
 
     it("should return empty object when explicit path has invalid JSON", () => {
@@ -118,7 +132,7 @@ describe("config.ts", () => {
 
       try {
         const result = loadConfigFile();
-        expect(result).toEqual(localConfig);
+        expect(result).toEqual({ version: CONFIG_VERSION, ...localConfig });
       } finally {
         process.chdir(originalCwd);
       }
@@ -142,7 +156,7 @@ describe("config.ts", () => {
       saveConfigFile(testConfig, configPath);
 
       const saved = JSON.parse(fs.readFileSync(configPath, "utf8"));
-      expect(saved).toEqual(testConfig);
+      expect(saved).toEqual({ version: CONFIG_VERSION, ...testConfig });
     });
 
     it("should create parent directories if they don't exist", () => {
@@ -154,7 +168,7 @@ describe("config.ts", () => {
 
       expect(fs.existsSync(configPath)).toBe(true);
       const saved = JSON.parse(fs.readFileSync(configPath, "utf8"));
-      expect(saved).toEqual({});
+      expect(saved).toEqual({ version: CONFIG_VERSION });
     });
 
     it("should write formatted JSON (2-space indent)", () => {
@@ -173,7 +187,164 @@ describe("config.ts", () => {
       saveConfigFile(testConfig, configPath);
 
       const raw = fs.readFileSync(configPath, "utf8");
-      expect(raw).toBe(JSON.stringify(testConfig, null, 2));
+      expect(raw).toBe(
+        JSON.stringify({ version: CONFIG_VERSION, ...testConfig }, null, 2),
+      );
+    });
+  });
+
+  describe("layered config", () => {
+    let originalCwd: string;
+    let userPath: string;
+    let systemPath: string;
+    let projectDir: string;
+
+    const readJson = (file: string) =>
+      JSON.parse(fs.readFileSync(file, "utf8"));
+    const writeJson = (file: string, value: object) =>
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ version: CONFIG_VERSION, ...value }, null, 2),
+      );
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      userPath = path.join(tmpDir, "user.json");
+      systemPath = path.join(tmpDir, "system.json");
+      projectDir = path.join(tmpDir, "project");
+      fs.mkdirSync(projectDir);
+      process.chdir(projectDir);
+
+      vi.stubEnv("HUMANLAYER_SYSTEM_CONFIG", systemPath);
+      for (const envVar of [
+        "THOUGHTS_REPO",
+        "THOUGHTS_REPOS_DIR",
+        "THOUGHTS_GLOBAL_DIR",
+        "THOUGHTS_USER",
+      ]) {
+        vi.stubEnv(envVar, "");
+      }
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      writeJson(systemPath, {
+        thoughts: { reposDir: "repos", globalDir: "global" },
+      });
+      writeJson(userPath, {
+        thoughts: {
+          thoughtsRepo: "~/thoughts",
+          user: "alice",
+          repoMappings: { "/src/app": "app" },
+        },
+      });
+      writeJson(path.join(projectDir, "humanlayer.json"), {
+        thoughts: {
+          globalDir: "team-global",
+          repoMappings: { "/src/team.app": "team" },
+        },
+      });
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      vi.unstubAllEnvs();
+    });
+
+    it("should deep-merge system, user, project and env layers", () => {
+      vi.stubEnv("THOUGHTS_USER", "bob");
+
+      expect(loadConfigFile(userPath)).toEqual({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo: "~/thoughts",
+          reposDir: "repos",
+          globalDir: "team-global",
+          user: "bob",
+          repoMappings: { "/src/app": "app", "/src/team.app": "team" },
+        },
+      });
+    });
+
+    it("should not apply env overrides without a configured setup", () => {
+      fs.rmSync(systemPath);
+      fs.rmSync(userPath);
+      fs.rmSync(path.join(projectDir, "humanlayer.json"));
+      vi.stubEnv("THOUGHTS_USER", "bob");
+
+      expect(loadConfigFile(userPath)).toEqual({});
+    });
+
+    it("should explain where a value comes from", () => {
+      vi.stubEnv("THOUGHTS_USER", "bob");
+      const layers = loadConfigLayers(userPath);
+
+      const sources = explainConfigValue(layers, ["thoughts", "user"]);
+      expect(sources.map((source) => source.layer)).toEqual(["env", "user"]);
+      expect(sources[0].envVar).toBe("THOUGHTS_USER");
+      expect(sources[1]).toMatchObject({ path: userPath, value: "alice" });
+
+      expect(
+        explainConfigValue(layers, ["thoughts", "globalDir"])[0],
+      ).toMatchObject({ layer: "project", value: "team-global" });
+    });
+
+    it("should write changes back to the layer they belong to", () => {
+      vi.stubEnv("THOUGHTS_USER", "bob");
+      const config = loadConfigFile(userPath);
+      const thoughts = config.thoughts!;
+      thoughts.repoMappings["/src/new"] = "new";
+      thoughts.repoMappings["/src/team.app"] = {
+        repo: "team",
+        remote: "github.com/org/team",
+      };
+      thoughts.reposDir = "projects";
+      delete thoughts.repoMappings["/src/app"];
+
+      saveConfigFile(config, userPath);
+
+      // Values from the system file and the environment are not copied over
+      expect(readJson(userPath)).toEqual({
+        version: CONFIG_VERSION,
+        thoughts: {
+          thoughtsRepo: "~/thoughts",
+          user: "alice",
+          repoMappings: { "/src/new": "new" },
+          reposDir: "projects",
+        },
+      });
+      expect(readJson(path.join(projectDir, "humanlayer.json"))).toEqual({
+        version: CONFIG_VERSION,
+        thoughts: {
+          globalDir: "team-global",
+          repoMappings: {
+            "/src/team.app": { repo: "team", remote: "github.com/org/team" },
+          },
+        },
+      });
+      expect(readJson(systemPath)).toEqual({
+        version: CONFIG_VERSION,
+        thoughts: { reposDir: "repos", globalDir: "global" },
+      });
+    });
+  });
+
+  describe("parseConfigKey()", () => {
+    it("should split dotted keys and keep bracketed parts whole", () => {
+      expect(parseConfigKey("thoughts.user")).toEqual(["thoughts", "user"]);
+      expect(parseConfigKey('repoMappings["/src/my.app"].repo')).toEqual([
+        "repoMappings",
+        "/src/my.app",
+        "repo",
+      ]);
+    });
+
+    it("should resolve keys relative to the thoughts section", () => {
+      expect(resolveConfigKey("user")).toEqual(["thoughts", "user"]);
+      expect(resolveConfigKey("thoughts.user")).toEqual(["thoughts", "user"]);
+    });
+
+    it("should round-trip through formatConfigKey()", () => {
+      const keyPath = ["thoughts", "repoMappings", "/src/my.app", "profile"];
+      expect(parseConfigKey(formatConfigKey(keyPath))).toEqual(keyPath);
     });
   });
 });
@@ -2,6 +2,7 @@ import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
 import chalk from "chalk";
+import { CONFIG_VERSION, migrateConfigFile } from "./configSchema.js";
 
 // Load environment variables
 dotenv.config();
@@ -9,15 +10,41 @@ dotenv.config();
 export type RepoMappingObject = {
   repo: string;
   profile?: string;
+  remote?: string; // Normalized origin URL, used to find the mapping from other checkouts
 };
 
+// Which git hooks init installs in code repositories: both, only the
+// pre-commit protection without auto-sync, or none
+export type HooksPolicy = "all" | "protect" | "none";
+
+// How thoughts/searchable mirrors the notes: hard links, copy-on-write
+// clones, plain copies or read-only copies. "auto" probes the filesystem.
+export type SearchableStrategy =
+  | "auto"
+  | "hardlink"
+  | "reflink"
+  | "copy"
+  | "mirror";
+
 export type ProfileConfig = {
   thoughtsRepo: string;
   reposDir: string;
   globalDir: string;
+  remote?: string; // URL the thoughts repository is cloned from
+  hooks?: HooksPolicy;
+};
+
+// Picks the profile for repositories that are not mapped yet. A rule matches
+// when every pattern it has matches: path is a glob on the checkout's path,
+// remote a glob on its normalized origin URL (e.g. github.com/acme/*).
+export type ProfileRule = {
+  profile: string;
+  path?: string;
+  remote?: string;
 };
 
 export type ConfigFile = {
+  version?: number; // See CONFIG_VERSION in configSchema.ts
   thoughts?: {
     thoughtsRepo: string;
     reposDir: string;
@@ -25,6 +52,9 @@ export type ConfigFile = {
     user: string;
     repoMappings: Record<string, string | RepoMappingObject>;
     profiles?: Record<string, ProfileConfig>;
+    profileRules?: ProfileRule[];
+    defaultProfile?: string; // Used when no profile rule matches
+    searchableStrategy?: SearchableStrategy;
   };
 };
 
@@ -34,52 +64,452 @@ export function getDefaultConfigPath(): string {
   return path.join(xdgConfigHome, "humanlayer", "humanlayer.json");
 }
 
-export function loadConfigFile(configFile?: string): ConfigFile {
-  if (configFile) {
-    try {
-      const configContent = fs.readFileSync(configFile, "utf8");
-      return JSON.parse(configContent);
-    } catch (error) {
-      console.error(
-        chalk.yellow(
-          `Warning: Could not parse config file ${configFile}: ${error}`,
-        ),
-      );
-      return {};
+export function getDefaultStateDir(): string {
+  const xdgStateHome =
+    process.env.XDG_STATE_HOME ||
+    path.join(process.env.HOME || "", ".local", "state");
+  return path.join(xdgStateHome, "humanlayer");
+}
+
+export type ConfigLayerName = "system" | "user" | "project" | "env";
+
+export interface ConfigLayer {
+  name: ConfigLayerName;
+  path?: string; // File backing the layer; the env layer has none
+  exists: boolean;
+  config: ConfigFile;
+  envVars?: Record<string, string>; // Config key -> variable, for the env layer
+}
+
+export interface ConfigValueSource {
+  layer: ConfigLayerName;
+  path?: string;
+  envVar?: string;
+  value: unknown;
+}
+
+// Environment variables that override single settings, applied last
+export const THOUGHTS_ENV_VARS: Record<string, string> = {
+  THOUGHTS_REPO: "thoughtsRepo",
+  THOUGHTS_REPOS_DIR: "reposDir",
+  THOUGHTS_GLOBAL_DIR: "globalDir",
+  THOUGHTS_USER: "user",
+};
+
+export function getSystemConfigPath(): string {
+  return (
+    process.env.HUMANLAYER_SYSTEM_CONFIG ||
+    path.join("/etc", "humanlayer", "humanlayer.json")
+  );
+}
+
+export function getProjectConfigPath(): string {
+  return path.resolve("humanlayer.json");
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Config values are plain JSON (and Node 16 has no structuredClone)
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  return a === b;
+}
+
+/**
+ * Merges objects key by key; arrays and scalars from the override replace
+ * the base value outright
+ */
+function deepMerge(base: PlainObject, override: PlainObject): PlainObject {
+  const result: PlainObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? deepMerge(result[key] as PlainObject, value)
+        : cloneValue(value);
+  }
+  return result;
+}
+
+/**
+ * Looks up a value by its key path; found distinguishes unset from undefined
+ */
+export function getConfigValue(
+  obj: unknown,
+  keyPath: string[],
+): { found: boolean; value?: unknown } {
+  let current = obj;
+  for (const key of keyPath) {
+    if (!isPlainObject(current) || !(key in current)) return { found: false };
+    current = current[key];
+  }
+  return { found: true, value: current };
+}
+
+export function setConfigValue(
+  obj: object,
+  keyPath: string[],
+  value: unknown,
+): void {
+  let current = obj as PlainObject;
+  for (const key of keyPath.slice(0, -1)) {
+    if (!isPlainObject(current[key])) current[key] = {};
+    current = current[key] as PlainObject;
+  }
+  current[keyPath[keyPath.length - 1]] = cloneValue(value);
+}
+
+export function deleteConfigValue(obj: object, keyPath: string[]): boolean {
+  const parent = getConfigValue(obj, keyPath.slice(0, -1));
+  if (!parent.found || !isPlainObject(parent.value)) return false;
+  const key = keyPath[keyPath.length - 1];
+  if (!(key in parent.value)) return false;
+  delete parent.value[key];
+  return true;
+}
+
+/**
+ * Splits a dotted config key into its parts. Keys containing dots, such as
+ * repository paths, can be written in brackets: repoMappings["/src/my.app"]
+ */
+export function parseConfigKey(key: string): string[] {
+  const parts: string[] = [];
+  const pattern = /\[("(?:[^"\\]|\\.)*"|'[^']*'|[^\]]*)\]|[^.[\]]+/g;
+  for (const match of key.matchAll(pattern)) {
+    const bracketed = match[1];
+    if (bracketed === undefined) {
+      parts.push(match[0]);
+    } else if (bracketed.startsWith('"')) {
+      parts.push(JSON.parse(bracketed));
+    } else if (bracketed.startsWith("'")) {
+      parts.push(bracketed.slice(1, -1));
+    } else {
+      parts.push(bracketed);
     }
   }
+  return parts;
+}
 
-  // these do not merge today
-  const configPaths = ["humanlayer.json", getDefaultConfigPath()];
+/**
+ * Parses a key given on the command line. Keys are relative to the thoughts
+ * section unless spelled out, so "user" and "thoughts.user" are the same.
+ */
+export function resolveConfigKey(key: string): string[] {
+  const parts = parseConfigKey(key);
+  return parts[0] === "thoughts" ? parts : ["thoughts", ...parts];
+}
 
-  for (const configPath of configPaths) {
-    try {
-      if (fs.existsSync(configPath)) {
-        const configContent = fs.readFileSync(configPath, "utf8");
-        return JSON.parse(configContent);
-      }
-    } catch (error) {
-      console.error(
-        chalk.yellow(
-          `Warning: Could not parse config file ${configPath}: ${error}`,
-        ),
-      );
+export function formatConfigKey(keyPath: string[]): string {
+  return keyPath
+    .map((part, i) =>
+      /^[A-Za-z0-9_-]+$/.test(part)
+        ? `${i === 0 ? "" : "."}${part}`
+        : `[${JSON.stringify(part)}]`,
+    )
+    .join("");
+}
+
+function readConfigLayerFile(configPath: string): {
+  exists: boolean;
+  parsed: boolean;
+  config: ConfigFile;
+} {
+  if (!fs.existsSync(configPath)) {
+    return { exists: false, parsed: false, config: {} };
+  }
+  try {
+    const configContent = fs.readFileSync(configPath, "utf8");
+    return { exists: true, parsed: true, config: JSON.parse(configContent) };
+  } catch (error) {
+    console.error(
+      chalk.yellow(
+        `Warning: Could not parse config file ${configPath}: ${error}`,
+      ),
+    );
+    return { exists: true, parsed: false, config: {} };
+  }
+}
+
+/**
+ * Upgrades an older config file in place. Only the user file is rewritten,
+ * after backing up the original; system and project files are upgraded in
+ * memory and saved in the new shape the next time they are written.
+ */
+function migrateConfigLayer(layer: ConfigLayer): void {
+  let result;
+  try {
+    result = migrateConfigFile(layer.config);
+  } catch (error) {
+    throw new Error(
+      `Could not load config file ${layer.path}: ${(error as Error).message}`,
+    );
+  }
+  if (result.applied.length === 0) return;
+
+  layer.config = result.config;
+  if (layer.name !== "user" || !layer.path) return;
+
+  const backupPath = `${layer.path}.v${result.fromVersion}.bak`;
+  if (!fs.existsSync(backupPath)) {
+    fs.copyFileSync(layer.path, backupPath);
+  }
+  writeConfigLayer(layer.path, layer.config);
+  console.error(
+    chalk.yellow(
+      `Upgraded config file ${layer.path} to version ${CONFIG_VERSION} (original saved as ${backupPath})`,
+    ),
+  );
+}
+
+function loadEnvLayer(): ConfigLayer {
+  const thoughts: PlainObject = {};
+  const envVars: Record<string, string> = {};
+  for (const [envVar, key] of Object.entries(THOUGHTS_ENV_VARS)) {
+    const value = process.env[envVar];
+    if (value) {
+      thoughts[key] = value;
+      envVars[formatConfigKey(["thoughts", key])] = envVar;
     }
   }
 
-  return {};
+  const exists = Object.keys(thoughts).length > 0;
+  return {
+    name: "env",
+    exists,
+    config: exists ? ({ thoughts } as ConfigFile) : {},
+    envVars,
+  };
+}
+
+/**
+ * Loads every config layer, lowest precedence first: the system file, the
+ * user file (or the explicit --config-file), the project's humanlayer.json
+ * and THOUGHTS_* environment variables
+ */
+export function loadConfigLayers(configFile?: string): ConfigLayer[] {
+  const files: [ConfigLayerName, string][] = [
+    ["system", getSystemConfigPath()],
+    ["user", configFile || getDefaultConfigPath()],
+    ["project", getProjectConfigPath()],
+  ];
+
+  const layers: ConfigLayer[] = [];
+  const seen = new Set<string>();
+  for (const [name, configPath] of files) {
+    // An explicit config file may be the project file itself
+    const resolved = path.resolve(configPath);
+    if (seen.has(resolved)) continue;
+    seen.add(resolved);
+    const { exists, parsed, config } = readConfigLayerFile(configPath);
+    const layer: ConfigLayer = { name, path: configPath, exists, config };
+    // Never rewrite a file we could not read
+    if (parsed && isPlainObject(config)) {
+      migrateConfigLayer(layer);
+    }
+    layers.push(layer);
+  }
+  layers.push(loadEnvLayer());
+
+  return layers;
+}
+
+export function mergeConfigLayers(layers: ConfigLayer[]): ConfigFile {
+  // Environment overrides only apply on top of a configured setup; on their
+  // own they would produce a partial thoughts config
+  const configured = layers.some(
+    (layer) => layer.name !== "env" && layer.config.thoughts,
+  );
+
+  return layers
+    .filter((layer) => configured || layer.name !== "env")
+    .reduce<PlainObject>(
+      (merged, layer) => deepMerge(merged, layer.config as PlainObject),
+      {},
+    ) as ConfigFile;
+}
+
+/**
+ * Lists the layers that set a config value, highest precedence first. The
+ * first entry is the effective value.
+ */
+export function explainConfigValue(
+  layers: ConfigLayer[],
+  keyPath: string[],
+): ConfigValueSource[] {
+  const key = formatConfigKey(keyPath);
+  const sources: ConfigValueSource[] = [];
+
+  for (const layer of [...layers].reverse()) {
+    const { found, value } = getConfigValue(layer.config, keyPath);
+    if (!found) continue;
+    sources.push({
+      layer: layer.name,
+      path: layer.path,
+      envVar: layer.envVars?.[key],
+      value,
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Lists the paths of all leaf values in a config, for explaining every
+ * effective setting at once
+ */
+export function listConfigKeys(
+  config: unknown,
+  prefix: string[] = [],
+): string[][] {
+  if (!isPlainObject(config) || Object.keys(config).length === 0) {
+    return prefix.length > 0 ? [prefix] : [];
+  }
+  return Object.entries(config).flatMap(([key, value]) =>
+    listConfigKeys(value, [...prefix, key]),
+  );
+}
+
+export function loadConfigFile(configFile?: string): ConfigFile {
+  return mergeConfigLayers(loadConfigLayers(configFile));
 }
 
-export function saveConfigFile(config: ConfigFile, configFile?: string): void {
-  const configPath = configFile || getDefaultConfigPath();
+// The system file is shared by everyone on the machine, so changes to its
+// values are saved as overrides in the user file instead
+function isWritableLayer(layer: ConfigLayer): boolean {
+  return layer.name === "user" || layer.name === "project";
+}
 
-  console.log(chalk.yellow(`Writing config to ${configPath}`));
+/**
+ * Picks the file a changed value belongs in: the one that already sets it or
+ * the mapping/profile entry holding it, otherwise the user file. This keeps
+ * project settings in the project's humanlayer.json.
+ */
+function findOwningLayer(
+  layers: ConfigLayer[],
+  keyPath: string[],
+): ConfigLayer {
+  const fileLayers = layers.filter(isWritableLayer);
+  // Entries such as thoughts.repoMappings.<path> are owned as a whole
+  for (
+    let depth = keyPath.length;
+    depth >= Math.min(3, keyPath.length);
+    depth--
+  ) {
+    const prefix = keyPath.slice(0, depth);
+    const owner = [...fileLayers]
+      .reverse()
+      .find((layer) => getConfigValue(layer.config, prefix).found);
+    if (owner) return owner;
+  }
+  return fileLayers.find((layer) => layer.name === "user")!;
+}
 
+/**
+ * Walks the differences between two configs, reporting values to set (with
+ * their new value) and values to remove
+ */
+function diffConfig(
+  before: unknown,
+  after: unknown,
+  keyPath: string[],
+  onSet: (keyPath: string[], value: unknown) => void,
+  onDelete: (keyPath: string[]) => void,
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const [key, value] of Object.entries(after)) {
+      diffConfig(before[key], value, [...keyPath, key], onSet, onDelete);
+    }
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) onDelete([...keyPath, key]);
+    }
+  } else if (after !== undefined && !isEqual(before, after)) {
+    onSet(keyPath, after);
+  }
+}
+
+function writeConfigLayer(configPath: string, config: ConfigFile): void {
   // Create directory if it doesn't exist
   const configDir = path.dirname(configPath);
   fs.mkdirSync(configDir, { recursive: true });
 
-  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  fs.writeFileSync(
+    configPath,
+    JSON.stringify({ version: CONFIG_VERSION, ...config }, null, 2),
+  );
+}
+
+/**
+ * Saves an updated effective config. Only values that differ from the merged
+ * layers are written, each to the layer it came from, so project, system and
+ * environment settings are never copied into the user file.
+ */
+export function saveConfigFile(
+  config: ConfigFile,
+  configFile?: string,
+  quiet = false,
+): void {
+  const layers = loadConfigLayers(configFile);
+  const userLayer = layers.find((layer) => layer.name === "user")!;
+  const changed = new Set<ConfigLayer>([userLayer]);
+  const overridden: string[] = [];
+
+  diffConfig(
+    mergeConfigLayers(layers),
+    config,
+    [],
+    (keyPath, value) => {
+      const layer = findOwningLayer(layers, keyPath);
+      setConfigValue(layer.config, keyPath, value);
+      changed.add(layer);
+
+      const envVar = layers.find((candidate) => candidate.name === "env")
+        ?.envVars?.[formatConfigKey(keyPath)];
+      if (envVar) overridden.push(envVar);
+    },
+    (keyPath) => {
+      // Removing a value means removing it from every file that sets it
+      for (const layer of layers) {
+        if (
+          isWritableLayer(layer) &&
+          deleteConfigValue(layer.config, keyPath)
+        ) {
+          changed.add(layer);
+        }
+      }
+    },
+  );
 
-  console.log(chalk.green("Config saved successfully"));
+  for (const layer of changed) {
+    if (!quiet) {
+      console.log(chalk.yellow(`Writing config to ${layer.path}`));
+    }
+    writeConfigLayer(layer.path!, layer.config);
+  }
+
+  if (!quiet) {
+    console.log(chalk.green("Config saved successfully"));
+  }
+  for (const envVar of overridden) {
+    console.error(
+      chalk.yellow(
+        `Warning: ${envVar} is set and overrides the saved value of ${THOUGHTS_ENV_VARS[envVar]}`,
+      ),
+    );
+  }
 }
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  CONFIG_VERSION,
+  formatSchemaError,
+  getConfigKeyType,
+  migrateConfigFile,
+  parseConfigValue,
+  validateConfigChange,
+  validateConfigFile,
+} from "./configSchema.js";
+import { loadConfigFile } from "./config.js";
+import { loadThoughtsConfig } from "./thoughtsConfig.js";
+
+describe("configSchema.ts", () => {
+  let tmpDir: string;
+  let configPath: string;
+
+  const legacyConfig = {
+    thoughts: {
+      thoughtsRepo: "~/thoughts",
+      reposDir: "repos",
+      globalDir: "global",
+      user: "alice",
+      repoMappings: {
+        "/src/app": "app",
+        "/src/work": { repo: "work", profile: "work" },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-schema-test-"));
+    configPath = path.join(tmpDir, "humanlayer.json");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("migrateConfigFile()", () => {
+    it("should convert string mappings and set the version", () => {
+      const result = migrateConfigFile(legacyConfig);
+
+      expect(result.fromVersion).toBe(1);
+      expect(result.applied.map((migration) => migration.version)).toEqual([2]);
+      expect(result.config.version).toBe(CONFIG_VERSION);
+      expect(result.config.thoughts?.repoMappings).toEqual({
+        "/src/app": { repo: "app" },
+        "/src/work": { repo: "work", profile: "work" },
+      });
+      // The original is left alone for the backup
+      expect(legacyConfig.thoughts.repoMappings["/src/app"]).toBe("app");
+    });
+
+    it("should leave current files alone", () => {
+      const current = {
+        version: CONFIG_VERSION,
+        thoughts: legacyConfig.thoughts,
+      };
+      expect(migrateConfigFile(current).applied).toEqual([]);
+    });
+
+    it("should refuse files from a newer version", () => {
+      expect(() => migrateConfigFile({ version: CONFIG_VERSION + 1 })).toThrow(
+        /newer than this thoughts CLI supports/,
+      );
+    });
+  });
+
+  describe("loading older config files", () => {
+    it("should upgrade the user file and keep a backup", () => {
+      const original = JSON.stringify(legacyConfig);
+      fs.writeFileSync(configPath, original);
+
+      const config = loadConfigFile(configPath);
+
+      expect(config.version).toBe(CONFIG_VERSION);
+      expect(fs.readFileSync(`${configPath}.v1.bak`, "utf8")).toBe(original);
+      expect(JSON.parse(fs.readFileSync(configPath, "utf8"))).toEqual(config);
+
+      // Loading again is a no-op
+      loadConfigFile(configPath);
+      expect(fs.readdirSync(tmpDir).sort()).toEqual([
+        "humanlayer.json",
+        "humanlayer.json.v1.bak",
+      ]);
+    });
+
+    it("should not rewrite a file that cannot be parsed", () => {
+      fs.writeFileSync(configPath, "{ broken");
+
+      expect(loadConfigFile(configPath)).toEqual({});
+      expect(fs.readFileSync(configPath, "utf8")).toBe("{ broken");
+    });
+  });
+
+  describe("validateConfigFile()", () => {
+    it("should accept a valid config", () => {
+      expect(
+        validateConfigFile(migrateConfigFile(legacyConfig).config),
+      ).toEqual([]);
+    });
+
+    it("should point at the exact JSON path of each problem", () => {
+      const errors = validateConfigFile({
+        version: "2",
+        thoughts: {
+          ...legacyConfig.thoughts,
+          reposDir: "",
+          repoMappings: {
+            "/src/my.app": { profile: "work" },
+            "/src/other": ["x"],
+          },
+          profiles: { work: { thoughtsRepo: "~/work", globalDir: "global" } },
+        },
+      });
+
+      expect(errors.map(formatSchemaError)).toEqual([
+        "version must be a positive integer",
+        "thoughts.reposDir must be a non-empty string",
+        'thoughts.repoMappings["/src/my.app"].repo must be a non-empty string',
+        'thoughts.repoMappings["/src/other"] must be an object with "repo" and optional "profile", "remote"',
+        "thoughts.profiles.work.reposDir must be a non-empty string",
+      ]);
+    });
+
+    it("should check a profile's remote and hooks policy", () => {
+      const errors = validateConfigFile({
+        version: CONFIG_VERSION,
+        thoughts: {
+          ...legacyConfig.thoughts,
+          profiles: {
+            work: {
+              thoughtsRepo: "~/work",
+              reposDir: "repos",
+              globalDir: "global",
+              remote: "",
+              hooks: "some",
+            },
+          },
+        },
+      });
+
+      expect(errors.map(formatSchemaError)).toEqual([
+        "thoughts.profiles.work.remote must be a non-empty string",
+        'thoughts.profiles.work.hooks must be one of "all", "protect", "none"',
+      ]);
+    });
+
+    it("should check profile rules", () => {
+      const errors = validateConfigFile({
+        version: CONFIG_VERSION,
+        thoughts: {
+          ...legacyConfig.thoughts,
+          profileRules: [
+            { profile: "work", path: "~/work/**" },
+            { profile: "oss" },
+            { path: "~/oss/**" },
+            "work",
+          ],
+          defaultProfile: "",
+        },
+      });
+
+      expect(errors.map(formatSchemaError)).toEqual([
+        'thoughts.profileRules.1 must have a "path" or "remote" pattern',
+        "thoughts.profileRules.2.profile must be a non-empty string",
+        'thoughts.profileRules.3 must be an object with "profile" and "path" or "remote"',
+        "thoughts.defaultProfile must be a non-empty string",
+      ]);
+    });
+
+    it("should check the searchable strategy", () => {
+      const errors = validateConfigFile({
+        version: CONFIG_VERSION,
+        thoughts: { ...legacyConfig.thoughts, searchableStrategy: "symlink" },
+      });
+
+      expect(errors.map(formatSchemaError)).toEqual([
+        'thoughts.searchableStrategy must be one of "auto", "hardlink", "reflink", "copy", "mirror"',
+      ]);
+    });
+
+    it("should allow partial layers to omit required fields", () => {
+      expect(
+        validateConfigFile({ thoughts: { globalDir: "team" } }, true),
+      ).toEqual([]);
+    });
+  });
+
+  describe("loadThoughtsConfig()", () => {
+    it("should reject an invalid config naming the path and file", () => {
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          version: CONFIG_VERSION,
+          thoughts: {
+            ...legacyConfig.thoughts,
+            profiles: { work: { thoughtsRepo: "~/work", reposDir: 3 } },
+          },
+        }),
+      );
+
+      expect(() => loadThoughtsConfig({ configFile: configPath })).toThrow(
+        `thoughts.profiles.work.reposDir must be a non-empty string (from ${configPath})`,
+      );
+    });
+  });
+
+  describe("parseConfigValue()", () => {
+    it("should know the type of every settable key", () => {
+      expect(getConfigKeyType(["thoughts", "user"])).toBe("string");
+      expect(
+        getConfigKeyType(["thoughts", "repoMappings", "/src/my.app"]),
+      ).toBe("mapping");
+      expect(
+        getConfigKeyType(["thoughts", "profiles", "work", "reposDir"]),
+      ).toBe("string");
+      expect(getConfigKeyType(["thoughts", "colour"])).toBeUndefined();
+    });
+
+    it("should take strings as is and require JSON for objects", () => {
+      expect(parseConfigValue(["thoughts", "user"], "{}")).toBe("{}");
+      expect(
+        parseConfigValue(["thoughts", "profiles", "work"], '{"reposDir":"r"}'),
+      ).toEqual({ reposDir: "r" });
+      expect(() =>
+        parseConfigValue(["thoughts", "profiles", "work"], "projects"),
+      ).toThrow(/expects a JSON object/);
+      expect(() => parseConfigValue(["thoughts", "colour"], "red")).toThrow(
+        "Unknown config key: thoughts.colour",
+      );
+    });
+
+    it("should accept a bare directory name as a mapping", () => {
+      const keyPath = ["thoughts", "repoMappings", "/src/app"];
+      expect(parseConfigValue(keyPath, "app")).toBe("app");
+      expect(parseConfigValue(keyPath, '{"repo":"app"}')).toEqual({
+        repo: "app",
+      });
+    });
+
+    it("should require a JSON array for profile rules", () => {
+      const keyPath = ["thoughts", "profileRules"];
+      expect(
+        parseConfigValue(keyPath, '[{"profile":"work","path":"~/work/**"}]'),
+      ).toEqual([{ profile: "work", path: "~/work/**" }]);
+      expect(() => parseConfigValue(keyPath, '{"profile":"work"}')).toThrow(
+        /expects a JSON array/,
+      );
+    });
+  });
+
+  describe("validateConfigChange()", () => {
+    it("should only report problems the change introduces", () => {
+      const before = {
+        thoughts: { ...legacyConfig.thoughts, reposDir: "" },
+      };
+      const after = {
+        thoughts: { ...before.thoughts, user: "" },
+      };
+
+      expect(
+        validateConfigChange(before, after).map(formatSchemaError),
+      ).toEqual(["thoughts.user must be a non-empty string"]);
+      expect(validateConfigChange(after, before)).toEqual([]);
+    });
+  });
+});
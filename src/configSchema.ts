@@ -0,0 +1,445 @@
+import {
+  formatConfigKey,
+  type ConfigFile,
+  type HooksPolicy,
+  type SearchableStrategy,
+} from "./config.js";
+
+// Files without a version field predate versioning and count as version 1
+export const CONFIG_VERSION = 2;
+
+export interface ConfigSchemaError {
+  path: string[]; // JSON path of the offending value
+  message: string;
+}
+
+export interface ConfigMigration {
+  version: number; // Version the migration upgrades to
+  description: string;
+  migrate: (config: Record<string, unknown>) => void;
+}
+
+export interface MigrationResult {
+  config: ConfigFile;
+  fromVersion: number;
+  applied: ConfigMigration[];
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export const HOOKS_POLICIES: HooksPolicy[] = ["all", "protect", "none"];
+
+export const SEARCHABLE_STRATEGIES: SearchableStrategy[] = [
+  "auto",
+  "hardlink",
+  "reflink",
+  "copy",
+  "mirror",
+];
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: "Convert string repository mappings to objects",
+    migrate: (config) => {
+      const thoughts = config.thoughts;
+      if (!isPlainObject(thoughts) || !isPlainObject(thoughts.repoMappings)) {
+        return;
+      }
+      for (const [repoPath, mapping] of Object.entries(thoughts.repoMappings)) {
+        if (typeof mapping === "string") {
+          thoughts.repoMappings[repoPath] = { repo: mapping };
+        }
+      }
+    },
+  },
+];
+
+// What a settable key holds; "mapping" is a directory name or mapping object
+export type ConfigValueType = "string" | "object" | "mapping" | "list";
+
+// Every key that can be read or changed by path. "*" stands for a repository
+// path in repoMappings or a profile name.
+const CONFIG_KEYS: [string[], ConfigValueType][] = [
+  [["thoughts"], "object"],
+  [["thoughts", "thoughtsRepo"], "string"],
+  [["thoughts", "reposDir"], "string"],
+  [["thoughts", "globalDir"], "string"],
+  [["thoughts", "user"], "string"],
+  [["thoughts", "repoMappings"], "object"],
+  [["thoughts", "repoMappings", "*"], "mapping"],
+  [["thoughts", "repoMappings", "*", "repo"], "string"],
+  [["thoughts", "repoMappings", "*", "profile"], "string"],
+  [["thoughts", "repoMappings", "*", "remote"], "string"],
+  [["thoughts", "profiles"], "object"],
+  [["thoughts", "profiles", "*"], "object"],
+  [["thoughts", "profiles", "*", "thoughtsRepo"], "string"],
+  [["thoughts", "profiles", "*", "reposDir"], "string"],
+  [["thoughts", "profiles", "*", "globalDir"], "string"],
+  [["thoughts", "profiles", "*", "remote"], "string"],
+  [["thoughts", "profiles", "*", "hooks"], "string"],
+  [["thoughts", "profileRules"], "list"],
+  [["thoughts", "defaultProfile"], "string"],
+  [["thoughts", "searchableStrategy"], "string"],
+];
+
+export function getConfigKeyType(
+  keyPath: string[],
+): ConfigValueType | undefined {
+  const entry = CONFIG_KEYS.find(
+    ([pattern]) =>
+      pattern.length === keyPath.length &&
+      pattern.every((part, i) => part === "*" || part === keyPath[i]),
+  );
+  return entry?.[1];
+}
+
+/**
+ * Turns a value given on the command line into the type its key holds.
+ * Strings are taken as is; objects must be given as JSON.
+ */
+export function parseConfigValue(keyPath: string[], raw: string): unknown {
+  const type = getConfigKeyType(keyPath);
+  if (!type) {
+    throw new Error(`Unknown config key: ${formatConfigKey(keyPath)}`);
+  }
+  if (type === "string") return raw;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    // A bare directory name is a valid mapping
+    if (type === "mapping") return raw;
+    throw new Error(
+      `${formatConfigKey(keyPath)} expects a JSON object, got ${JSON.stringify(raw)}`,
+    );
+  }
+  if (type === "mapping" && typeof value === "string") return value;
+  if (type === "list") {
+    if (!Array.isArray(value)) {
+      throw new Error(
+        `${formatConfigKey(keyPath)} expects a JSON array, got ${JSON.stringify(raw)}`,
+      );
+    }
+    return value;
+  }
+  if (!isPlainObject(value)) {
+    throw new Error(
+      `${formatConfigKey(keyPath)} expects a JSON object, got ${JSON.stringify(raw)}`,
+    );
+  }
+  return value;
+}
+
+export function formatSchemaError(error: ConfigSchemaError): string {
+  const where = error.path.length > 0 ? formatConfigKey(error.path) : "config";
+  return `${where} ${error.message}`;
+}
+
+function checkConfigVersion(config: PlainObject): ConfigSchemaError | null {
+  const version = config.version;
+  if (version === undefined) return null;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    return { path: ["version"], message: "must be a positive integer" };
+  }
+  if (version > CONFIG_VERSION) {
+    return {
+      path: ["version"],
+      message: `${version} is newer than this thoughts CLI supports (${CONFIG_VERSION}); please upgrade`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Reads the version of a config file, rejecting versions this CLI cannot
+ * read rather than guessing at their shape
+ */
+export function getConfigVersion(config: PlainObject): number {
+  const error = checkConfigVersion(config);
+  if (error) throw new Error(formatSchemaError(error));
+  return (config.version as number | undefined) ?? 1;
+}
+
+/**
+ * Upgrades a parsed config file to the current version. The input is left
+ * untouched so callers can still back up the original.
+ */
+export function migrateConfigFile(config: ConfigFile): MigrationResult {
+  const fromVersion = getConfigVersion(config as PlainObject);
+  const migrated = JSON.parse(JSON.stringify(config)) as PlainObject;
+  const applied = CONFIG_MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion,
+  );
+
+  for (const migration of applied) {
+    migration.migrate(migrated);
+  }
+  if (applied.length > 0) {
+    // Keep the version first so it is easy to spot in the file
+    return {
+      config: { version: CONFIG_VERSION, ...migrated } as ConfigFile,
+      fromVersion,
+      applied,
+    };
+  }
+
+  return { config: migrated as ConfigFile, fromVersion, applied };
+}
+
+function validateRepoMapping(
+  mapping: unknown,
+  keyPath: string[],
+  errors: ConfigSchemaError[],
+): void {
+  if (typeof mapping === "string") {
+    if (!isNonEmptyString(mapping)) {
+      errors.push({ path: keyPath, message: "must be a non-empty string" });
+    }
+    return;
+  }
+  if (!isPlainObject(mapping)) {
+    errors.push({
+      path: keyPath,
+      message: 'must be an object with "repo" and optional "profile", "remote"',
+    });
+    return;
+  }
+
+  if (!isNonEmptyString(mapping.repo)) {
+    errors.push({
+      path: [...keyPath, "repo"],
+      message: "must be a non-empty string",
+    });
+  }
+  for (const field of ["profile", "remote"]) {
+    if (mapping[field] !== undefined && !isNonEmptyString(mapping[field])) {
+      errors.push({
+        path: [...keyPath, field],
+        message: "must be a non-empty string",
+      });
+    }
+  }
+}
+
+/**
+ * Checks a single profile, as stored in the config or in an exported profile
+ * file
+ */
+export function validateProfileConfig(
+  profile: unknown,
+  keyPath: string[],
+  partial = false,
+): ConfigSchemaError[] {
+  if (!isPlainObject(profile)) {
+    return [{ path: keyPath, message: "must be an object" }];
+  }
+
+  const errors: ConfigSchemaError[] = [];
+  for (const field of ["thoughtsRepo", "reposDir", "globalDir"]) {
+    if (profile[field] === undefined && partial) continue;
+    if (!isNonEmptyString(profile[field])) {
+      errors.push({
+        path: [...keyPath, field],
+        message: "must be a non-empty string",
+      });
+    }
+  }
+  if (profile.remote !== undefined && !isNonEmptyString(profile.remote)) {
+    errors.push({
+      path: [...keyPath, "remote"],
+      message: "must be a non-empty string",
+    });
+  }
+  if (
+    profile.hooks !== undefined &&
+    !HOOKS_POLICIES.includes(profile.hooks as HooksPolicy)
+  ) {
+    errors.push({
+      path: [...keyPath, "hooks"],
+      message: `must be one of ${HOOKS_POLICIES.map((policy) => `"${policy}"`).join(", ")}`,
+    });
+  }
+  return errors;
+}
+
+function validateProfileRules(
+  rules: unknown,
+  keyPath: string[],
+  errors: ConfigSchemaError[],
+): void {
+  if (!Array.isArray(rules)) {
+    errors.push({ path: keyPath, message: "must be an array" });
+    return;
+  }
+
+  rules.forEach((rule: unknown, index) => {
+    const rulePath = [...keyPath, String(index)];
+    if (!isPlainObject(rule)) {
+      errors.push({
+        path: rulePath,
+        message: 'must be an object with "profile" and "path" or "remote"',
+      });
+      return;
+    }
+    for (const field of ["profile", "path", "remote"]) {
+      if (
+        (rule[field] !== undefined || field === "profile") &&
+        !isNonEmptyString(rule[field])
+      ) {
+        errors.push({
+          path: [...rulePath, field],
+          message: "must be a non-empty string",
+        });
+      }
+    }
+    if (rule.path === undefined && rule.remote === undefined) {
+      errors.push({
+        path: rulePath,
+        message: 'must have a "path" or "remote" pattern',
+      });
+    }
+  });
+}
+
+/**
+ * Checks the thoughts section of a config. With partial set, required fields
+ * may be missing, as in a single layer that only overrides a few settings.
+ */
+export function validateThoughtsConfig(
+  thoughts: unknown,
+  keyPath: string[] = ["thoughts"],
+  partial = false,
+): ConfigSchemaError[] {
+  const errors: ConfigSchemaError[] = [];
+  if (!isPlainObject(thoughts)) {
+    return [{ path: keyPath, message: "must be an object" }];
+  }
+
+  const checkString = (obj: PlainObject, field: string, objPath: string[]) => {
+    if (obj[field] === undefined && partial) return;
+    if (!isNonEmptyString(obj[field])) {
+      errors.push({
+        path: [...objPath, field],
+        message: "must be a non-empty string",
+      });
+    }
+  };
+
+  for (const field of ["thoughtsRepo", "reposDir", "globalDir", "user"]) {
+    checkString(thoughts, field, keyPath);
+  }
+
+  const mappings = thoughts.repoMappings;
+  if (mappings !== undefined || !partial) {
+    if (!isPlainObject(mappings)) {
+      errors.push({
+        path: [...keyPath, "repoMappings"],
+        message: "must be an object",
+      });
+    } else {
+      for (const [repoPath, mapping] of Object.entries(mappings)) {
+        validateRepoMapping(
+          mapping,
+          [...keyPath, "repoMappings", repoPath],
+          errors,
+        );
+      }
+    }
+  }
+
+  const profiles = thoughts.profiles;
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) {
+      errors.push({
+        path: [...keyPath, "profiles"],
+        message: "must be an object",
+      });
+    } else {
+      for (const [name, profile] of Object.entries(profiles)) {
+        errors.push(
+          ...validateProfileConfig(
+            profile,
+            [...keyPath, "profiles", name],
+            partial,
+          ),
+        );
+      }
+    }
+  }
+
+  if (thoughts.profileRules !== undefined) {
+    validateProfileRules(
+      thoughts.profileRules,
+      [...keyPath, "profileRules"],
+      errors,
+    );
+  }
+  if (thoughts.defaultProfile !== undefined) {
+    checkString(thoughts, "defaultProfile", keyPath);
+  }
+  if (
+    thoughts.searchableStrategy !== undefined &&
+    !SEARCHABLE_STRATEGIES.includes(
+      thoughts.searchableStrategy as SearchableStrategy,
+    )
+  ) {
+    errors.push({
+      path: [...keyPath, "searchableStrategy"],
+      message: `must be one of ${SEARCHABLE_STRATEGIES.map((strategy) => `"${strategy}"`).join(", ")}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a whole config file; a file without a thoughts section is valid
+ */
+export function validateConfigFile(
+  config: unknown,
+  partial = false,
+): ConfigSchemaError[] {
+  if (!isPlainObject(config)) {
+    return [{ path: [], message: "must be a JSON object" }];
+  }
+
+  const errors: ConfigSchemaError[] = [];
+  const versionError = checkConfigVersion(config);
+  if (versionError) errors.push(versionError);
+  if (config.thoughts !== undefined) {
+    errors.push(
+      ...validateThoughtsConfig(config.thoughts, ["thoughts"], partial),
+    );
+  }
+  return errors;
+}
+
+/**
+ * Lists the problems a change introduces, ignoring ones the config already
+ * had, so a broken config can still be repaired one key at a time
+ */
+export function validateConfigChange(
+  before: ConfigFile,
+  after: ConfigFile,
+): ConfigSchemaError[] {
+  const existing = new Set(
+    validateConfigFile(before).map((error) => formatSchemaError(error)),
+  );
+  return validateConfigFile(after).filter(
+    (error) => !existing.has(formatSchemaError(error)),
+  );
+}
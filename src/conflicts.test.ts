@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  abortRebase,
+  continueRebase,
+  getConflictCopyPath,
+  hasConflictMarkers,
+  isRebaseInProgress,
+  listConflictedFiles,
+  markResolved,
+  resolveConflict,
+} from "./conflicts.js";
+
+describe("conflicts.ts", () => {
+  let tmpDir: string;
+
+  const run = (command: string) =>
+    execSync(command, { cwd: tmpDir, stdio: "pipe", encoding: "utf8" });
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, file), content);
+  };
+
+  const read = (file: string) =>
+    fs.readFileSync(path.join(tmpDir, file), "utf8");
+
+  const commitAll = (message: string) => {
+    run("git add -A");
+    run(`git commit -m ${message}`);
+  };
+
+  // Diverges master ("mine") from upstream ("theirs") and starts a rebase
+  const startConflictingRebase = (files: Record<string, [string, string]>) => {
+    for (const file of Object.keys(files)) write(file, "base\n");
+    commitAll("base");
+    run("git branch upstream");
+
+    for (const [file, [mine]] of Object.entries(files)) write(file, mine);
+    commitAll("mine");
+
+    run("git checkout -q upstream");
+    for (const [file, [, theirs]] of Object.entries(files)) {
+      write(file, theirs);
+    }
+    commitAll("theirs");
+    run("git checkout -q master");
+
+    expect(() => run("git rebase upstream")).toThrow();
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-conflict-test-"));
+    run("git init -q -b master");
+    // Continuing a rebase commits, which needs an identity
+    run("git config user.name test && git config user.email t@x");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should detect a conflicted rebase", () => {
+    expect(isRebaseInProgress(tmpDir)).toBe(false);
+
+    startConflictingRebase({
+      "alice/plan.md": ["mine\n", "theirs\n"],
+      "shared/notes.md": ["mine\n", "theirs\n"],
+    });
+
+    expect(isRebaseInProgress(tmpDir)).toBe(true);
+    expect(listConflictedFiles(tmpDir).sort()).toEqual([
+      "alice/plan.md",
+      "shared/notes.md",
+    ]);
+    expect(hasConflictMarkers(read("alice/plan.md"))).toBe(true);
+
+    abortRebase(tmpDir);
+    expect(isRebaseInProgress(tmpDir)).toBe(false);
+    expect(read("alice/plan.md")).toBe("mine\n");
+  });
+
+  it("should keep mine or theirs", () => {
+    startConflictingRebase({
+      "a.md": ["mine a\n", "theirs a\n"],
+      "b.md": ["mine b\n", "theirs b\n"],
+    });
+
+    expect(resolveConflict(tmpDir, "a.md", "mine", "alice")).toBeNull();
+    expect(resolveConflict(tmpDir, "b.md", "theirs", "alice")).toBeNull();
+    expect(listConflictedFiles(tmpDir)).toEqual([]);
+
+    expect(continueRebase(tmpDir)).toBe("done");
+    expect(read("a.md")).toBe("mine a\n");
+    expect(read("b.md")).toBe("theirs b\n");
+    expect(run("git log --format=%s")).toBe("mine\ntheirs\nbase\n");
+  });
+
+  it("should keep both versions side by side", () => {
+    startConflictingRebase({ "notes/plan.md": ["mine\n", "theirs\n"] });
+
+    expect(resolveConflict(tmpDir, "notes/plan.md", "both", "alice")).toBe(
+      "notes/plan.conflict-alice.md",
+    );
+    expect(continueRebase(tmpDir)).toBe("done");
+    expect(read("notes/plan.md")).toBe("theirs\n");
+    expect(read("notes/plan.conflict-alice.md")).toBe("mine\n");
+  });
+
+  it("should finish when a resolution leaves nothing to commit", () => {
+    startConflictingRebase({ "a.md": ["mine\n", "theirs\n"] });
+
+    resolveConflict(tmpDir, "a.md", "theirs", "alice");
+    expect(continueRebase(tmpDir)).toBe("done");
+    expect(isRebaseInProgress(tmpDir)).toBe(false);
+    expect(read("a.md")).toBe("theirs\n");
+  });
+
+  it("should handle files deleted on one side", () => {
+    write("a.md", "base\n");
+    commitAll("base");
+    run("git branch upstream");
+    write("a.md", "mine\n");
+    commitAll("mine");
+    run("git checkout -q upstream");
+    run("git rm -q a.md");
+    commitAll("theirs");
+    run("git checkout -q master");
+    expect(() => run("git rebase upstream")).toThrow();
+
+    expect(listConflictedFiles(tmpDir)).toEqual(["a.md"]);
+    resolveConflict(tmpDir, "a.md", "theirs", "alice");
+    expect(continueRebase(tmpDir)).toBe("done");
+    expect(fs.existsSync(path.join(tmpDir, "a.md"))).toBe(false);
+  });
+
+  it("should stage files resolved by hand", () => {
+    startConflictingRebase({ "a.md": ["mine\n", "theirs\n"] });
+
+    write("a.md", "merged\n");
+    markResolved(tmpDir, "a.md");
+    expect(listConflictedFiles(tmpDir)).toEqual([]);
+    expect(continueRebase(tmpDir)).toBe("done");
+    expect(read("a.md")).toBe("merged\n");
+  });
+
+  describe("getConflictCopyPath()", () => {
+    it("should pick an unused sibling name", () => {
+      expect(getConflictCopyPath(tmpDir, "x/plan.md", "bob")).toBe(
+        "x/plan.conflict-bob.md",
+      );
+
+      write("x/plan.conflict-bob.md", "");
+      expect(getConflictCopyPath(tmpDir, "x/plan.md", "bob")).toBe(
+        "x/plan.conflict-bob-2.md",
+      );
+    });
+  });
+
+  describe("hasConflictMarkers()", () => {
+    it("should require both start and end markers", () => {
+      expect(
+        hasConflictMarkers("<<<<<<< HEAD\na\n=======\nb\n>>>>>>> x\n"),
+      ).toBe(true);
+      expect(hasConflictMarkers("a\n=======\nb\n")).toBe(false);
+    });
+  });
+});
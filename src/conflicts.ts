@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+
+export type ConflictChoice = "mine" | "theirs" | "both";
+
+// While rebasing, index stage 2 ("ours") is the upstream being rebased onto
+// and stage 3 ("theirs") is the local commit being replayed
+const STAGE_UPSTREAM = 2;
+const STAGE_LOCAL = 3;
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: repoPath,
+    encoding: "utf8",
+    stdio: "pipe",
+    // Never open an editor for commit messages while continuing
+    env: { ...process.env, GIT_EDITOR: "true" },
+  });
+}
+
+export function isRebaseInProgress(repoPath: string): boolean {
+  return ["rebase-merge", "rebase-apply"].some((name) => {
+    try {
+      const gitPath = git(repoPath, ["rev-parse", "--git-path", name]).trim();
+      return fs.existsSync(path.resolve(repoPath, gitPath));
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Returns the repo-relative paths of files with unresolved conflicts
+ */
+export function listConflictedFiles(repoPath: string): string[] {
+  return git(repoPath, ["diff", "--name-only", "--diff-filter=U", "-z"])
+    .split("\0")
+    .filter((file) => file);
+}
+
+function readStage(
+  repoPath: string,
+  stage: number,
+  file: string,
+): Buffer | null {
+  try {
+    return execFileSync("git", ["show", `:${stage}:${file}`], {
+      cwd: repoPath,
+      stdio: "pipe",
+    });
+  } catch {
+    // The file was deleted on that side
+    return null;
+  }
+}
+
+function writeOrRemove(fullPath: string, content: Buffer | null): void {
+  if (content === null) {
+    fs.rmSync(fullPath, { force: true });
+  } else {
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+}
+
+/**
+ * Returns an unused sibling path for keeping a user's side of a conflict,
+ * e.g. notes/plan.md -> notes/plan.conflict-alice.md
+ */
+export function getConflictCopyPath(
+  repoPath: string,
+  file: string,
+  user: string,
+): string {
+  const ext = path.extname(file);
+  const base = file.slice(0, file.length - ext.length);
+
+  let candidate = `${base}.conflict-${user}${ext}`;
+  for (let n = 2; fs.existsSync(path.join(repoPath, candidate)); n++) {
+    candidate = `${base}.conflict-${user}-${n}${ext}`;
+  }
+  return candidate;
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}( |$)/m.test(content) && /^>{7}( |$)/m.test(content);
+}
+
+/**
+ * Resolves a conflicted file during a rebase and stages the result.
+ * "mine" keeps the local version, "theirs" the upstream version, and "both"
+ * keeps upstream in place with the local version in a .conflict-<user> copy.
+ * Returns the path of the copy for "both", otherwise null.
+ */
+export function resolveConflict(
+  repoPath: string,
+  file: string,
+  choice: ConflictChoice,
+  user: string,
+): string | null {
+  const local = readStage(repoPath, STAGE_LOCAL, file);
+  const upstream = readStage(repoPath, STAGE_UPSTREAM, file);
+  const fullPath = path.join(repoPath, file);
+
+  if (choice === "mine") {
+    writeOrRemove(fullPath, local);
+  } else {
+    writeOrRemove(fullPath, upstream);
+  }
+  git(repoPath, ["add", "-A", "--", file]);
+
+  if (choice !== "both" || local === null) {
+    return null;
+  }
+
+  const copy = getConflictCopyPath(repoPath, file, user);
+  writeOrRemove(path.join(repoPath, copy), local);
+  git(repoPath, ["add", "--", copy]);
+  return copy;
+}
+
+/**
+ * Stages a file that was resolved by hand
+ */
+export function markResolved(repoPath: string, file: string): void {
+  git(repoPath, ["add", "-A", "--", file]);
+}
+
+/**
+ * Continues a rebase once all conflicts are staged. Returns "conflict" if
+ * replaying the next commit stopped on new conflicts, "done" otherwise.
+ */
+export function continueRebase(repoPath: string): "done" | "conflict" {
+  try {
+    git(repoPath, ["rebase", "--continue"]);
+  } catch (error) {
+    if (
+      isRebaseInProgress(repoPath) &&
+      listConflictedFiles(repoPath).length > 0
+    ) {
+      return "conflict";
+    }
+    throw error;
+  }
+
+  return isRebaseInProgress(repoPath) ? "conflict" : "done";
+}
+
+export function abortRebase(repoPath: string): void {
+  git(repoPath, ["rebase", "--abort"]);
+}
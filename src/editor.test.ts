@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { openInEditor } from "./editor.js";
+
+describe("editor.ts", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-editor-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  it("should pass the file to an editor configured with arguments", () => {
+    const editor = path.join(tmpDir, "editor");
+    const args = path.join(tmpDir, "args");
+    fs.writeFileSync(editor, `#!/bin/sh\nprintf '%s\\n' "$@" > "${args}"\n`);
+    fs.chmodSync(editor, 0o755);
+    vi.stubEnv("EDITOR", `${editor} --wait`);
+
+    const file = path.join(tmpDir, `it's $HOME "quoted".md`);
+    openInEditor(file);
+
+    expect(fs.readFileSync(args, "utf8")).toBe(`--wait\n${file}\n`);
+  });
+});
@@ -0,0 +1,14 @@
+import { spawnSync } from "child_process";
+
+/**
+ * Opens filePath in $EDITOR (vi if unset) and waits for it to exit. Runs
+ * through the shell so editors configured with arguments, such as
+ * "code --wait", work; the path goes in as $1 so quotes or $ in it are
+ * never interpreted.
+ */
+export function openInEditor(filePath: string): void {
+  const editor = process.env.EDITOR || "vi";
+  spawnSync("sh", ["-c", `${editor} "$1"`, "sh", filePath], {
+    stdio: "inherit",
+  });
+}
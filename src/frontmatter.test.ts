@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractTitle,
+  parseFrontmatter,
+  setFrontmatter,
+  stringifyFrontmatter,
+} from "./frontmatter.js";
+
+describe("frontmatter.ts", () => {
+  describe("parseFrontmatter()", () => {
+    it("should return empty data for notes without frontmatter", () => {
+      const result = parseFrontmatter("# Title\n\nBody");
+      expect(result).toEqual({
+        data: {},
+        body: "# Title\n\nBody",
+        hasFrontmatter: false,
+      });
+    });
+
+    it("should parse scalar values", () => {
+      const { data, body } = parseFrontmatter(
+        "---\ntitle: My Note\nstatus: draft\npriority: 2\ndone: false\nempty:\n---\n# Body\n",
+      );
+      expect(data).toEqual({
+        title: "My Note",
+        status: "draft",
+        priority: 2,
+        done: false,
+        empty: null,
+      });
+      expect(body).toBe("# Body\n");
+    });
+
+    it("should keep dates as strings", () => {
+      const { data } = parseFrontmatter("---\ncreated: 2024-01-05\n---\n");
+      expect(data.created).toBe("2024-01-05");
+    });
+
+    it("should unquote strings", () => {
+      const { data } = parseFrontmatter(
+        "---\ntitle: \"Fix: the bug\"\nticket: 'ENG-1'\n---\n",
+      );
+      expect(data).toEqual({ title: "Fix: the bug", ticket: "ENG-1" });
+    });
+
+    it("should parse inline lists", () => {
+      const { data } = parseFrontmatter(
+        '---\ntags: [auth, "a, b", backend]\nnone: []\n---\n',
+      );
+      expect(data.tags).toEqual(["auth", "a, b", "backend"]);
+      expect(data.none).toEqual([]);
+    });
+
+    it("should parse block lists", () => {
+      const { data } = parseFrontmatter(
+        "---\ntags:\n  - auth\n  - backend\nstatus: done\n---\n",
+      );
+      expect(data).toEqual({ tags: ["auth", "backend"], status: "done" });
+    });
+
+    it("should ignore comments", () => {
+      const { data } = parseFrontmatter(
+        "---\n# comment\nstatus: draft # inline\n---\n",
+      );
+      expect(data).toEqual({ status: "draft" });
+    });
+
+    it("should handle CRLF line endings", () => {
+      const { data, body } = parseFrontmatter(
+        "---\r\ntitle: Win\r\n---\r\nBody",
+      );
+      expect(data).toEqual({ title: "Win" });
+      expect(body).toBe("Body");
+    });
+
+    it("should not treat a horizontal rule later in the file as frontmatter", () => {
+      const result = parseFrontmatter("# Title\n---\nfoo: bar\n---\n");
+      expect(result.hasFrontmatter).toBe(false);
+    });
+  });
+
+  describe("stringifyFrontmatter()", () => {
+    it("should round-trip through parseFrontmatter", () => {
+      const data = {
+        title: "Fix: the bug",
+        status: "draft",
+        tags: ["auth", "a, b"],
+        priority: 2,
+        done: true,
+        version: "1.0",
+        empty: null,
+      };
+      const { data: parsed } = parseFrontmatter(stringifyFrontmatter(data));
+      expect(parsed).toEqual(data);
+    });
+  });
+
+  describe("setFrontmatter()", () => {
+    it("should add frontmatter to a plain note", () => {
+      expect(setFrontmatter("# Title\n", { status: "done" })).toBe(
+        "---\nstatus: done\n---\n# Title\n",
+      );
+    });
+
+    it("should replace existing frontmatter", () => {
+      expect(
+        setFrontmatter("---\nstatus: draft\n---\n# Title\n", {
+          status: "done",
+        }),
+      ).toBe("---\nstatus: done\n---\n# Title\n");
+    });
+  });
+
+  describe("extractTitle()", () => {
+    it("should return the first level-1 heading", () => {
+      expect(extractTitle("intro\n## Sub\n# Main Title #\n# Other")).toBe(
+        "Main Title",
+      );
+    });
+
+    it("should return undefined without a heading", () => {
+      expect(extractTitle("just text")).toBeUndefined();
+    });
+  });
+});
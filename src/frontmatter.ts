@@ -0,0 +1,158 @@
+/**
+ * Minimal YAML frontmatter support for notes. Handles the subset of YAML that
+ * note headers actually use: scalar strings, numbers, booleans, inline lists
+ * (`tags: [a, b]`) and block lists (`- item`).
+ */
+
+export type FrontmatterValue = string | number | boolean | null | string[];
+
+export type FrontmatterData = Record<string, FrontmatterValue>;
+
+export interface ParsedNote {
+  data: FrontmatterData;
+  body: string;
+  hasFrontmatter: boolean;
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+function unquote(value: string): string {
+  if (value.length >= 2) {
+    if (value.startsWith('"') && value.endsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value.slice(1, -1);
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+  }
+  return value;
+}
+
+function stripComment(value: string): string {
+  // A comment starts at " #" outside of quotes
+  if (value.startsWith('"') || value.startsWith("'")) return value;
+  const index = value.indexOf(" #");
+  return index === -1 ? value : value.slice(0, index).trimEnd();
+}
+
+function parseScalar(raw: string): FrontmatterValue {
+  const value = stripComment(raw.trim());
+
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    const inner = value.slice(1, -1).trim();
+    if (!inner) return [];
+    const items =
+      inner.match(/\s*"(?:[^"\\]|\\.)*"|\s*'(?:[^']|'')*'|[^,]+/g) || [];
+    return items.map((item) => unquote(item.trim())).filter(Boolean);
+  }
+
+  return unquote(value);
+}
+
+/**
+ * Splits a note into its frontmatter data and body. Notes without a leading
+ * `---` block are returned with empty data and the full content as body.
+ */
+export function parseFrontmatter(content: string): ParsedNote {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: content, hasFrontmatter: false };
+  }
+
+  const data: FrontmatterData = {};
+  const emptyKeys = new Set<string>();
+  let listKey: string | undefined;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      (data[listKey] as string[]).push(unquote(stripComment(listItem[1])));
+      continue;
+    }
+
+    const keyValue = line.match(/^([A-Za-z0-9_-]+)\s*:(.*)$/);
+    if (!keyValue) continue;
+
+    const [, key, rawValue] = keyValue;
+    if (key === "__proto__") continue;
+    if (rawValue.trim() === "") {
+      // Possibly the start of a block list; becomes null if no items follow
+      data[key] = [];
+      emptyKeys.add(key);
+      listKey = key;
+    } else {
+      data[key] = parseScalar(rawValue);
+      listKey = undefined;
+    }
+  }
+
+  // Keys with an empty value and no list items are null, not empty lists
+  for (const key of emptyKeys) {
+    const value = data[key];
+    if (Array.isArray(value) && value.length === 0) {
+      data[key] = null;
+    }
+  }
+
+  return {
+    data,
+    body: content.slice(match[0].length),
+    hasFrontmatter: true,
+  };
+}
+
+function formatScalar(value: string, inList = false): string {
+  // Quote anything YAML could misread
+  if (
+    value === "" ||
+    (inList && value.includes(",")) ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /:\s|\s#|\s$/.test(value) ||
+    /^(true|false|null|~|-?\d+(\.\d+)?)$/.test(value)
+  ) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Serializes frontmatter data to a `---` delimited block
+ */
+export function stringifyFrontmatter(data: FrontmatterData): string {
+  const lines = Object.entries(data).map(([key, value]) => {
+    if (value === null) return `${key}:`;
+    if (Array.isArray(value)) {
+      return `${key}: [${value.map((item) => formatScalar(item, true)).join(", ")}]`;
+    }
+    if (typeof value === "string") return `${key}: ${formatScalar(value)}`;
+    return `${key}: ${value}`;
+  });
+  return `---\n${lines.join("\n")}\n---\n`;
+}
+
+/**
+ * Replaces (or adds) the frontmatter of a note, keeping its body intact
+ */
+export function setFrontmatter(content: string, data: FrontmatterData): string {
+  const { body } = parseFrontmatter(content);
+  return stringifyFrontmatter(data) + body;
+}
+
+/**
+ * Returns the text of the first level-1 markdown heading in a body
+ */
+export function extractTitle(body: string): string | undefined {
+  const match = body.match(/^#[ \t]+(.+?)[ \t#]*$/m);
+  return match ? match[1].trim() : undefined;
+}
@@ -2,20 +2,49 @@
 import { Command } from "commander";
 import { thoughtsInitCommand } from "./commands/init.js";
 import { thoughtsUninitCommand } from "./commands/uninit.js";
+import { thoughtsCloneCommand } from "./commands/clone.js";
+import { thoughtsRelinkCommand } from "./commands/relink.js";
+import { thoughtsMvCommand } from "./commands/mv.js";
 import { thoughtsSyncCommand } from "./commands/sync.js";
 import { thoughtsStatusCommand } from "./commands/status.js";
+import { thoughtsPromptCommand } from "./commands/prompt.js";
+import { completionCommand, completeCommand } from "./commands/completion.js";
 import { thoughtsConfigCommand } from "./commands/config.js";
+import { configGetCommand } from "./commands/config/get.js";
+import { configSetCommand } from "./commands/config/set.js";
+import { configUnsetCommand } from "./commands/config/unset.js";
+import { configListCommand } from "./commands/config/list.js";
+import { thoughtsSearchCommand } from "./commands/search.js";
+import { thoughtsNewCommand } from "./commands/new.js";
+import { thoughtsListCommand } from "./commands/list.js";
+import { thoughtsWatchCommand } from "./commands/watch.js";
+import { thoughtsDoctorCommand } from "./commands/doctor.js";
+import { daemonStartCommand } from "./commands/daemon/start.js";
+import { daemonStopCommand } from "./commands/daemon/stop.js";
+import { daemonStatusCommand } from "./commands/daemon/status.js";
 import { profileCreateCommand } from "./commands/profile/create.js";
 import { profileListCommand } from "./commands/profile/list.js";
 import { profileShowCommand } from "./commands/profile/show.js";
 import { profileDeleteCommand } from "./commands/profile/delete.js";
+import { profileMigrateRepoCommand } from "./commands/profile/migrateRepo.js";
+import { profileRenameCommand } from "./commands/profile/rename.js";
+import { profileCloneCommand } from "./commands/profile/clone.js";
+import { profileExportCommand } from "./commands/profile/export.js";
+import { profileImportCommand } from "./commands/profile/import.js";
+import { reposListCommand } from "./commands/repos/list.js";
+import { reposMoveCommand } from "./commands/repos/move.js";
+import { reposPruneCommand } from "./commands/repos/prune.js";
+import { reposSetProfileCommand } from "./commands/repos/setProfile.js";
 
 const program = new Command();
 
 program
   .name("thoughts")
   .description("Manage developer thoughts and notes")
-  .version(process.env.PACKAGE_VERSION || "0.0.0");
+  .version(process.env.PACKAGE_VERSION || "0.0.0")
+  // Options after a subcommand belong to it, even if its parent (like
+  // config) has an option of the same name
+  .enablePositionalOptions();
 
 program
   .command("init")
@@ -29,6 +58,44 @@ program
   .option("--profile <name>", "Use a specific thoughts profile")
   .action(thoughtsInitCommand);
 
+program
+  .command("clone <url> [directory]")
+  .description(
+    "Clone a thoughts repository and link matching code repositories",
+  )
+  .option("--profile <name>", "Add the clone as a profile")
+  .option("--scan <dir>", "Directory to search for code repositories to link")
+  .option("--user <name>", "Your username, if no config exists yet")
+  .option("--yes", "Link matching repositories without asking")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsCloneCommand);
+
+program
+  .command("relink")
+  .description(
+    "Map and link every code repository below a directory in one pass",
+  )
+  .requiredOption("--scan <dir>", "Directory to search for code repositories")
+  .option("--profile <name>", "Profile for repositories not mapped yet")
+  .option("--depth <n>", "How many directories deep to search (default: 3)")
+  .option("--yes", "Apply the plan without asking")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsRelinkCommand);
+
+program
+  .command("mv <old> <new>")
+  .description(
+    "Rename a repository's thoughts directory and update every checkout",
+  )
+  .option("--merge", "Merge into the new directory if it already exists")
+  .option(
+    "--on-collision <choice>",
+    "For files in both when merging: existing, moved or both (default: ask, or both without a terminal)",
+  )
+  .option("--profile <name>", "Thoughts repository of this profile")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsMvCommand);
+
 program
   .command("uninit")
   .description("Remove thoughts setup from current repository")
@@ -40,23 +107,179 @@ program
   .command("sync")
   .description("Manually sync thoughts to thoughts repository")
   .option("-m, --message <message>", "Commit message for sync")
+  .option(
+    "--coalesce",
+    "Hand off to an already running sync instead of waiting for it",
+  )
+  .option(
+    "--continue",
+    "Resolve conflicts of an interrupted sync and finish it",
+  )
+  .option("--abort", "Abandon an interrupted sync")
+  .option(
+    "--all",
+    "Sync the default and every profile's thoughts repository, from anywhere",
+  )
+  .option(
+    "--concurrency <n>",
+    "How many repositories --all syncs at once (default 4)",
+  )
+  .option(
+    "--index-only",
+    "Only rebuild the searchable directory, without committing or pulling",
+  )
+  .option("--json", "Output the result as JSON")
   .option("--config-file <path>", "Path to config file")
   .action(thoughtsSyncCommand);
 
 program
   .command("status")
   .description("Show status of thoughts repository")
+  .option("--json", "Output as JSON")
+  .option("--fetch", "Fetch from the remote before comparing with it")
+  .option("--pull", "Fetch, and pull if the thoughts repository is behind")
+  .option("--fast", "Skip the remote and upstream, for shell prompts")
   .option("--config-file <path>", "Path to config file")
   .action(thoughtsStatusCommand);
 
 program
+  .command("prompt")
+  .description("Print a short thoughts status segment for shell prompts")
+  .option("--json", "Output as JSON")
+  .option(
+    "--init <shell>",
+    "Print a snippet that adds the segment to bash, zsh, fish or starship",
+  )
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsPromptCommand);
+
+program
+  .command("new <title...>")
+  .description("Create a new note from a template")
+  .option(
+    "-t, --template <name>",
+    "Template to use (research, plan, adr, handoff or a user template)",
+  )
+  .option("--shared", "Create the note in the shared directory")
+  .option("--global", "Create the note in the global directory")
+  .option("--no-date", "Do not prefix the file name with the date")
+  .option("--force", "Overwrite an existing note with the same name")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsNewCommand);
+
+program
+  .command("list")
+  .description("List notes for current repository with their metadata")
+  .option("--global", "Include global notes")
+  .option("--status <status>", "Only show notes with this status")
+  .option("--tag <tag>", "Only show notes with this tag")
+  .option("--author <name>", "Only show notes by this author")
+  .option(
+    "--sort <field>",
+    "Sort by created, title, status, author or path",
+    "created",
+  )
+  .option("--reverse", "Reverse the sort order")
+  .option("--json", "Output as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsListCommand);
+
+program
+  .command("search <query...>")
+  .description('Search thoughts (supports "exact phrases" and prefix* terms)')
+  .option("--mine", "Only search your own notes")
+  .option("--shared", "Only search shared notes")
+  .option("--global", "Only search global notes")
+  .option(
+    "--user <name>",
+    "Only search notes of a user (repeatable)",
+    (value: string, previous: string[] = []) => [...previous, value],
+  )
+  .option("-n, --limit <count>", "Maximum number of results", "20")
+  .option("--json", "Output results as JSON")
+  .option("--rebuild", "Rebuild the search index from scratch")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsSearchCommand);
+
+program
+  .command("watch")
+  .description("Watch thoughts repositories and auto-sync on file changes")
+  .option("--debounce <seconds>", "Seconds to wait after the last edit", "5")
+  .option("--interval <seconds>", "Seconds between pulls and pushes", "300")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsWatchCommand);
+
+// Background watcher management
+const daemon = program
+  .command("daemon")
+  .description("Run the thoughts watcher in the background");
+
+daemon
+  .command("start")
+  .description("Start the background watcher")
+  .option("--debounce <seconds>", "Seconds to wait after the last edit")
+  .option("--interval <seconds>", "Seconds between pulls and pushes")
+  .option("--config-file <path>", "Path to config file")
+  .action(daemonStartCommand);
+
+daemon
+  .command("stop")
+  .description("Stop the background watcher")
+  .action(daemonStopCommand);
+
+daemon
+  .command("status")
+  .description("Show whether the background watcher is running")
+  .option("--json", "Output as JSON")
+  .action(daemonStatusCommand);
+
+program
+  .command("doctor")
+  .description("Check the thoughts setup for problems")
+  .option("--fix", "Repair what can be repaired safely")
+  .option("--json", "Output results as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(thoughtsDoctorCommand);
+
+const config = program
   .command("config")
   .description("View or edit thoughts configuration")
+  .enablePositionalOptions()
   .option("--edit", "Open configuration in editor")
   .option("--json", "Output configuration as JSON")
+  .option(
+    "--explain [key]",
+    "Show which config layer each setting (or the given one) comes from",
+  )
   .option("--config-file <path>", "Path to config file")
   .action(thoughtsConfigCommand);
 
+config
+  .command("get <key>")
+  .description("Print a config value (e.g. thoughts.user)")
+  .option("--json", "Output the value as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(configGetCommand);
+
+config
+  .command("set <key> <value>")
+  .description("Set a config value; objects are given as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(configSetCommand);
+
+config
+  .command("unset <key>")
+  .description("Remove a config value")
+  .option("--config-file <path>", "Path to config file")
+  .action(configUnsetCommand);
+
+config
+  .command("list")
+  .description("List every config value as key=value")
+  .option("--json", "Output as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(configListCommand);
+
 // Profile management commands
 const profile = program
   .command("profile")
@@ -92,4 +315,85 @@ profile
   .option("--config-file <path>", "Path to config file")
   .action(profileDeleteCommand);
 
+profile
+  .command("rename <old> <new>")
+  .description("Rename a profile and every repository mapping that uses it")
+  .option("--config-file <path>", "Path to config file")
+  .action(profileRenameCommand);
+
+profile
+  .command("clone <name> <new-name>")
+  .description("Create a profile with the settings of an existing one")
+  .option("--repo <path>", "Thoughts repository for the new profile")
+  .option("--config-file <path>", "Path to config file")
+  .action(profileCloneCommand);
+
+profile
+  .command("export <name>")
+  .description("Write a profile definition that others can import")
+  .option("-o, --output <file>", "Write to a file instead of stdout")
+  .option("--config-file <path>", "Path to config file")
+  .action(profileExportCommand);
+
+profile
+  .command("import <file>")
+  .description("Add a profile from an exported definition, cloning its repo")
+  .option("--name <name>", "Import under a different profile name")
+  .option("--repo <path>", "Where to keep the thoughts repository")
+  .option("--user <name>", "Your username, if no config exists yet")
+  .option("--force", "Replace an existing profile of the same name")
+  .option("--config-file <path>", "Path to config file")
+  .action(profileImportCommand);
+
+profile
+  .command("migrate-repo <repo-path>")
+  .description("Move a repository's notes to another profile's thoughts repo")
+  .option("--to <profile>", "Profile to move the notes to")
+  .option("--to-default", "Move the notes to the default thoughts repo")
+  .option("--copy", "Keep the notes in the old thoughts repo as well")
+  .option("--config-file <path>", "Path to config file")
+  .action(profileMigrateRepoCommand);
+
+const repos = program
+  .command("repos")
+  .description("Manage repository mappings");
+
+repos
+  .command("list")
+  .description("List mapped repositories with their profile and last sync")
+  .option("--json", "Output as JSON")
+  .option("--config-file <path>", "Path to config file")
+  .action(reposListCommand);
+
+repos
+  .command("move <old-path> <new-path>")
+  .description("Update the mapping of a checkout that was relocated")
+  .option("--config-file <path>", "Path to config file")
+  .action(reposMoveCommand);
+
+repos
+  .command("prune")
+  .description("Remove mappings whose paths no longer exist")
+  .option("--dry-run", "Only show which mappings would be removed")
+  .option("--config-file <path>", "Path to config file")
+  .action(reposPruneCommand);
+
+repos
+  .command("set-profile <path> [profile]")
+  .description(
+    "Point a repository at another profile (the default repository if omitted)",
+  )
+  .option("--config-file <path>", "Path to config file")
+  .action(reposSetProfileCommand);
+
+program
+  .command("completion <shell>")
+  .description("Print a completion script for bash, zsh or fish")
+  .action(completionCommand);
+
+// Called by the completion scripts with the words typed so far
+program
+  .command("__complete [words...]", { hidden: true })
+  .action((words: string[] = []) => completeCommand(program, words));
+
 program.parse();
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  LOCK_FILE,
+  acquireRepoLock,
+  getLockDir,
+  getProcessStartTime,
+  hasQueuedSyncs,
+  isLockStale,
+  isProcessRunning,
+  queueCoalescedSync,
+  readLockInfo,
+  takeQueuedSyncs,
+  tryAcquireRepoLock,
+  withRepoLock,
+  type LockInfo,
+} from "./lock.js";
+
+describe("lock.ts", () => {
+  let tmpDir: string;
+
+  // Pid numbers this high are never handed out
+  const DEAD_PID = 2147483646;
+
+  const writeLock = (info: Partial<LockInfo>) => {
+    fs.writeFileSync(
+      path.join(getLockDir(tmpDir), LOCK_FILE),
+      JSON.stringify({
+        pid: process.pid,
+        hostname: os.hostname(),
+        command: "sync",
+        createdAt: new Date().toISOString(),
+        ...info,
+      }),
+    );
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-lock-test-"));
+    execSync("git init", { cwd: tmpDir, stdio: "pipe" });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("getLockDir()", () => {
+    it("should use the git directory", () => {
+      expect(fs.realpathSync(getLockDir(tmpDir))).toBe(
+        fs.realpathSync(path.join(tmpDir, ".git")),
+      );
+    });
+
+    it("should fall back to the repo root outside git", () => {
+      const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-lock-"));
+      try {
+        expect(getLockDir(plainDir)).toBe(plainDir);
+      } finally {
+        fs.rmSync(plainDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("isLockStale()", () => {
+    const base: LockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      command: "sync",
+      createdAt: new Date().toISOString(),
+    };
+
+    it("should treat a live local process as fresh", () => {
+      expect(isLockStale(base)).toBe(false);
+    });
+
+    it("should treat a dead local process as stale", () => {
+      expect(isLockStale({ ...base, pid: DEAD_PID })).toBe(true);
+    });
+
+    it("should treat a pid that now belongs to a newer process as stale", () => {
+      // Taken by a process that started long before this one
+      expect(
+        isLockStale({ ...base, startedAt: "Thu Jan  1 00:00:00 2015" }),
+      ).toBe(true);
+      expect(
+        isLockStale({
+          ...base,
+          startedAt: getProcessStartTime(process.pid) || undefined,
+        }),
+      ).toBe(false);
+    });
+
+    it("should not check pids of other hosts", () => {
+      expect(
+        isLockStale({ ...base, pid: DEAD_PID, hostname: "other-host" }),
+      ).toBe(false);
+    });
+
+    it("should treat old locks as stale", () => {
+      const old = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      expect(isLockStale({ ...base, createdAt: old })).toBe(true);
+      expect(isLockStale({ ...base, createdAt: old }, 2 * 60 * 60 * 1000)).toBe(
+        false,
+      );
+    });
+
+    it("should treat unreadable locks as stale", () => {
+      expect(isLockStale(null)).toBe(true);
+    });
+  });
+
+  describe("tryAcquireRepoLock()", () => {
+    it("should create and release the lock file", () => {
+      const lock = tryAcquireRepoLock(tmpDir, "sync");
+      expect(lock).not.toBeNull();
+      expect(readLockInfo(lock!.path)).toMatchObject({
+        pid: process.pid,
+        command: "sync",
+      });
+
+      lock!.release();
+      expect(fs.existsSync(lock!.path)).toBe(false);
+    });
+
+    it("should fail while a live process holds the lock", () => {
+      const lock = tryAcquireRepoLock(tmpDir, "sync");
+      expect(tryAcquireRepoLock(tmpDir, "init")).toBeNull();
+      lock!.release();
+      expect(tryAcquireRepoLock(tmpDir, "init")).not.toBeNull();
+    });
+
+    it("should take over a stale lock", () => {
+      writeLock({ pid: DEAD_PID });
+
+      const lock = tryAcquireRepoLock(tmpDir, "init");
+      expect(lock).not.toBeNull();
+      expect(readLockInfo(lock!.path)?.command).toBe("init");
+      lock!.release();
+    });
+
+    it("should not remove a lock that was taken over by someone else", () => {
+      const lock = tryAcquireRepoLock(tmpDir, "sync");
+      writeLock({ pid: 1, hostname: "other-host" });
+
+      lock!.release();
+      expect(fs.existsSync(lock!.path)).toBe(true);
+    });
+  });
+
+  describe("acquireRepoLock()", () => {
+    it("should wait for the holder to release", async () => {
+      const held = tryAcquireRepoLock(tmpDir, "sync");
+      setTimeout(() => held!.release(), 300);
+
+      const lock = await acquireRepoLock(tmpDir, "init", { timeoutMs: 5000 });
+      expect(readLockInfo(lock.path)?.command).toBe("init");
+      lock.release();
+    });
+
+    it("should time out with the holder in the message", async () => {
+      const held = tryAcquireRepoLock(tmpDir, "sync");
+      await expect(
+        acquireRepoLock(tmpDir, "init", { timeoutMs: 100 }),
+      ).rejects.toThrow(/locked by "thoughts sync"/);
+      held!.release();
+    });
+  });
+
+  describe("withRepoLock()", () => {
+    it("should release the lock when fn throws", async () => {
+      await expect(
+        withRepoLock(tmpDir, "sync", () => {
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+      expect(fs.existsSync(path.join(getLockDir(tmpDir), LOCK_FILE))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("coalescing", () => {
+    it("should queue into a running sync", () => {
+      writeLock({ command: "sync" });
+
+      expect(queueCoalescedSync(tmpDir, "first")?.pid).toBe(process.pid);
+      expect(queueCoalescedSync(tmpDir, "second")?.pid).toBe(process.pid);
+      expect(hasQueuedSyncs(tmpDir)).toBe(true);
+
+      expect(takeQueuedSyncs(tmpDir)).toEqual(["first", "second"]);
+      expect(hasQueuedSyncs(tmpDir)).toBe(false);
+      expect(takeQueuedSyncs(tmpDir)).toBeNull();
+    });
+
+    it("should not queue without a running sync", () => {
+      expect(queueCoalescedSync(tmpDir, "msg")).toBeNull();
+      expect(hasQueuedSyncs(tmpDir)).toBe(false);
+    });
+
+    it("should not queue into other commands or stale syncs", () => {
+      writeLock({ command: "init" });
+      expect(queueCoalescedSync(tmpDir, "msg")).toBeNull();
+
+      writeLock({ command: "sync", pid: DEAD_PID });
+      expect(queueCoalescedSync(tmpDir, "msg")).toBeNull();
+    });
+  });
+
+  describe("isProcessRunning()", () => {
+    it("should detect the current process", () => {
+      expect(isProcessRunning(process.pid)).toBe(true);
+    });
+
+    it("should report missing processes", () => {
+      expect(isProcessRunning(DEAD_PID)).toBe(false);
+    });
+  });
+});
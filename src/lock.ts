@@ -0,0 +1,305 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import { expandPath } from "./thoughtsConfig.js";
+
+export const LOCK_FILE = "thoughts.lock";
+export const QUEUE_FILE = "thoughts.lock.queue";
+
+// A lock older than this is considered abandoned even if its pid looks alive
+export const DEFAULT_STALE_MS = 15 * 60 * 1000;
+export const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000;
+
+const LOCK_POLL_MS = 200;
+
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  command: string;
+  createdAt: string;
+  startedAt?: string; // When the holder's process started, see getProcessStartTime
+}
+
+export interface RepoLock {
+  path: string;
+  release: () => void;
+}
+
+export interface AcquireLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+}
+
+/**
+ * Returns the directory holding lock files for a thoughts repository. Locks
+ * live in the git directory so they are never committed; repositories that are
+ * not (yet) git repositories keep them at their root.
+ */
+export function getLockDir(thoughtsRepo: string): string {
+  const expandedRepo = expandPath(thoughtsRepo);
+  try {
+    const gitDir = execFileSync("git", ["rev-parse", "--git-dir"], {
+      cwd: expandedRepo,
+      encoding: "utf8",
+      stdio: "pipe",
+    }).trim();
+    return path.resolve(expandedRepo, gitDir);
+  } catch {
+    return expandedRepo;
+  }
+}
+
+export function readLockInfo(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+export function isProcessRunning(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Returns when a process started as reported by ps, or null if it is not
+ * running. Together with the pid this identifies a process even after its
+ * pid has been reused.
+ */
+export function getProcessStartTime(pid: number): string | null {
+  try {
+    const started = execFileSync("ps", ["-o", "lstart=", "-p", String(pid)], {
+      encoding: "utf8",
+      stdio: "pipe",
+    }).trim();
+    return started || null;
+  } catch {
+    return null;
+  }
+}
+
+// Looked up the first time this process takes a lock
+let ownStartTime: string | null | undefined;
+
+/**
+ * A lock is stale when its owner on this host is gone or its pid now belongs
+ * to a process that started later, or when it is older than staleMs (covers
+ * crashed processes on other hosts)
+ */
+export function isLockStale(
+  info: LockInfo | null,
+  staleMs: number = DEFAULT_STALE_MS,
+): boolean {
+  if (!info) return true;
+
+  const age = Date.now() - new Date(info.createdAt).getTime();
+  if (isNaN(age) || age > staleMs) return true;
+
+  if (info.hostname !== os.hostname()) return false;
+  if (!isProcessRunning(info.pid)) return true;
+  return (
+    info.startedAt !== undefined &&
+    getProcessStartTime(info.pid) !== info.startedAt
+  );
+}
+
+/**
+ * Tries to take the lock file at lockPath without waiting. Stale locks are
+ * removed. Returns null if another live process holds it.
+ */
+export function tryAcquireLockFile(
+  lockPath: string,
+  command: string,
+  staleMs: number = DEFAULT_STALE_MS,
+): RepoLock | null {
+  if (ownStartTime === undefined) {
+    ownStartTime = getProcessStartTime(process.pid);
+  }
+  const info: LockInfo = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    command,
+    createdAt: new Date().toISOString(),
+    ...(ownStartTime && { startedAt: ownStartTime }),
+  };
+
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+      const holder = readLockInfo(lockPath);
+      if (!isLockStale(holder, staleMs)) {
+        return null;
+      }
+      // Make sure nobody replaced the stale lock since we read it
+      if (JSON.stringify(readLockInfo(lockPath)) === JSON.stringify(holder)) {
+        fs.rmSync(lockPath, { force: true });
+      }
+      continue;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      process.removeListener("exit", release);
+      // Only remove the file if it is still ours
+      if (readLockInfo(lockPath)?.pid === process.pid) {
+        fs.rmSync(lockPath, { force: true });
+      }
+    };
+    // Commands bail out with process.exit(), so clean up on exit too
+    process.on("exit", release);
+
+    return { path: lockPath, release };
+  }
+
+  return null;
+}
+
+/**
+ * Tries to take the lock for a thoughts repository without waiting.
+ * Stale locks are removed. Returns null if another live process holds it.
+ */
+export function tryAcquireRepoLock(
+  thoughtsRepo: string,
+  command: string,
+  staleMs: number = DEFAULT_STALE_MS,
+): RepoLock | null {
+  return tryAcquireLockFile(
+    path.join(getLockDir(thoughtsRepo), LOCK_FILE),
+    command,
+    staleMs,
+  );
+}
+
+/**
+ * Takes the lock for a thoughts repository, waiting for the current holder
+ * up to timeoutMs. Throws if the lock cannot be acquired in time.
+ */
+export async function acquireRepoLock(
+  thoughtsRepo: string,
+  command: string,
+  options: AcquireLockOptions = {},
+): Promise<RepoLock> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const lock = tryAcquireRepoLock(thoughtsRepo, command, options.staleMs);
+    if (lock) return lock;
+
+    if (Date.now() >= deadline) {
+      const holder = readLockInfo(
+        path.join(getLockDir(thoughtsRepo), LOCK_FILE),
+      );
+      const owner = holder
+        ? `"thoughts ${holder.command}" (pid ${holder.pid})`
+        : "another process";
+      throw new Error(
+        `Thoughts repository ${thoughtsRepo} is locked by ${owner}`,
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+  }
+}
+
+/**
+ * Runs fn while holding the lock for a thoughts repository
+ */
+export async function withRepoLock<T>(
+  thoughtsRepo: string,
+  command: string,
+  fn: () => T | Promise<T>,
+  options: AcquireLockOptions = {},
+): Promise<T> {
+  const lock = await acquireRepoLock(thoughtsRepo, command, options);
+  try {
+    return await fn();
+  } finally {
+    lock.release();
+  }
+}
+
+/**
+ * Hands a sync request to a sync that is already running for the same
+ * repository. The message is queued and the running sync performs another
+ * pass for it. Returns the holder's lock info, or null if no live sync holds
+ * the lock (the caller should then sync itself).
+ */
+export function queueCoalescedSync(
+  thoughtsRepo: string,
+  message: string,
+  staleMs: number = DEFAULT_STALE_MS,
+): LockInfo | null {
+  const lockDir = getLockDir(thoughtsRepo);
+  const lockPath = path.join(lockDir, LOCK_FILE);
+
+  const holder = readLockInfo(lockPath);
+  if (!holder || holder.command !== "sync" || isLockStale(holder, staleMs)) {
+    return null;
+  }
+
+  fs.appendFileSync(
+    path.join(lockDir, QUEUE_FILE),
+    JSON.stringify({ message }) + "\n",
+  );
+
+  // The holder checks the queue after releasing the lock, so if it is still
+  // held now our request is guaranteed to be picked up
+  const current = readLockInfo(lockPath);
+  if (current && current.pid === holder.pid && !isLockStale(current, staleMs)) {
+    return holder;
+  }
+  return null;
+}
+
+export function hasQueuedSyncs(thoughtsRepo: string): boolean {
+  return fs.existsSync(path.join(getLockDir(thoughtsRepo), QUEUE_FILE));
+}
+
+/**
+ * Removes and returns the messages of all queued sync requests, or null if
+ * none are waiting
+ */
+export function takeQueuedSyncs(thoughtsRepo: string): string[] | null {
+  const queuePath = path.join(getLockDir(thoughtsRepo), QUEUE_FILE);
+
+  // Rename first so requests arriving meanwhile start a fresh queue
+  const takenPath = `${queuePath}.${process.pid}`;
+  try {
+    fs.renameSync(queuePath, takenPath);
+  } catch {
+    return null;
+  }
+
+  const content = fs.readFileSync(takenPath, "utf8");
+  fs.rmSync(takenPath, { force: true });
+
+  const messages = content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        return String(JSON.parse(line).message || "");
+      } catch {
+        return "";
+      }
+    });
+
+  return messages.length > 0 ? messages : null;
+}
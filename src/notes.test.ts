@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  collectNotes,
+  findNoteFiles,
+  getGitFileHistory,
+  readNoteMetadata,
+} from "./notes.js";
+
+describe("notes.ts", () => {
+  let tmpDir: string;
+
+  const writeNote = (relPath: string, content: string) => {
+    const fullPath = path.join(tmpDir, relPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-notes-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("findNoteFiles()", () => {
+    it("should find markdown files recursively", () => {
+      writeNote("README.md", "generated");
+      writeNote("alice/plan.md", "x");
+      writeNote("alice/sub/deep.md", "x");
+      writeNote("alice/README.md", "x");
+      writeNote("shared/image.png", "x");
+      writeNote(".hidden/secret.md", "x");
+
+      expect(findNoteFiles(tmpDir).sort()).toEqual([
+        path.join("alice", "README.md"),
+        path.join("alice", "plan.md"),
+        path.join("alice", "sub", "deep.md"),
+      ]);
+    });
+
+    it("should return empty list for missing directory", () => {
+      expect(findNoteFiles(path.join(tmpDir, "missing"))).toEqual([]);
+    });
+  });
+
+  describe("readNoteMetadata()", () => {
+    it("should read frontmatter fields", () => {
+      writeNote(
+        "alice/plan.md",
+        "---\ntitle: The Plan\nstatus: draft\ntags: [a, b]\nauthor: bob\ncreated: 2024-01-05\nticket: ENG-1\n---\n# Heading\n",
+      );
+
+      expect(
+        readNoteMetadata(path.join(tmpDir, "alice/plan.md"), "thoughts/x.md"),
+      ).toEqual({
+        path: "thoughts/x.md",
+        title: "The Plan",
+        status: "draft",
+        tags: ["a", "b"],
+        author: "bob",
+        created: "2024-01-05",
+        ticket: "ENG-1",
+      });
+    });
+
+    it("should fall back to heading, git info and owner", () => {
+      writeNote("alice/plan.md", "# Heading Title\n");
+
+      const meta = readNoteMetadata(
+        path.join(tmpDir, "alice/plan.md"),
+        "thoughts/alice/plan.md",
+        { author: "Alice A", created: "2023-03-03" },
+        "alice",
+      );
+      expect(meta.title).toBe("Heading Title");
+      expect(meta.author).toBe("Alice A");
+      expect(meta.created).toBe("2023-03-03");
+
+      const noGit = readNoteMetadata(
+        path.join(tmpDir, "alice/plan.md"),
+        "thoughts/alice/plan.md",
+        undefined,
+        "alice",
+      );
+      expect(noGit.author).toBe("alice");
+      expect(noGit.created).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it("should use the date field written by templates", () => {
+      writeNote("alice/plan.md", "---\ndate: 2024-02-02\n---\n");
+      expect(
+        readNoteMetadata(path.join(tmpDir, "alice/plan.md"), "x").created,
+      ).toBe("2024-02-02");
+    });
+
+    it("should fall back to the file name for the title", () => {
+      writeNote("alice/untitled-note.md", "no heading");
+      expect(
+        readNoteMetadata(path.join(tmpDir, "alice/untitled-note.md"), "x")
+          .title,
+      ).toBe("untitled-note");
+    });
+
+    it("should not use shared as an author", () => {
+      writeNote("shared/x.md", "x");
+      expect(
+        readNoteMetadata(
+          path.join(tmpDir, "shared/x.md"),
+          "x",
+          undefined,
+          "shared",
+        ).author,
+      ).toBeUndefined();
+    });
+  });
+
+  describe("getGitFileHistory()", () => {
+    it("should return the first author and date of each file", () => {
+      execSync("git init", { cwd: tmpDir, stdio: "pipe" });
+      const repoDir = path.join(tmpDir, "repos", "proj");
+      writeNote("repos/proj/alice/a.md", "a");
+      execSync("git add -A", { cwd: tmpDir, stdio: "pipe" });
+      execSync(
+        'git -c user.name=test -c user.email=t@x commit --author="Alice A <a@x>" -m one --date=2023-03-03T10:00:00',
+        { cwd: tmpDir, stdio: "pipe" },
+      );
+      writeNote("repos/proj/alice/a.md", "changed");
+      writeNote("repos/proj/shared/b.md", "b");
+      execSync("git add -A", { cwd: tmpDir, stdio: "pipe" });
+      execSync(
+        'git -c user.name=test -c user.email=t@x commit --author="Bob B <b@x>" -m two --date=2024-04-04T10:00:00',
+        { cwd: tmpDir, stdio: "pipe" },
+      );
+
+      const history = getGitFileHistory(repoDir);
+      expect(history.get("alice/a.md")).toEqual({
+        author: "Alice A",
+        created: "2023-03-03",
+      });
+      expect(history.get("shared/b.md")).toEqual({
+        author: "Bob B",
+        created: "2024-04-04",
+      });
+    });
+
+    it("should return empty history outside git", () => {
+      expect(getGitFileHistory(tmpDir).size).toBe(0);
+    });
+  });
+
+  describe("collectNotes()", () => {
+    it("should prefix display paths", () => {
+      writeNote("alice/a.md", "# A");
+
+      const notes = collectNotes(tmpDir, "thoughts");
+      expect(notes.map((note) => note.path)).toEqual([
+        path.join("thoughts", "alice", "a.md"),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import { extractTitle, parseFrontmatter } from "./frontmatter.js";
+import type { FrontmatterValue } from "./frontmatter.js";
+
+export interface NoteMetadata {
+  path: string; // Display path, e.g. thoughts/alice/plan.md
+  title: string;
+  status?: string;
+  tags: string[];
+  author?: string;
+  created?: string;
+  ticket?: string;
+}
+
+export interface GitFileInfo {
+  author: string;
+  created: string;
+}
+
+/**
+ * Recursively lists markdown files in a directory (paths relative to it).
+ * Hidden entries and the README.md files generated by init are skipped.
+ */
+export function findNoteFiles(dir: string, relDir = ""): string[] {
+  const notes: string[] = [];
+  const fullDir = path.join(dir, relDir);
+
+  if (!fs.existsSync(fullDir)) {
+    return notes;
+  }
+
+  for (const entry of fs.readdirSync(fullDir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+
+    const relPath = path.join(relDir, entry.name);
+    if (entry.isDirectory()) {
+      notes.push(...findNoteFiles(dir, relPath));
+    } else if (
+      entry.isFile() &&
+      entry.name.endsWith(".md") &&
+      !(relDir === "" && entry.name === "README.md")
+    ) {
+      notes.push(relPath);
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Reads the author and creation date of every file under a directory from
+ * git history, using a single `git log` call. Paths are relative to dir.
+ */
+export function getGitFileHistory(dir: string): Map<string, GitFileInfo> {
+  const history = new Map<string, GitFileInfo>();
+
+  let output: string;
+  try {
+    output = execFileSync(
+      "git",
+      [
+        "-c",
+        "core.quotepath=off",
+        "log",
+        "--reverse",
+        "--diff-filter=A",
+        "--name-only",
+        "--relative",
+        "--format=%x00%an%x00%aI",
+        "--",
+        ".",
+      ],
+      {
+        cwd: dir,
+        encoding: "utf8",
+        stdio: "pipe",
+        maxBuffer: 64 * 1024 * 1024,
+      },
+    );
+  } catch {
+    // Not a git repository or no commits yet
+    return history;
+  }
+
+  let current: GitFileInfo | undefined;
+  for (const line of output.split("\n")) {
+    if (line.startsWith("\0")) {
+      const [, author, date] = line.split("\0");
+      current = { author, created: date.slice(0, 10) };
+    } else if (line.trim() && current && !history.has(line)) {
+      history.set(line, current);
+    }
+  }
+
+  return history;
+}
+
+function asString(value: FrontmatterValue | undefined): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function asList(value: FrontmatterValue | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  return String(value)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads a note's metadata from its frontmatter, falling back to the first
+ * heading, git history and the owning user directory for missing fields.
+ */
+export function readNoteMetadata(
+  filePath: string,
+  displayPath: string,
+  gitInfo?: GitFileInfo,
+  owner?: string,
+): NoteMetadata {
+  const content = fs.readFileSync(filePath, "utf8");
+  const { data, body } = parseFrontmatter(content);
+
+  return {
+    path: displayPath,
+    title:
+      asString(data.title) ||
+      extractTitle(body) ||
+      path.basename(filePath, ".md"),
+    status: asString(data.status),
+    tags: asList(data.tags),
+    author:
+      asString(data.author) ||
+      gitInfo?.author ||
+      (owner && owner !== "shared" ? owner : undefined),
+    // Templates written by "thoughts new" use "date" for the creation date
+    created:
+      asString(data.created) ||
+      asString(data.date) ||
+      gitInfo?.created ||
+      fs.statSync(filePath).mtime.toISOString().slice(0, 10),
+    ticket: asString(data.ticket),
+  };
+}
+
+/**
+ * Collects metadata for every note under a thoughts directory.
+ * displayPrefix is prepended to relative paths (e.g. "thoughts/global").
+ */
+export function collectNotes(
+  dir: string,
+  displayPrefix: string,
+): NoteMetadata[] {
+  const history = getGitFileHistory(dir);
+
+  return findNoteFiles(dir).map((relPath) =>
+    readNoteMetadata(
+      path.join(dir, relPath),
+      path.join(displayPrefix, relPath),
+      history.get(relPath.split(path.sep).join("/")),
+      relPath.split(path.sep)[0],
+    ),
+  );
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  createEmptyIndex,
+  findSnippet,
+  loadSearchIndex,
+  matchesScopes,
+  parseSearchQuery,
+  saveSearchIndex,
+  searchIndex,
+  tokenize,
+  updateSearchIndex,
+} from "./searchIndex.js";
+
+describe("searchIndex.ts", () => {
+  let tmpDir: string;
+  let thoughtsDir: string;
+
+  const writeNote = (relPath: string, content: string) => {
+    const fullPath = path.join(thoughtsDir, relPath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-search-test-"));
+    thoughtsDir = path.join(tmpDir, "thoughts");
+    fs.mkdirSync(thoughtsDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("tokenize()", () => {
+    it("should lowercase and split on punctuation", () => {
+      expect(tokenize("Hello, World! foo-bar")).toEqual([
+        "hello",
+        "world",
+        "foo",
+        "bar",
+      ]);
+    });
+
+    it("should keep unicode letters", () => {
+      expect(tokenize("Café naïve")).toEqual(["café", "naïve"]);
+    });
+  });
+
+  describe("parseSearchQuery()", () => {
+    it("should parse terms, phrases and prefixes", () => {
+      expect(parseSearchQuery('auth "race condition" migr*')).toEqual({
+        terms: ["auth"],
+        prefixes: ["migr"],
+        phrases: [["race", "condition"]],
+      });
+    });
+
+    it("should treat hyphenated words as phrases", () => {
+      expect(parseSearchQuery("post-commit").phrases).toEqual([
+        ["post", "commit"],
+      ]);
+    });
+  });
+
+  describe("matchesScopes()", () => {
+    it("should match everything without scopes", () => {
+      expect(matchesScopes("bob/notes.md", [], "alice")).toBe(true);
+    });
+
+    it("should match own notes including global ones for mine", () => {
+      expect(matchesScopes("alice/a.md", ["mine"], "alice")).toBe(true);
+      expect(matchesScopes("global/alice/a.md", ["mine"], "alice")).toBe(true);
+      expect(matchesScopes("shared/a.md", ["mine"], "alice")).toBe(false);
+    });
+
+    it("should match shared and global scopes", () => {
+      expect(matchesScopes("shared/a.md", ["shared"], "alice")).toBe(true);
+      expect(matchesScopes("global/shared/a.md", ["shared"], "alice")).toBe(
+        true,
+      );
+      expect(matchesScopes("global/bob/a.md", ["global"], "alice")).toBe(true);
+      expect(matchesScopes("bob/a.md", ["global"], "alice")).toBe(false);
+    });
+
+    it("should match a specific user", () => {
+      expect(matchesScopes("bob/a.md", [{ user: "bob" }], "alice")).toBe(true);
+      expect(matchesScopes("alice/a.md", [{ user: "bob" }], "alice")).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("updateSearchIndex()", () => {
+    it("should index new files", () => {
+      writeNote("alice/auth.md", "# Auth\nToken refresh design");
+      writeNote("shared/db.md", "Database migration plan");
+
+      const index = createEmptyIndex();
+      const stats = updateSearchIndex(index, thoughtsDir);
+
+      expect(stats).toEqual({ added: 2, updated: 0, removed: 0, total: 2 });
+      expect(index.postings.get("token")?.has("alice/auth.md")).toBe(true);
+    });
+
+    it("should skip the searchable directory", () => {
+      writeNote("alice/auth.md", "token");
+      writeNote("searchable/alice/auth.md", "token");
+
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+
+      expect([...index.files.keys()]).toEqual(["alice/auth.md"]);
+    });
+
+    it("should only reindex changed files and drop deleted ones", () => {
+      writeNote("alice/a.md", "alpha");
+      writeNote("alice/b.md", "beta");
+
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+
+      writeNote("alice/a.md", "gamma gamma");
+      fs.rmSync(path.join(thoughtsDir, "alice/b.md"));
+
+      const stats = updateSearchIndex(index, thoughtsDir);
+      expect(stats).toEqual({ added: 0, updated: 1, removed: 1, total: 1 });
+      expect(index.postings.has("alpha")).toBe(false);
+      expect(index.postings.has("beta")).toBe(false);
+      expect(index.postings.get("gamma")?.get("alice/a.md")).toEqual([0, 1]);
+    });
+
+    it("should report no changes on an unchanged tree", () => {
+      writeNote("alice/a.md", "alpha");
+
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+      const stats = updateSearchIndex(index, thoughtsDir);
+
+      expect(stats).toEqual({ added: 0, updated: 0, removed: 0, total: 1 });
+    });
+
+    it("should follow symlinked directories", () => {
+      const target = path.join(tmpDir, "repo", "alice");
+      fs.mkdirSync(target, { recursive: true });
+      fs.writeFileSync(path.join(target, "linked.md"), "symlinked content");
+      fs.symlinkSync(target, path.join(thoughtsDir, "alice"), "dir");
+
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+
+      expect(index.files.has("alice/linked.md")).toBe(true);
+    });
+  });
+
+  describe("saveSearchIndex() / loadSearchIndex()", () => {
+    it("should round-trip the index", () => {
+      writeNote("alice/a.md", "alpha beta");
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+
+      const indexPath = path.join(tmpDir, "index.json");
+      saveSearchIndex(indexPath, index);
+
+      expect(loadSearchIndex(indexPath)).toEqual(index);
+    });
+
+    it("should return an empty index for corrupt files", () => {
+      const indexPath = path.join(tmpDir, "index.json");
+      fs.writeFileSync(indexPath, "not json");
+
+      expect(loadSearchIndex(indexPath)).toEqual(createEmptyIndex());
+    });
+  });
+
+  describe("searchIndex()", () => {
+    beforeEach(() => {
+      writeNote("alice/auth.md", "The auth token refresh has a race condition");
+      writeNote("alice/other.md", "condition race is reversed here");
+      writeNote(
+        "shared/tokens.md",
+        "token token token tokenizer notes about tokens",
+      );
+    });
+
+    const run = (query: string) => {
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+      return searchIndex(index, parseSearchQuery(query)).map((r) => r.path);
+    };
+
+    it("should require all terms to match", () => {
+      expect(run("token race")).toEqual(["alice/auth.md"]);
+    });
+
+    it("should rank by term frequency", () => {
+      expect(run("token")).toEqual(["shared/tokens.md", "alice/auth.md"]);
+    });
+
+    it("should match phrases in order only", () => {
+      expect(run('"race condition"')).toEqual(["alice/auth.md"]);
+    });
+
+    it("should expand prefix queries", () => {
+      expect(run("tokeni*")).toEqual(["shared/tokens.md"]);
+      expect(run("tok*").sort()).toEqual(["alice/auth.md", "shared/tokens.md"]);
+    });
+
+    it("should apply the filter", () => {
+      const index = createEmptyIndex();
+      updateSearchIndex(index, thoughtsDir);
+      const results = searchIndex(index, parseSearchQuery("token"), (p) =>
+        p.startsWith("alice"),
+      );
+      expect(results.map((r) => r.path)).toEqual(["alice/auth.md"]);
+    });
+  });
+
+  describe("findSnippet()", () => {
+    it("should return the first matching line", () => {
+      writeNote("alice/a.md", "# Title\n\n  The token is here\nmore token");
+
+      expect(
+        findSnippet(
+          path.join(thoughtsDir, "alice/a.md"),
+          parseSearchQuery("token"),
+        ),
+      ).toEqual({ line: 3, text: "The token is here" });
+    });
+  });
+});
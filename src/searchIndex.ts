@@ -0,0 +1,424 @@
+import fs from "fs";
+import path from "path";
+import { findFilesFollowingSymlinks } from "./thoughtsConfig.js";
+
+// Increment when the on-disk format changes; older indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 1;
+
+export const SEARCH_INDEX_FILE = ".search-index.json";
+
+// Files larger than this are not indexed (likely generated or binary)
+const MAX_INDEXED_FILE_SIZE = 1024 * 1024;
+
+export interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  length: number; // Number of tokens in the file
+}
+
+export interface SearchIndex {
+  version: number;
+  files: Map<string, IndexedFile>;
+  // term -> relative path -> token positions
+  postings: Map<string, Map<string, number[]>>;
+}
+
+// On-disk shape: maps are stored as entry arrays
+interface SerializedSearchIndex {
+  version: number;
+  files: Array<[string, IndexedFile]>;
+  postings: Array<[string, Array<[string, number[]]>]>;
+}
+
+export interface IndexUpdateStats {
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+export type SearchScope = "mine" | "shared" | "global" | { user: string };
+
+export interface SearchQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: string[][];
+}
+
+export interface SearchResult {
+  path: string;
+  score: number;
+  snippet?: string;
+  line?: number;
+}
+
+export function createEmptyIndex(): SearchIndex {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    files: new Map(),
+    postings: new Map(),
+  };
+}
+
+export function getSearchIndexPath(thoughtsDir: string): string {
+  return path.join(thoughtsDir, SEARCH_INDEX_FILE);
+}
+
+export function loadSearchIndex(indexPath: string): SearchIndex {
+  try {
+    const data: SerializedSearchIndex = JSON.parse(
+      fs.readFileSync(indexPath, "utf8"),
+    );
+    if (data && data.version === SEARCH_INDEX_VERSION) {
+      return {
+        version: data.version,
+        files: new Map(data.files),
+        postings: new Map(
+          data.postings.map(([term, docs]) => [term, new Map(docs)]),
+        ),
+      };
+    }
+  } catch {
+    // Missing or corrupt index - start over
+  }
+  return createEmptyIndex();
+}
+
+export function saveSearchIndex(indexPath: string, index: SearchIndex): void {
+  // Write to a temp file first so a crash never leaves a truncated index
+  const data: SerializedSearchIndex = {
+    version: index.version,
+    files: [...index.files],
+    postings: [...index.postings].map(([term, docs]) => [term, [...docs]]),
+  };
+  const tmpPath = `${indexPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data));
+  fs.renameSync(tmpPath, indexPath);
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+/**
+ * Lists the files under a thoughts directory that belong in the index.
+ * The searchable/ hard link tree is skipped since it duplicates everything.
+ */
+export function listIndexableFiles(thoughtsDir: string): string[] {
+  return findFilesFollowingSymlinks(thoughtsDir).filter(
+    (relPath) => relPath.split(path.sep)[0] !== "searchable",
+  );
+}
+
+function readIndexableContent(filePath: string): string | null {
+  const buffer = fs.readFileSync(filePath);
+  // Treat anything with NUL bytes as binary
+  if (buffer.includes(0)) {
+    return null;
+  }
+  return buffer.toString("utf8");
+}
+
+/**
+ * Brings the index up to date with the files currently reachable from the
+ * thoughts directory. Only files whose mtime or size changed are re-read.
+ */
+export function updateSearchIndex(
+  index: SearchIndex,
+  thoughtsDir: string,
+  files: string[] = listIndexableFiles(thoughtsDir),
+): IndexUpdateStats {
+  const stats: IndexUpdateStats = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    total: 0,
+  };
+  const current = new Set(files);
+  const stale = new Set<string>();
+
+  for (const relPath of [...index.files.keys()]) {
+    if (!current.has(relPath)) {
+      stale.add(relPath);
+      index.files.delete(relPath);
+      stats.removed++;
+    }
+  }
+
+  const toIndex: Array<{ relPath: string; stat: fs.Stats }> = [];
+  for (const relPath of files) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(path.join(thoughtsDir, relPath));
+    } catch {
+      continue;
+    }
+
+    const existing = index.files.get(relPath);
+    if (
+      existing &&
+      existing.mtimeMs === stat.mtimeMs &&
+      existing.size === stat.size
+    ) {
+      continue;
+    }
+
+    if (existing) {
+      stale.add(relPath);
+      stats.updated++;
+    } else {
+      stats.added++;
+    }
+    toIndex.push({ relPath, stat });
+  }
+
+  // Drop postings for removed and changed files in a single pass
+  if (stale.size > 0) {
+    for (const [term, docs] of index.postings) {
+      for (const relPath of stale) {
+        docs.delete(relPath);
+      }
+      if (docs.size === 0) {
+        index.postings.delete(term);
+      }
+    }
+  }
+
+  for (const { relPath, stat } of toIndex) {
+    let tokens: string[] = [];
+    if (stat.size <= MAX_INDEXED_FILE_SIZE) {
+      try {
+        const content = readIndexableContent(path.join(thoughtsDir, relPath));
+        tokens = content ? tokenize(content) : [];
+      } catch {
+        // Unreadable file - index it as empty so it is not retried every run
+      }
+    }
+
+    tokens.forEach((token, position) => {
+      let docs = index.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        index.postings.set(token, docs);
+      }
+      const positions = docs.get(relPath);
+      if (positions) {
+        positions.push(position);
+      } else {
+        docs.set(relPath, [position]);
+      }
+    });
+
+    index.files.set(relPath, {
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      length: tokens.length,
+    });
+  }
+
+  stats.total = index.files.size;
+  return stats;
+}
+
+/**
+ * Parses a query string. Supports bare terms, "quoted phrases" and
+ * prefix* terms. All parts must match for a file to be returned.
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], prefixes: [], phrases: [] };
+  const partPattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = partPattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = tokenize(match[1]);
+      if (phrase.length === 1) {
+        parsed.terms.push(phrase[0]);
+      } else if (phrase.length > 1) {
+        parsed.phrases.push(phrase);
+      }
+      continue;
+    }
+
+    const word = match[2];
+    if (word.endsWith("*")) {
+      const prefix = tokenize(word.slice(0, -1));
+      if (prefix.length === 1) {
+        parsed.prefixes.push(prefix[0]);
+      } else {
+        parsed.terms.push(...prefix);
+      }
+    } else {
+      // Words like "foo-bar" split into several tokens and match as a phrase
+      const tokens = tokenize(word);
+      if (tokens.length > 1) {
+        parsed.phrases.push(tokens);
+      } else {
+        parsed.terms.push(...tokens);
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Checks whether a path relative to the thoughts directory falls into any of
+ * the given scopes. No scopes means everything matches.
+ */
+export function matchesScopes(
+  relPath: string,
+  scopes: SearchScope[],
+  currentUser: string,
+): boolean {
+  if (scopes.length === 0) return true;
+
+  const [first, second] = relPath.split(path.sep);
+  const owner = first === "global" ? second : first;
+
+  return scopes.some((scope) => {
+    if (scope === "global") return first === "global";
+    if (scope === "shared") return owner === "shared";
+    if (scope === "mine") return owner === currentUser;
+    return owner === scope.user;
+  });
+}
+
+// BM25 tuning parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function scoreTerm(
+  index: SearchIndex,
+  term: string,
+  relPath: string,
+  avgLength: number,
+): number {
+  const docs = index.postings.get(term);
+  const positions = docs?.get(relPath);
+  if (!docs || !positions) return 0;
+
+  const totalDocs = index.files.size;
+  const docFreq = docs.size;
+  const idf = Math.log(1 + (totalDocs - docFreq + 0.5) / (docFreq + 0.5));
+  const length = index.files.get(relPath)?.length || 0;
+  const tf = positions.length;
+
+  return (
+    (idf * tf * (BM25_K1 + 1)) /
+    (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (avgLength || 1)))
+  );
+}
+
+function phraseOccurs(
+  index: SearchIndex,
+  phrase: string[],
+  relPath: string,
+): boolean {
+  const first = index.postings.get(phrase[0])?.get(relPath);
+  if (!first) return false;
+
+  const rest = phrase
+    .slice(1)
+    .map((term) => new Set(index.postings.get(term)?.get(relPath) || []));
+
+  return first.some((start) =>
+    rest.every((positions, offset) => positions.has(start + offset + 1)),
+  );
+}
+
+/**
+ * Runs a parsed query against the index and returns matches ranked by BM25.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: SearchQuery,
+  filter: (relPath: string) => boolean = () => true,
+): SearchResult[] {
+  // Each clause yields the set of matching files and the terms to score
+  const clauses: Array<{ docs: Set<string>; terms: string[] }> = [];
+
+  for (const term of query.terms) {
+    clauses.push({
+      docs: new Set(index.postings.get(term)?.keys() || []),
+      terms: [term],
+    });
+  }
+
+  for (const prefix of query.prefixes) {
+    const terms = [...index.postings.keys()].filter((term) =>
+      term.startsWith(prefix),
+    );
+    const docs = new Set<string>();
+    terms.forEach((term) =>
+      index.postings.get(term)?.forEach((_, doc) => docs.add(doc)),
+    );
+    clauses.push({ docs, terms });
+  }
+
+  for (const phrase of query.phrases) {
+    const candidates = [...(index.postings.get(phrase[0])?.keys() || [])];
+    clauses.push({
+      docs: new Set(
+        candidates.filter((doc) => phraseOccurs(index, phrase, doc)),
+      ),
+      terms: phrase,
+    });
+  }
+
+  if (clauses.length === 0) return [];
+
+  // Intersect starting from the smallest clause
+  clauses.sort((a, b) => a.docs.size - b.docs.size);
+  const matches = [...clauses[0].docs].filter(
+    (doc) => filter(doc) && clauses.every((clause) => clause.docs.has(doc)),
+  );
+
+  const fileEntries = [...index.files.values()];
+  const avgLength =
+    fileEntries.reduce((sum, file) => sum + file.length, 0) /
+    (fileEntries.length || 1);
+
+  return matches
+    .map((doc) => ({
+      path: doc,
+      score: clauses.reduce(
+        (total, clause) =>
+          total +
+          clause.terms.reduce(
+            (sum, term) => sum + scoreTerm(index, term, doc, avgLength),
+            0,
+          ),
+        0,
+      ),
+    }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+/**
+ * Finds the first line of a file containing any of the query's words, for
+ * display alongside a result.
+ */
+export function findSnippet(
+  filePath: string,
+  query: SearchQuery,
+): { line: number; text: string } | undefined {
+  let content: string | null;
+  try {
+    content = readIndexableContent(filePath);
+  } catch {
+    return undefined;
+  }
+  if (!content) return undefined;
+
+  const words = [...query.terms, ...query.prefixes, ...query.phrases.flat()];
+  const lines = content.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const tokens = tokenize(lines[i]);
+    if (tokens.some((token) => words.some((word) => token.startsWith(word)))) {
+      return { line: i + 1, text: lines[i].trim() };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  createSearchDirectory,
+  findSearchableDrift,
+  listThoughtsFiles,
+} from "./searchable.js";
+
+describe("searchable.ts", () => {
+  let tmpDir: string;
+  let thoughtsDir: string;
+  let notesDir: string;
+
+  const writeNote = (relPath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(notesDir, relPath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(notesDir, relPath), content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-searchable-"));
+    notesDir = path.join(tmpDir, "repo", "alice");
+    thoughtsDir = path.join(tmpDir, "code", "thoughts");
+    fs.mkdirSync(notesDir, { recursive: true });
+    fs.mkdirSync(thoughtsDir, { recursive: true });
+    fs.symlinkSync(notesDir, path.join(thoughtsDir, "alice"), "dir");
+    fs.writeFileSync(path.join(thoughtsDir, "CLAUDE.md"), "generated");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const crossDevice = () => {
+    const error: NodeJS.ErrnoException = new Error("cross-device link");
+    error.code = "EXDEV";
+    return error;
+  };
+
+  it("should hard link every note through the symlinks", () => {
+    writeNote("a.md", "a");
+    writeNote("sub/b.md", "b");
+
+    expect(createSearchDirectory(thoughtsDir)).toEqual({
+      strategy: "hardlink",
+      indexed: 2,
+      added: 2,
+      updated: 0,
+      removed: 0,
+      rebuilt: true,
+      skipped: [],
+    });
+
+    const linked = path.join(thoughtsDir, "searchable", "alice", "a.md");
+    expect(fs.statSync(linked).ino).toBe(
+      fs.statSync(path.join(notesDir, "a.md")).ino,
+    );
+    expect(listThoughtsFiles(thoughtsDir).sort()).toEqual([
+      path.join("alice", "a.md"),
+      path.join("alice", "sub", "b.md"),
+    ]);
+  });
+
+  it("should report no drift right after a rebuild", () => {
+    writeNote("a.md", "a");
+    createSearchDirectory(thoughtsDir);
+
+    expect(findSearchableDrift(thoughtsDir)).toEqual({
+      missing: [],
+      stale: [],
+      drifted: [],
+    });
+  });
+
+  it("should find missing, stale and replaced notes", () => {
+    writeNote("kept.md", "x");
+    writeNote("deleted.md", "x");
+    writeNote("replaced.md", "x");
+    createSearchDirectory(thoughtsDir);
+
+    writeNote("new.md", "x");
+    fs.rmSync(path.join(notesDir, "deleted.md"));
+    // Editors that save atomically replace the file, breaking the hard link
+    fs.rmSync(path.join(notesDir, "replaced.md"));
+    writeNote("replaced.md", "y");
+
+    expect(findSearchableDrift(thoughtsDir)).toEqual({
+      missing: [path.join("alice", "new.md")],
+      stale: [path.join("alice", "deleted.md")],
+      drifted: [path.join("alice", "replaced.md")],
+    });
+  });
+
+  it("should relink only the notes that changed", () => {
+    writeNote("kept.md", "x");
+    writeNote("deleted.md", "x");
+    writeNote("replaced.md", "x");
+    writeNote("old/only.md", "x");
+    createSearchDirectory(thoughtsDir);
+    const searchDir = path.join(thoughtsDir, "searchable", "alice");
+    const kept = fs.statSync(path.join(searchDir, "kept.md")).ino;
+    // Left alone: rebuilding would reset the permissions on every sync
+    fs.chmodSync(path.join(searchDir, "kept.md"), 0o600);
+
+    writeNote("new.md", "x");
+    fs.rmSync(path.join(notesDir, "deleted.md"));
+    fs.rmSync(path.join(notesDir, "old"), { recursive: true });
+    fs.rmSync(path.join(notesDir, "replaced.md"));
+    writeNote("replaced.md", "y");
+
+    expect(createSearchDirectory(thoughtsDir)).toEqual({
+      strategy: "hardlink",
+      indexed: 3,
+      added: 1,
+      updated: 1,
+      removed: 2,
+      rebuilt: false,
+      skipped: [],
+    });
+    expect(fs.statSync(path.join(searchDir, "kept.md")).ino).toBe(kept);
+    expect(fs.statSync(path.join(searchDir, "kept.md")).mode & 0o777).toBe(
+      0o600,
+    );
+    expect(fs.existsSync(path.join(searchDir, "old"))).toBe(false);
+    expect(findSearchableDrift(thoughtsDir)).toEqual({
+      missing: [],
+      stale: [],
+      drifted: [],
+    });
+  });
+
+  it("should rebuild beside an index it cannot trust and swap it in", () => {
+    writeNote("a.md", "a");
+    const searchDir = path.join(thoughtsDir, "searchable");
+    // An index from before strategies were recorded
+    fs.mkdirSync(path.join(searchDir, "alice"), { recursive: true });
+    fs.writeFileSync(path.join(searchDir, "alice", "stray.md"), "x");
+
+    expect(createSearchDirectory(thoughtsDir)).toMatchObject({
+      indexed: 1,
+      rebuilt: true,
+    });
+    expect(fs.readdirSync(path.join(searchDir, "alice"))).toEqual(["a.md"]);
+    // Nothing left over from the build
+    expect(
+      fs.readdirSync(thoughtsDir).filter((name) => name.startsWith(".")),
+    ).toEqual([]);
+
+    // Switching strategy rebuilds too
+    expect(createSearchDirectory(thoughtsDir, "copy")).toMatchObject({
+      strategy: "copy",
+      rebuilt: true,
+    });
+    expect(fs.statSync(path.join(searchDir, "alice", "a.md")).ino).not.toBe(
+      fs.statSync(path.join(notesDir, "a.md")).ino,
+    );
+  });
+
+  it("should clean up after a swap that was interrupted", () => {
+    writeNote("a.md", "a");
+    // Pid numbers this high are never handed out
+    const gone = 2147483646;
+    for (const name of [`.searchable-${gone}`, `.searchable-${gone}.old`]) {
+      fs.mkdirSync(path.join(thoughtsDir, name, "alice"), { recursive: true });
+      fs.writeFileSync(path.join(thoughtsDir, name, "alice", "a.md"), "a");
+      // Mirror copies are read-only
+      fs.chmodSync(path.join(thoughtsDir, name, "alice"), 0o555);
+    }
+    fs.writeFileSync(path.join(thoughtsDir, `.searchable-probe-${gone}`), "");
+    // Still being built by a running process
+    const running = `.searchable-${process.ppid}`;
+    fs.mkdirSync(path.join(thoughtsDir, running));
+
+    expect(createSearchDirectory(thoughtsDir)).toMatchObject({
+      indexed: 1,
+      rebuilt: true,
+    });
+    expect(
+      fs.readdirSync(thoughtsDir).filter((name) => name.startsWith(".")),
+    ).toEqual([running]);
+  });
+
+  it("should refresh copies only where the note changed", () => {
+    writeNote("a.md", "a");
+    writeNote("b.md", "b");
+    createSearchDirectory(thoughtsDir, "copy");
+    const copied = path.join(thoughtsDir, "searchable", "alice", "a.md");
+    const untouched = fs.statSync(copied).ino;
+
+    writeNote("b.md", "changed");
+    fs.rmSync(path.join(notesDir, "a.md"));
+    writeNote("a.md", "a");
+    fs.utimesSync(
+      path.join(notesDir, "a.md"),
+      fs.statSync(copied).atime,
+      fs.statSync(copied).mtime,
+    );
+    expect(findSearchableDrift(thoughtsDir).drifted).toEqual([
+      path.join("alice", "b.md"),
+    ]);
+
+    expect(createSearchDirectory(thoughtsDir, "copy")).toMatchObject({
+      strategy: "copy",
+      indexed: 2,
+      updated: 1,
+      rebuilt: false,
+      skipped: [],
+    });
+    expect(fs.statSync(copied).ino).toBe(untouched);
+    expect(
+      fs.readFileSync(
+        path.join(thoughtsDir, "searchable", "alice", "b.md"),
+        "utf8",
+      ),
+    ).toBe("changed");
+    expect(findSearchableDrift(thoughtsDir).drifted).toEqual([]);
+  });
+
+  it("should make mirror copies read-only and drop deleted notes", () => {
+    writeNote("a.md", "a");
+    writeNote("gone.md", "x");
+    createSearchDirectory(thoughtsDir, "mirror");
+    fs.rmSync(path.join(notesDir, "gone.md"));
+
+    createSearchDirectory(thoughtsDir, "mirror");
+
+    const mirrored = path.join(thoughtsDir, "searchable", "alice", "a.md");
+    expect(fs.statSync(mirrored).mode & 0o777).toBe(0o444);
+    expect(
+      fs.existsSync(path.join(thoughtsDir, "searchable", "alice", "gone.md")),
+    ).toBe(false);
+  });
+
+  it("should report notes it cannot link instead of skipping them", () => {
+    writeNote("a.md", "a");
+    vi.spyOn(fs, "linkSync").mockImplementation(() => {
+      throw crossDevice();
+    });
+
+    expect(createSearchDirectory(thoughtsDir, "hardlink")).toMatchObject({
+      strategy: "hardlink",
+      indexed: 0,
+      skipped: [
+        {
+          path: path.join("alice", "a.md"),
+          reason: "on a different filesystem",
+        },
+      ],
+    });
+  });
+
+  it("should fall back to copies when hard links fail across filesystems", () => {
+    writeNote("a.md", "a");
+    vi.spyOn(fs, "linkSync").mockImplementation(() => {
+      throw crossDevice();
+    });
+
+    const index = createSearchDirectory(thoughtsDir);
+    expect(["reflink", "copy"]).toContain(index.strategy);
+    expect(index.indexed).toBe(1);
+    expect(
+      fs.readFileSync(
+        path.join(thoughtsDir, "searchable", "alice", "a.md"),
+        "utf8",
+      ),
+    ).toBe("a");
+  });
+
+  it("should fall back for the notes that cannot be hard linked", () => {
+    writeNote("a.md", "a");
+    writeNote("b.md", "b");
+    const linkSync = fs.linkSync;
+    // Only b.md lives on another filesystem; the probe uses a.md
+    vi.spyOn(fs, "linkSync").mockImplementation((source, target) => {
+      if (String(source).endsWith("b.md")) throw crossDevice();
+      linkSync(source, target);
+    });
+
+    expect(createSearchDirectory(thoughtsDir)).toMatchObject({
+      strategy: "hardlink",
+      indexed: 2,
+      added: 2,
+      skipped: [],
+    });
+    const searchDir = path.join(thoughtsDir, "searchable", "alice");
+    expect(fs.statSync(path.join(searchDir, "a.md")).ino).toBe(
+      fs.statSync(path.join(notesDir, "a.md")).ino,
+    );
+    expect(fs.readFileSync(path.join(searchDir, "b.md"), "utf8")).toBe("b");
+
+    // The copy is not mistaken for a broken link on the next run
+    expect(findSearchableDrift(thoughtsDir).drifted).toEqual([]);
+    expect(createSearchDirectory(thoughtsDir)).toMatchObject({
+      indexed: 2,
+      added: 0,
+      updated: 0,
+      rebuilt: false,
+    });
+  });
+});
@@ -0,0 +1,425 @@
+import fs from "fs";
+import path from "path";
+import { execSync } from "child_process";
+import { findFilesFollowingSymlinks } from "./thoughtsConfig.js";
+import { isProcessRunning } from "./lock.js";
+import type { SearchableStrategy } from "./config.js";
+
+export const SEARCHABLE_DIR = "searchable";
+
+// Records the strategy the index was built with; hidden from the listings
+const INDEX_MARKER = ".index.json";
+
+// Build directories, the index they replace and probe files, named after
+// the pid of the process working on them
+const WORK_ENTRY = new RegExp(
+  `^\\.${SEARCHABLE_DIR}-(?:probe-)?(\\d+)(?:\\.old)?$`,
+);
+
+export type IndexStrategy = Exclude<SearchableStrategy, "auto">;
+
+export const INDEX_STRATEGIES: IndexStrategy[] = [
+  "hardlink",
+  "reflink",
+  "copy",
+  "mirror",
+];
+
+// What auto tries, best first
+const AUTO_STRATEGIES: IndexStrategy[] = ["hardlink", "reflink", "copy"];
+
+interface IndexMarker {
+  strategy: IndexStrategy;
+  // Entries indexed with a later strategy than the index's own, by path
+  fallbacks: Record<string, IndexStrategy>;
+}
+
+export interface SkippedFile {
+  path: string; // Relative to the thoughts directory
+  reason: string;
+}
+
+export interface SearchIndexResult {
+  strategy: IndexStrategy;
+  indexed: number; // Notes in the index afterwards
+  added: number;
+  updated: number; // Entries replaced because their note changed
+  removed: number; // Entries whose note is gone
+  rebuilt: boolean; // Whether the whole index was built anew and swapped in
+  skipped: SkippedFile[];
+}
+
+export interface SearchableDrift {
+  missing: string[]; // Notes without an entry in searchable/
+  stale: string[]; // Entries whose note no longer exists
+  drifted: string[]; // Entries that no longer match the note
+}
+
+/**
+ * Lists the notes reachable through a thoughts directory, relative to it,
+ * leaving out the searchable directory itself
+ */
+export function listThoughtsFiles(thoughtsDir: string): string[] {
+  return findFilesFollowingSymlinks(thoughtsDir).filter(
+    (relPath) => relPath.split(path.sep)[0] !== SEARCHABLE_DIR,
+  );
+}
+
+function removeDirectory(dir: string): void {
+  if (!fs.existsSync(dir)) return;
+  try {
+    // Reset permissions so we can delete it
+    execSync(`chmod -R 755 "${dir}"`, { stdio: "pipe" });
+  } catch {
+    // Ignore chmod errors
+  }
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+function readIndexMarker(searchDir: string): IndexMarker | null {
+  try {
+    const marker = JSON.parse(
+      fs.readFileSync(path.join(searchDir, INDEX_MARKER), "utf8"),
+    );
+    if (!INDEX_STRATEGIES.includes(marker.strategy)) return null;
+    return { strategy: marker.strategy, fallbacks: marker.fallbacks || {} };
+  } catch {
+    return null;
+  }
+}
+
+function describeIndexError(error: unknown): string {
+  switch ((error as NodeJS.ErrnoException).code) {
+    case "EXDEV":
+      return "on a different filesystem";
+    case "EPERM":
+    case "EACCES":
+      return "permission denied";
+    case "ENOTSUP":
+    case "EOPNOTSUPP":
+    case "ENOSYS":
+      return "not supported by the filesystem";
+    default:
+      return (error as Error).message || String(error);
+  }
+}
+
+// Errors that mean the strategy cannot work for a file, as opposed to the
+// file itself being unreadable
+function isStrategyUnsupported(error: unknown): boolean {
+  return ["EXDEV", "EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"].includes(
+    (error as NodeJS.ErrnoException).code || "",
+  );
+}
+
+function indexFile(
+  sourcePath: string,
+  targetPath: string,
+  strategy: IndexStrategy,
+): void {
+  if (strategy === "hardlink") {
+    fs.linkSync(sourcePath, targetPath);
+    return;
+  }
+
+  fs.copyFileSync(
+    sourcePath,
+    targetPath,
+    strategy === "reflink" ? fs.constants.COPYFILE_FICLONE_FORCE : 0,
+  );
+  // The source's mtime tells later rebuilds whether the copy is current
+  const source = fs.statSync(sourcePath);
+  fs.utimesSync(targetPath, source.atimeMs / 1000, source.mtimeMs / 1000);
+  if (strategy === "mirror") {
+    fs.chmodSync(targetPath, 0o444);
+  }
+}
+
+/**
+ * Indexes a note with the first of strategies that works for it, moving on
+ * only when the previous one is unsupported for this file. Returns the
+ * strategy used.
+ */
+function indexFileWithFallback(
+  sourcePath: string,
+  targetPath: string,
+  strategies: IndexStrategy[],
+): IndexStrategy {
+  for (let i = 0; ; i++) {
+    try {
+      indexFile(sourcePath, targetPath, strategies[i]);
+      return strategies[i];
+    } catch (error) {
+      if (i === strategies.length - 1 || !isStrategyUnsupported(error)) {
+        throw error;
+      }
+      // A failed clone can leave an empty file behind
+      fs.rmSync(targetPath, { force: true });
+    }
+  }
+}
+
+function isCopyCurrent(sourcePath: string, targetPath: string): boolean {
+  try {
+    const source = fs.statSync(sourcePath);
+    const target = fs.statSync(targetPath);
+    return (
+      source.size === target.size &&
+      // Timestamps set through utimes may lose sub-millisecond precision
+      Math.abs(source.mtimeMs - target.mtimeMs) < 1
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Picks the best strategy that works between a note and a directory on the
+ * searchable directory's filesystem by trying each on it: a hard link, then
+ * a copy-on-write clone, then a plain copy
+ */
+export function probeIndexStrategy(
+  sourcePath: string,
+  dir: string,
+): IndexStrategy {
+  const probePath = path.join(dir, `.searchable-probe-${process.pid}`);
+  for (const strategy of AUTO_STRATEGIES.slice(0, -1)) {
+    try {
+      indexFile(sourcePath, probePath, strategy);
+      return strategy;
+    } catch {
+      // Try the next one
+    } finally {
+      fs.rmSync(probePath, { force: true });
+    }
+  }
+  return "copy";
+}
+
+function isEntryCurrent(
+  sourcePath: string,
+  targetPath: string,
+  strategy: IndexStrategy,
+): boolean {
+  if (strategy !== "hardlink") return isCopyCurrent(sourcePath, targetPath);
+  try {
+    const source = fs.statSync(sourcePath);
+    const link = fs.statSync(targetPath);
+    return source.ino === link.ino && source.dev === link.dev;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes the empty directories under dir, leaving dir itself.
+ * Returns whether dir ended up empty.
+ */
+function removeEmptyDirectories(dir: string): boolean {
+  let empty = true;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && removeEmptyDirectories(fullPath)) {
+      fs.rmdirSync(fullPath);
+    } else {
+      empty = false;
+    }
+  }
+  return empty;
+}
+
+/**
+ * Fills dir with an entry for every note, replacing entries that no longer
+ * match their note and removing those whose note is gone. Records the
+ * outcome in result. With fallback, a note the index's strategy does not
+ * work for (one on another filesystem, say) gets the next auto strategy
+ * that does, and the marker remembers which entries those are.
+ */
+function reconcileIndex(
+  dir: string,
+  sources: Map<string, string>,
+  result: SearchIndexResult,
+  fallback: boolean,
+): void {
+  const previous = readIndexMarker(dir)?.fallbacks || {};
+  const fallbacks: Record<string, IndexStrategy> = {};
+  const strategies = fallback
+    ? AUTO_STRATEGIES.slice(AUTO_STRATEGIES.indexOf(result.strategy))
+    : [result.strategy];
+
+  let removedAny = false;
+  for (const relPath of findFilesFollowingSymlinks(dir)) {
+    if (!sources.has(relPath)) {
+      fs.rmSync(path.join(dir, relPath), { force: true });
+      result.removed++;
+      removedAny = true;
+    }
+  }
+  if (removedAny) removeEmptyDirectories(dir);
+
+  for (const [relPath, sourcePath] of sources) {
+    const targetPath = path.join(dir, relPath);
+    const exists = fs.existsSync(targetPath);
+    const entryStrategy = previous[relPath] || result.strategy;
+    if (exists && isEntryCurrent(sourcePath, targetPath, entryStrategy)) {
+      if (entryStrategy !== result.strategy) {
+        fallbacks[relPath] = entryStrategy;
+      }
+      result.indexed++;
+      continue;
+    }
+
+    try {
+      if (exists) {
+        fs.rmSync(targetPath, { recursive: true, force: true });
+      } else {
+        fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      }
+      const used = indexFileWithFallback(sourcePath, targetPath, strategies);
+      if (used !== result.strategy) fallbacks[relPath] = used;
+      result.indexed++;
+      if (exists) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+    } catch (error) {
+      result.skipped.push({ path: relPath, reason: describeIndexError(error) });
+    }
+  }
+
+  fs.writeFileSync(
+    path.join(dir, INDEX_MARKER),
+    JSON.stringify({ strategy: result.strategy, fallbacks }),
+  );
+}
+
+/**
+ * Removes what an interrupted run left next to searchable/: a half-built
+ * index, the old one it was replacing, or a probe file. Entries of a process
+ * that is still running are left to it.
+ */
+function removeStaleWorkEntries(thoughtsDir: string): void {
+  for (const name of fs.readdirSync(thoughtsDir)) {
+    const match = name.match(WORK_ENTRY);
+    if (!match) continue;
+    const pid = parseInt(match[1], 10);
+    if (pid === process.pid || !isProcessRunning(pid)) {
+      removeDirectory(path.join(thoughtsDir, name));
+    }
+  }
+}
+
+/**
+ * Brings thoughts/searchable up to date so search tools that do not follow
+ * symlinks can find every note. Only entries whose note was added, removed
+ * or changed (by inode for hard links, by size and mtime for copies) are
+ * touched. An index without a usable record of its strategy, or built with
+ * another one, is rebuilt beside it and swapped in with two renames, so
+ * searchable/ is only missing for the moment between them rather than for
+ * the whole rebuild. Whatever an interrupted swap left behind is removed on
+ * the next run. With "auto", a note the probed strategy does not work for
+ * gets the next one that does. Files that cannot be indexed are returned
+ * with the reason rather than dropped silently.
+ */
+export function createSearchDirectory(
+  thoughtsDir: string,
+  strategy: SearchableStrategy = "auto",
+): SearchIndexResult {
+  const searchDir = path.join(thoughtsDir, SEARCHABLE_DIR);
+
+  // Remove the old .search directory
+  removeDirectory(path.join(thoughtsDir, ".search"));
+  removeStaleWorkEntries(thoughtsDir);
+
+  // Get all files accessible through the thoughts directory (following symlinks)
+  const allFiles = listThoughtsFiles(thoughtsDir);
+  const sources = new Map<string, string>();
+  const result: SearchIndexResult = {
+    strategy: strategy === "auto" ? "hardlink" : strategy,
+    indexed: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    rebuilt: false,
+    skipped: [],
+  };
+  for (const relPath of allFiles) {
+    try {
+      // Resolve symlinks to get the real file path
+      sources.set(relPath, fs.realpathSync(path.join(thoughtsDir, relPath)));
+    } catch (error) {
+      result.skipped.push({ path: relPath, reason: describeIndexError(error) });
+    }
+  }
+
+  if (strategy === "auto" && sources.size > 0) {
+    result.strategy = probeIndexStrategy(
+      sources.values().next().value!,
+      thoughtsDir,
+    );
+  }
+
+  if (
+    fs.existsSync(searchDir) &&
+    readIndexMarker(searchDir)?.strategy === result.strategy
+  ) {
+    reconcileIndex(searchDir, sources, result, strategy === "auto");
+    return result;
+  }
+
+  // Build the new index next to the old one, then swap them
+  const buildDir = path.join(thoughtsDir, `.${SEARCHABLE_DIR}-${process.pid}`);
+  removeDirectory(buildDir);
+  fs.mkdirSync(buildDir);
+  reconcileIndex(buildDir, sources, result, strategy === "auto");
+  result.rebuilt = true;
+
+  if (fs.existsSync(searchDir)) {
+    const oldDir = `${buildDir}.old`;
+    fs.renameSync(searchDir, oldDir);
+    fs.renameSync(buildDir, searchDir);
+    removeDirectory(oldDir);
+  } else {
+    fs.renameSync(buildDir, searchDir);
+  }
+  return result;
+}
+
+/**
+ * Compares thoughts/searchable with the notes it should mirror. Editors that
+ * save by replacing files break hard links, leaving outdated copies behind;
+ * copies are outdated once the note's size or mtime changes.
+ */
+export function findSearchableDrift(thoughtsDir: string): SearchableDrift {
+  const searchDir = path.join(thoughtsDir, SEARCHABLE_DIR);
+  const drift: SearchableDrift = { missing: [], stale: [], drifted: [] };
+  const marker = readIndexMarker(searchDir);
+  const strategy = marker?.strategy || "hardlink";
+
+  const sources = listThoughtsFiles(thoughtsDir);
+  const links = new Set(
+    fs.existsSync(searchDir) ? findFilesFollowingSymlinks(searchDir) : [],
+  );
+
+  for (const relPath of sources) {
+    if (!links.has(relPath)) {
+      drift.missing.push(relPath);
+      continue;
+    }
+    links.delete(relPath);
+
+    if (
+      !isEntryCurrent(
+        path.join(thoughtsDir, relPath),
+        path.join(searchDir, relPath),
+        marker?.fallbacks[relPath] || strategy,
+      )
+    ) {
+      drift.drifted.push(relPath);
+    }
+  }
+
+  drift.stale = [...links];
+  return drift;
+}
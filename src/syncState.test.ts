@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { spawn } from "child_process";
+import {
+  formatTimeAgo,
+  getSyncStatePath,
+  getThoughtsRepoState,
+  readSyncState,
+  recordSync,
+} from "./syncState.js";
+
+describe("syncState.ts", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-state-test-"));
+    vi.stubEnv("XDG_STATE_HOME", tmpDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should record syncs per thoughts repository", () => {
+    const time = new Date("2026-03-01T10:00:00Z");
+    recordSync("/notes/work", time);
+    recordSync("/notes/personal");
+
+    expect(getSyncStatePath()).toBe(
+      path.join(tmpDir, "humanlayer", "sync-state.json"),
+    );
+    expect(getThoughtsRepoState("/notes/work")).toEqual({
+      lastSync: "2026-03-01T10:00:00.000Z",
+    });
+    expect(Object.keys(readSyncState().repos).sort()).toEqual([
+      "/notes/personal",
+      "/notes/work",
+    ]);
+    expect(getThoughtsRepoState("/notes/other")).toEqual({});
+  });
+
+  it("should treat an unreadable state file as empty", () => {
+    fs.mkdirSync(path.dirname(getSyncStatePath()), { recursive: true });
+    fs.writeFileSync(getSyncStatePath(), "{ broken");
+
+    expect(readSyncState()).toEqual({ repos: {} });
+    recordSync("/notes/work");
+    expect(getThoughtsRepoState("/notes/work").lastSync).toBeDefined();
+  });
+
+  it("should format past times relative to now", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    expect(formatTimeAgo("2026-03-01T11:59:30Z", now)).toBe("just now");
+    expect(formatTimeAgo("2026-03-01T11:15:00Z", now)).toBe("45m ago");
+    expect(formatTimeAgo("2026-03-01T07:00:00Z", now)).toBe("5h ago");
+    expect(formatTimeAgo("2026-02-26T12:00:00Z", now)).toBe("3d ago");
+    expect(formatTimeAgo("not a date", now)).toBe("unknown");
+  });
+
+  it("should wait for another process updating the state", async () => {
+    const statePath = getSyncStatePath();
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    const lockInfo = JSON.stringify({
+      hostname: os.hostname(),
+      command: "state",
+      createdAt: new Date().toISOString(),
+    });
+    const theirs = JSON.stringify({ repos: { "/notes/theirs": {} } });
+    // Takes the lock, then writes its update a little later
+    const other = spawn(
+      "sh",
+      [
+        "-c",
+        `printf '{"pid":%s,%s' "$$" "\${1#\\{}" > "$2.tmp"; mv "$2.tmp" "$2.lock"; sleep 0.5; printf '%s' "$3" > "$2"; rm "$2.lock"`,
+        "sh",
+        lockInfo,
+        statePath,
+        theirs,
+      ],
+      { stdio: "ignore" },
+    );
+    const exited = new Promise((resolve) => other.on("exit", resolve));
+    await vi.waitFor(() =>
+      expect(fs.existsSync(`${statePath}.lock`)).toBe(true),
+    );
+
+    recordSync("/notes/mine");
+    await exited;
+
+    expect(Object.keys(readSyncState().repos).sort()).toEqual([
+      "/notes/mine",
+      "/notes/theirs",
+    ]);
+    expect(fs.existsSync(`${statePath}.lock`)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { getDefaultStateDir } from "./config.js";
+import { expandPath } from "./thoughtsConfig.js";
+import { tryAcquireLockFile } from "./lock.js";
+
+// An update takes milliseconds, so a lock held longer was abandoned
+const STATE_LOCK_STALE_MS = 10 * 1000;
+const STATE_LOCK_TIMEOUT_MS = 5 * 1000;
+const STATE_LOCK_POLL_MS = 20;
+
+export interface RepoSnapshot {
+  time: string; // ISO time status or sync last looked at the repository
+  branch: string | null;
+  changes: number | null; // Uncommitted files, null if never counted
+  ahead: number | null; // Null without an upstream
+  behind: number | null;
+}
+
+export interface ThoughtsRepoState {
+  lastSync?: string; // ISO time of the last completed sync
+  lastFetch?: string; // ISO time the remote was last fetched or pulled
+  snapshot?: RepoSnapshot; // Read by "thoughts prompt" instead of running git
+}
+
+export interface SyncState {
+  repos: Record<string, ThoughtsRepoState>; // Keyed by expanded thoughts repo path
+}
+
+export function getSyncStatePath(): string {
+  return path.join(getDefaultStateDir(), "sync-state.json");
+}
+
+/**
+ * Reads what is known about past syncs. The state is only a record, so a
+ * missing or unreadable file counts as empty.
+ */
+export function readSyncState(): SyncState {
+  try {
+    const state = JSON.parse(fs.readFileSync(getSyncStatePath(), "utf8"));
+    if (state && typeof state.repos === "object" && state.repos !== null) {
+      return state;
+    }
+  } catch {
+    // Missing or corrupt - start over
+  }
+  return { repos: {} };
+}
+
+function writeSyncState(state: SyncState): void {
+  const statePath = getSyncStatePath();
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  // Write then rename so concurrent readers never see a partial file
+  const tmpPath = `${statePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+export function getThoughtsRepoState(thoughtsRepo: string): ThoughtsRepoState {
+  return readSyncState().repos[expandPath(thoughtsRepo)] || {};
+}
+
+/**
+ * Runs fn holding the state file's lock, so updates from concurrent commands
+ * do not overwrite each other. Callers are synchronous, so it waits by
+ * blocking. The state is only a record: if the lock cannot be had in time,
+ * fn runs anyway rather than failing the command.
+ */
+function withSyncStateLock(fn: () => void): void {
+  const lockPath = `${getSyncStatePath()}.lock`;
+  const deadline = Date.now() + STATE_LOCK_TIMEOUT_MS;
+  let lock = tryAcquireLockFile(lockPath, "state", STATE_LOCK_STALE_MS);
+  while (!lock && Date.now() < deadline) {
+    Atomics.wait(
+      new Int32Array(new SharedArrayBuffer(4)),
+      0,
+      0,
+      STATE_LOCK_POLL_MS,
+    );
+    lock = tryAcquireLockFile(lockPath, "state", STATE_LOCK_STALE_MS);
+  }
+  try {
+    fn();
+  } finally {
+    lock?.release();
+  }
+}
+
+export function updateThoughtsRepoState(
+  thoughtsRepo: string,
+  update: Partial<ThoughtsRepoState>,
+): void {
+  withSyncStateLock(() => {
+    const state = readSyncState();
+    const key = expandPath(thoughtsRepo);
+    state.repos[key] = { ...state.repos[key], ...update };
+    writeSyncState(state);
+  });
+}
+
+export function recordSync(thoughtsRepo: string, time = new Date()): void {
+  updateThoughtsRepoState(thoughtsRepo, { lastSync: time.toISOString() });
+}
+
+export function recordFetch(thoughtsRepo: string, time = new Date()): void {
+  updateThoughtsRepoState(thoughtsRepo, { lastFetch: time.toISOString() });
+}
+
+/**
+ * Formats a past time as "5m ago", "3h ago" or "2d ago"
+ */
+export function formatTimeAgo(time: string | Date, now = new Date()): string {
+  const seconds = Math.floor((now.getTime() - new Date(time).getTime()) / 1000);
+  if (isNaN(seconds)) return "unknown";
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+  BUILTIN_TEMPLATES,
+  TEMPLATES_DIR,
+  formatDate,
+  listTemplateNames,
+  loadTemplate,
+  renderTemplate,
+  slugify,
+} from "./templates.js";
+
+describe("templates.ts", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-templates-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("slugify()", () => {
+    it("should lowercase and hyphenate", () => {
+      expect(slugify("Fix Auth Bug!")).toBe("fix-auth-bug");
+    });
+
+    it("should strip accents", () => {
+      expect(slugify("Café résumé")).toBe("cafe-resume");
+    });
+
+    it("should keep letters and digits of other scripts", () => {
+      expect(slugify("会議メモ 2026")).toBe("会議メモ-2026");
+      expect(slugify("Привет, мир!")).toBe("привет-мир");
+      expect(slugify("회의 노트")).toBe("회의-노트");
+      expect(slugify("हिन्दी नोट्स")).toBe("हिन्दी-नोट्स");
+      expect(slugify("บันทึก ประชุม")).toBe("บันทึก-ประชุม");
+      expect(slugify("𠀀".repeat(61))).toBe("𠀀".repeat(60));
+    });
+
+    it("should trim leading and trailing separators", () => {
+      expect(slugify("  --Hello, World--  ")).toBe("hello-world");
+    });
+
+    it("should limit length without a trailing hyphen", () => {
+      const slug = slugify("word ".repeat(30));
+      expect(slug.length).toBeLessThanOrEqual(60);
+      expect(slug.endsWith("-")).toBe(false);
+    });
+
+    it("should return empty string for symbols only", () => {
+      expect(slugify("!!!")).toBe("");
+    });
+  });
+
+  describe("formatDate()", () => {
+    it("should format as YYYY-MM-DD", () => {
+      expect(formatDate(new Date(2024, 0, 5))).toBe("2024-01-05");
+    });
+  });
+
+  describe("renderTemplate()", () => {
+    const variables = {
+      title: "My Plan",
+      date: "2024-01-05",
+      user: "alice",
+      repo: "project",
+    };
+
+    it("should replace known placeholders", () => {
+      expect(renderTemplate("# {{title}} by {{ user }}", variables)).toBe(
+        "# My Plan by alice",
+      );
+    });
+
+    it("should leave unknown placeholders untouched", () => {
+      expect(renderTemplate("{{ticket}} {{constructor}}", variables)).toBe(
+        "{{ticket}} {{constructor}}",
+      );
+    });
+
+    it("should render every built-in template", () => {
+      for (const template of Object.values(BUILTIN_TEMPLATES)) {
+        const rendered = renderTemplate(template, variables);
+        expect(rendered).toContain("My Plan");
+        expect(rendered).not.toMatch(/\{\{/);
+      }
+    });
+  });
+
+  describe("loadTemplate()", () => {
+    it("should load built-in templates", () => {
+      expect(loadTemplate(tmpDir, "adr")).toBe(BUILTIN_TEMPLATES.adr);
+    });
+
+    it("should prefer user templates over built-ins", () => {
+      fs.mkdirSync(path.join(tmpDir, TEMPLATES_DIR));
+      fs.writeFileSync(path.join(tmpDir, TEMPLATES_DIR, "adr.md"), "custom");
+
+      expect(loadTemplate(tmpDir, "adr")).toBe("custom");
+    });
+
+    it("should return undefined for unknown templates", () => {
+      expect(loadTemplate(tmpDir, "missing")).toBeUndefined();
+      expect(loadTemplate(tmpDir, "toString")).toBeUndefined();
+    });
+  });
+
+  describe("listTemplateNames()", () => {
+    it("should merge built-in and user templates", () => {
+      fs.mkdirSync(path.join(tmpDir, TEMPLATES_DIR));
+      fs.writeFileSync(path.join(tmpDir, TEMPLATES_DIR, "retro.md"), "x");
+      fs.writeFileSync(path.join(tmpDir, TEMPLATES_DIR, "plan.md"), "x");
+      fs.writeFileSync(path.join(tmpDir, TEMPLATES_DIR, "notes.txt"), "x");
+
+      expect(listTemplateNames(tmpDir)).toEqual([
+        "adr",
+        "handoff",
+        "note",
+        "plan",
+        "research",
+        "retro",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import fs from "fs";
+import path from "path";
+
+// Directory inside a thoughts repository holding user-defined templates
+export const TEMPLATES_DIR = "templates";
+
+export interface TemplateVariables {
+  title: string;
+  date: string;
+  user: string;
+  repo: string;
+}
+
+export const BUILTIN_TEMPLATES: Record<string, string> = {
+  note: `# {{title}}
+
+`,
+  research: `---
+date: {{date}}
+author: {{user}}
+repository: {{repo}}
+type: research
+---
+
+# Research: {{title}}
+
+## Question
+
+## Summary
+
+## Detailed Findings
+
+## Code References
+
+## Open Questions
+`,
+  plan: `---
+date: {{date}}
+author: {{user}}
+repository: {{repo}}
+type: plan
+status: draft
+---
+
+# {{title}} Implementation Plan
+
+## Overview
+
+## Current State
+
+## Desired End State
+
+## What We're NOT Doing
+
+## Phase 1
+
+### Changes Required
+
+### Success Criteria
+
+## Testing Strategy
+
+## References
+`,
+  adr: `---
+date: {{date}}
+author: {{user}}
+repository: {{repo}}
+type: adr
+status: proposed
+---
+
+# ADR: {{title}}
+
+## Context
+
+## Decision
+
+## Consequences
+
+## Alternatives Considered
+`,
+  handoff: `---
+date: {{date}}
+author: {{user}}
+repository: {{repo}}
+type: handoff
+---
+
+# Handoff: {{title}}
+
+## Task(s)
+
+## Recent Changes
+
+## Learnings
+
+## Artifacts
+
+## Next Steps
+`,
+};
+
+/**
+ * Converts a title to a filename-safe slug (e.g. "Fix Auth Bug!" → "fix-auth-bug").
+ * Accents are dropped from Latin letters, but letters, marks and digits of
+ * any script are kept (e.g. "会議メモ" stays "会議メモ").
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    // Recompose what NFKD split apart, such as Hangul syllables
+    .normalize("NFC")
+    .toLowerCase()
+    // Marks too: vowel signs and viramas are part of words in Indic and Thai
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  // By code point, so a character outside the BMP is never cut in half
+  return [...slug].slice(0, 60).join("").replace(/-+$/, "");
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Replaces {{name}} placeholders; unknown placeholders are left untouched
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name as keyof TemplateVariables]
+      : match,
+  );
+}
+
+/**
+ * Lists user templates stored in the thoughts repository (name → file path)
+ */
+export function listUserTemplates(
+  expandedThoughtsRepo: string,
+): Record<string, string> {
+  const templatesDir = path.join(expandedThoughtsRepo, TEMPLATES_DIR);
+  const templates: Record<string, string> = {};
+
+  if (!fs.existsSync(templatesDir)) {
+    return templates;
+  }
+
+  for (const entry of fs.readdirSync(templatesDir, { withFileTypes: true })) {
+    if (entry.isFile() && entry.name.endsWith(".md")) {
+      templates[path.basename(entry.name, ".md")] = path.join(
+        templatesDir,
+        entry.name,
+      );
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Lists the names of all available templates. User templates shadow
+ * built-in templates with the same name.
+ */
+export function listTemplateNames(expandedThoughtsRepo: string): string[] {
+  return [
+    ...new Set([
+      ...Object.keys(BUILTIN_TEMPLATES),
+      ...Object.keys(listUserTemplates(expandedThoughtsRepo)),
+    ]),
+  ].sort();
+}
+
+/**
+ * Loads a template by name, preferring user templates over built-ins.
+ * Returns undefined if no template with that name exists.
+ */
+export function loadTemplate(
+  expandedThoughtsRepo: string,
+  name: string,
+): string | undefined {
+  const userTemplates = listUserTemplates(expandedThoughtsRepo);
+  if (Object.prototype.hasOwnProperty.call(userTemplates, name)) {
+    return fs.readFileSync(userTemplates[name], "utf8");
+  }
+  return Object.prototype.hasOwnProperty.call(BUILTIN_TEMPLATES, name)
+    ? BUILTIN_TEMPLATES[name]
+    : undefined;
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import fs from "fs";
 import path from "path";
 import os from "os";
+import { execSync } from "child_process";
 import {
   expandPath,
   getDefaultThoughtsRepo,
@@ -11,8 +12,13 @@ import {
   ensureThoughtsRepoExists,
   createThoughtsDirectoryStructure,
   updateSymlinksForNewUsers,
+  getRepoRemoteUrl,
+  resolveRepoMapping,
+  loadThoughtsConfig,
   type ResolvedProfileConfig,
+  type ThoughtsConfig,
 } from "./thoughtsConfig.js";
+import { CONFIG_VERSION } from "./configSchema.js";
 
 describe("thoughtsConfig.ts filesystem functions", () => {
   let tmpDir: string;
@@ -394,4 +400,112 @@ describe("thoughtsConfig.ts filesystem functions", () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe("resolveRepoMapping()", () => {
+    let configFile: string;
+
+    const makeCheckout = (name: string, remote?: string) => {
+      const repoPath = path.join(tmpDir, name);
+      fs.mkdirSync(repoPath, { recursive: true });
+      execSync("git init -q", { cwd: repoPath, stdio: "pipe" });
+      if (remote) {
+        execSync(`git remote add origin ${remote}`, {
+          cwd: repoPath,
+          stdio: "pipe",
+        });
+      }
+      return repoPath;
+    };
+
+    const makeConfig = (
+      repoMappings: ThoughtsConfig["repoMappings"],
+    ): ThoughtsConfig => ({
+      thoughtsRepo: "~/thoughts",
+      reposDir: "repos",
+      globalDir: "global",
+      user: "test",
+      repoMappings,
+    });
+
+    const initialConfig = JSON.stringify({ version: CONFIG_VERSION });
+
+    beforeEach(() => {
+      configFile = path.join(tmpDir, "config.json");
+      fs.writeFileSync(configFile, initialConfig);
+    });
+
+    it("should read the normalized origin remote", () => {
+      const repo = makeCheckout("a", "git@github.com:org/project.git");
+      expect(getRepoRemoteUrl(repo)).toBe("github.com/org/project");
+      expect(getRepoRemoteUrl(makeCheckout("b"))).toBeNull();
+    });
+
+    it("should record the remote on path-keyed mappings", () => {
+      const repo = makeCheckout("a", "https://github.com/org/project");
+      const config = makeConfig({ [repo]: "project" });
+
+      const match = resolveRepoMapping(config, repo, { configFile });
+      expect(match?.matchedBy).toBe("path");
+      expect(match?.mapping).toEqual({
+        repo: "project",
+        remote: "github.com/org/project",
+      });
+      expect(loadThoughtsConfig({ configFile })?.repoMappings).toEqual(
+        config.repoMappings,
+      );
+    });
+
+    it("should leave mappings alone without a remote", () => {
+      const repo = makeCheckout("a");
+      const config = makeConfig({ [repo]: "project" });
+
+      expect(resolveRepoMapping(config, repo, { configFile })?.mapping).toBe(
+        "project",
+      );
+      expect(fs.readFileSync(configFile, "utf8")).toBe(initialConfig);
+    });
+
+    it("should re-key a mapping whose checkout moved", () => {
+      const repo = makeCheckout("new", "git@github.com:org/project.git");
+      const gone = path.join(tmpDir, "gone");
+      const config = makeConfig({
+        [gone]: {
+          repo: "project",
+          profile: "work",
+          remote: "github.com/org/project",
+        },
+      });
+
+      const match = resolveRepoMapping(config, repo, { configFile });
+      expect(match?.matchedBy).toBe("remote");
+      expect(match?.repoPath).toBe(gone);
+      expect(config.repoMappings).toEqual({
+        [repo]: {
+          repo: "project",
+          profile: "work",
+          remote: "github.com/org/project",
+        },
+      });
+    });
+
+    it("should add a mapping for a second checkout", () => {
+      const first = makeCheckout("first", "git@github.com:org/project.git");
+      const second = makeCheckout("second", "https://github.com/org/project");
+      const config = makeConfig({
+        [first]: { repo: "project", remote: "github.com/org/project" },
+      });
+
+      resolveRepoMapping(config, second, { configFile });
+      expect(Object.keys(config.repoMappings).sort()).toEqual(
+        [first, second].sort(),
+      );
+      expect(config.repoMappings[second]).toEqual(config.repoMappings[first]);
+    });
+
+    it("should return undefined for unmapped repositories", () => {
+      const repo = makeCheckout("a", "git@github.com:org/other.git");
+      const config = makeConfig({});
+      expect(resolveRepoMapping(config, repo, { configFile })).toBeUndefined();
+    });
+  });
 });
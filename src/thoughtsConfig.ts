@@ -2,8 +2,21 @@ import fs from "fs";
 import path from "path";
 import os from "os";
 import { execSync } from "child_process";
-import { loadConfigFile, saveConfigFile } from "./config.js";
-import type { RepoMappingObject, ProfileConfig } from "./config.js";
+import {
+  explainConfigValue,
+  loadConfigFile,
+  loadConfigLayers,
+  mergeConfigLayers,
+  saveConfigFile,
+} from "./config.js";
+import { formatSchemaError, validateThoughtsConfig } from "./configSchema.js";
+import type {
+  HooksPolicy,
+  RepoMappingObject,
+  ProfileConfig,
+  ProfileRule,
+  SearchableStrategy,
+} from "./config.js";
 
 export interface ThoughtsConfig {
   thoughtsRepo: string;
@@ -12,6 +25,9 @@ export interface ThoughtsConfig {
   user: string;
   repoMappings: Record<string, string | RepoMappingObject>;
   profiles?: Record<string, ProfileConfig>;
+  profileRules?: ProfileRule[];
+  defaultProfile?: string;
+  searchableStrategy?: SearchableStrategy;
 }
 
 export interface ResolvedProfileConfig {
@@ -19,22 +35,69 @@ export interface ResolvedProfileConfig {
   reposDir: string;
   globalDir: string;
   profileName?: string; // undefined for default config
+  remote?: string;
+  hooks?: HooksPolicy;
 }
 
+export interface RepoMappingMatch {
+  repoPath: string; // Key of the mapping in repoMappings
+  mapping: string | RepoMappingObject;
+  matchedBy: "path" | "remote";
+}
+
+export interface ProfileRuleMatch {
+  profile: string;
+  rule?: ProfileRule; // undefined when defaultProfile was used
+}
+
+export interface ProfileRuleConflict {
+  mappedProfile?: string; // undefined for the default thoughts repository
+  ruleProfile?: string; // likewise
+  rule?: ProfileRule; // undefined when defaultProfile or no rule applies
+}
+
+export interface ConfigFileOptions {
+  configFile?: string;
+}
+
+/**
+ * Loads the effective thoughts config, failing with the JSON path (and the
+ * file it came from) of every invalid value instead of crashing later
+ */
 export function loadThoughtsConfig(
-  options: Record<string, unknown> = {},
+  options: ConfigFileOptions = {},
 ): ThoughtsConfig | null {
-  const configFile = loadConfigFile(options.configFile as string | undefined);
-  return configFile.thoughts || null;
+  const layers = loadConfigLayers(options.configFile);
+  const configFile = mergeConfigLayers(layers);
+  if (!configFile.thoughts) return null;
+
+  const errors = validateThoughtsConfig(configFile.thoughts);
+  if (errors.length > 0) {
+    const lines = errors.map((error) => {
+      // A missing field is traced to the entry that lacks it
+      let source;
+      for (let depth = error.path.length; depth > 1 && !source; depth--) {
+        [source] = explainConfigValue(layers, error.path.slice(0, depth));
+      }
+      const origin = source?.envVar || source?.path;
+      return `  ${formatSchemaError(error)}${origin ? ` (from ${origin})` : ""}`;
+    });
+    throw new Error(
+      `Invalid thoughts configuration:\n${lines.join("\n")}\nRun "thoughts config --edit" to fix it`,
+    );
+  }
+
+  return configFile.thoughts;
 }
 
 export function saveThoughtsConfig(
   thoughtsConfig: ThoughtsConfig,
-  options: Record<string, unknown> = {},
+  options: ConfigFileOptions = {},
+  quiet = false,
 ): void {
-  const configFile = loadConfigFile(options.configFile as string | undefined);
+  const configFile = loadConfigFile(options.configFile);
   configFile.thoughts = thoughtsConfig;
-  saveConfigFile(configFile, options.configFile as string | undefined);
+  saveConfigFile(configFile, options.configFile, quiet);
 }
 
 export function getDefaultThoughtsRepo(): string {
@@ -195,50 +258,139 @@ export function getRepoNameFromPath(repoPath: string): string {
 }
 
 /**
- * Resolves the profile config for a given repository path
- * Returns default config if no profile specified or profile not found
+ * Normalizes a git remote URL so that equivalent ssh and https forms compare
+ * equal, e.g. git@github.com:org/repo.git and https://github.com/org/repo
+ * both become github.com/org/repo. Local paths are returned without .git.
  */
-export function resolveProfileForRepo(
+export function normalizeRemoteUrl(url: string): string {
+  const stripPath = (repoPath: string) =>
+    repoPath
+      .replace(/\/+$/, "")
+      .replace(/\.git$/, "")
+      .replace(/\/+$/, "");
+
+  let host: string;
+  let repoPath: string;
+
+  const withScheme = url.trim().match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  if (withScheme) {
+    if (withScheme[1].toLowerCase() === "file") {
+      return stripPath(withScheme[2]);
+    }
+    const [authority, ...parts] = withScheme[2].split("/");
+    // Drop credentials and port
+    host = authority.replace(/^.*@/, "").replace(/:\d*$/, "");
+    repoPath = parts.join("/");
+  } else {
+    // scp-like syntax: [user@]host:path
+    const scpLike = url.trim().match(/^(?:[^@/]+@)?([^:/]+):(.*)$/);
+    if (!scpLike) {
+      return stripPath(url.trim());
+    }
+    host = scpLike[1];
+    repoPath = scpLike[2];
+  }
+
+  return `${host.toLowerCase()}/${stripPath(repoPath.replace(/^\/+/, ""))}`;
+}
+
+/**
+ * Returns the normalized origin URL of a repository, or null if it has none
+ */
+export function getRepoRemoteUrl(repoPath: string): string | null {
+  try {
+    const url = execSync("git remote get-url origin", {
+      cwd: repoPath,
+      encoding: "utf8",
+      stdio: "pipe",
+    }).trim();
+    return url ? normalizeRemoteUrl(url) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the mapping for a repository: by its path first, then by its origin
+ * remote so that other checkouts of the same repository are recognized.
+ * The remote is looked up from git unless given.
+ */
+export function findRepoMapping(
   config: ThoughtsConfig,
   repoPath: string,
-): ResolvedProfileConfig {
-  const mapping = config.repoMappings[repoPath];
+  remote?: string | null,
+): RepoMappingMatch | undefined {
+  const byPath = config.repoMappings[repoPath];
+  if (byPath) {
+    return { repoPath, mapping: byPath, matchedBy: "path" };
+  }
 
-  // Handle string format (legacy - no profile)
-  if (typeof mapping === "string") {
-    return {
-      thoughtsRepo: config.thoughtsRepo,
-      reposDir: config.reposDir,
-      globalDir: config.globalDir,
-      profileName: undefined,
-    };
+  const repoRemote = remote === undefined ? getRepoRemoteUrl(repoPath) : remote;
+  if (!repoRemote) return undefined;
+
+  for (const [mappedPath, mapping] of Object.entries(config.repoMappings)) {
+    if (typeof mapping === "object" && mapping.remote === repoRemote) {
+      return { repoPath: mappedPath, mapping, matchedBy: "remote" };
+    }
   }
 
-  // Handle object format
-  if (mapping && typeof mapping === "object") {
-    const profileName = mapping.profile;
-
-    // If profile specified, look it up
-    if (profileName && config.profiles && config.profiles[profileName]) {
-      const profile = config.profiles[profileName];
-      return {
-        thoughtsRepo: profile.thoughtsRepo,
-        reposDir: profile.reposDir,
-        globalDir: profile.globalDir,
-        profileName,
-      };
+  return undefined;
+}
+
+/**
+ * Finds the mapping for a repository and brings the config up to date with
+ * it: the origin remote is recorded on path-keyed entries, and a match found
+ * by remote is stored under the repository's path (replacing the old entry
+ * if that checkout no longer exists). Saves the config if anything changed.
+ */
+export function resolveRepoMapping(
+  config: ThoughtsConfig,
+  repoPath: string,
+  options: ConfigFileOptions = {},
+): RepoMappingMatch | undefined {
+  const remote = getRepoRemoteUrl(repoPath);
+  const match = findRepoMapping(config, repoPath, remote);
+  if (!match) return undefined;
+
+  const current =
+    typeof match.mapping === "string" ? { repo: match.mapping } : match.mapping;
+  const mapping: RepoMappingObject = remote ? { ...current, remote } : current;
+
+  const moved = match.repoPath !== repoPath && !fs.existsSync(match.repoPath);
+  const changed =
+    match.repoPath !== repoPath || (!!remote && current.remote !== remote);
+
+  if (changed) {
+    if (moved) {
+      delete config.repoMappings[match.repoPath];
     }
+    config.repoMappings[repoPath] = mapping;
+    // Quiet so commands with machine-readable output stay parseable
+    saveThoughtsConfig(config, options, true);
+  }
 
-    // Object format but no profile or profile not found - use default
+  return { ...match, mapping: config.repoMappings[repoPath] };
+}
+
+/**
+ * Resolves a profile by name, falling back to the default config when no
+ * profile is given or it does not exist
+ */
+export function resolveProfileConfig(
+  config: ThoughtsConfig,
+  profileName?: string,
+): ResolvedProfileConfig {
+  const profile = profileName ? config.profiles?.[profileName] : undefined;
+  if (profile) {
     return {
-      thoughtsRepo: config.thoughtsRepo,
-      reposDir: config.reposDir,
-      globalDir: config.globalDir,
-      profileName: undefined,
+      thoughtsRepo: profile.thoughtsRepo,
+      reposDir: profile.reposDir,
+      globalDir: profile.globalDir,
+      profileName,
+      ...(profile.remote && { remote: profile.remote }),
+      ...(profile.hooks && { hooks: profile.hooks }),
     };
   }
-
-  // No mapping - use default
   return {
     thoughtsRepo: config.thoughtsRepo,
     reposDir: config.reposDir,
@@ -247,6 +399,124 @@ export function resolveProfileForRepo(
   };
 }
 
+/**
+ * Converts a glob into a regular expression: "**" matches across "/", "*"
+ * and "?" only within one path segment. A trailing "/**" also matches the
+ * directory itself, so ~/work/** matches ~/work.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith("/**", i) && i + 3 === glob.length) {
+      source += "(?:/.*)?";
+      break;
+    } else if (glob.startsWith("**", i)) {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Describes what a profile rule matches on, for messages
+ */
+export function describeProfileRule(rule: ProfileRule): string {
+  return [
+    rule.path && `path ${rule.path}`,
+    rule.remote && `remote ${rule.remote}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Picks a profile for a repository from the profile rules: the first rule
+ * whose patterns all match wins, then defaultProfile. Returns undefined when
+ * the repository belongs in the default thoughts repository. The remote is
+ * looked up from git, only if a rule needs it, unless given.
+ */
+export function matchProfileRules(
+  config: ThoughtsConfig,
+  repoPath: string,
+  remote?: string | null,
+): ProfileRuleMatch | undefined {
+  const resolvedPath = path.resolve(expandPath(repoPath));
+  let repoRemote = remote;
+
+  for (const rule of config.profileRules ?? []) {
+    if (
+      rule.path &&
+      !globToRegExp(path.resolve(expandPath(rule.path))).test(resolvedPath)
+    ) {
+      continue;
+    }
+    if (rule.remote) {
+      if (repoRemote === undefined) {
+        repoRemote = getRepoRemoteUrl(repoPath);
+      }
+      if (
+        !repoRemote ||
+        !globToRegExp(normalizeRemoteUrl(rule.remote)).test(repoRemote)
+      ) {
+        continue;
+      }
+    }
+    return { profile: rule.profile, rule };
+  }
+
+  return config.defaultProfile ? { profile: config.defaultProfile } : undefined;
+}
+
+/**
+ * Compares a mapped repository's profile with the one the profile rules would
+ * pick for it. Returns undefined when they agree or no rules are configured.
+ * The remote recorded on the mapping is used, then the one given, then git's.
+ */
+export function findProfileRuleConflict(
+  config: ThoughtsConfig,
+  repoPath: string,
+  mapping: string | RepoMappingObject,
+  remote?: string | null,
+): ProfileRuleConflict | undefined {
+  if (!config.profileRules?.length && !config.defaultProfile) return undefined;
+
+  const mappedProfile = getProfileNameFromMapping(mapping);
+  const match = matchProfileRules(
+    config,
+    repoPath,
+    typeof mapping === "object" && mapping.remote ? mapping.remote : remote,
+  );
+  if (match?.profile === mappedProfile) return undefined;
+
+  return { mappedProfile, ruleProfile: match?.profile, rule: match?.rule };
+}
+
+/**
+ * Resolves the profile config for a given repository path: the mapping's
+ * profile if the repository is mapped, otherwise the one the profile rules
+ * pick. Returns default config if there is none or it is not found. The
+ * remote is looked up from git, only if needed, unless given.
+ */
+export function resolveProfileForRepo(
+  config: ThoughtsConfig,
+  repoPath: string,
+  remote?: string | null,
+): ResolvedProfileConfig {
+  const match = findRepoMapping(config, repoPath, remote);
+  const profileName = match
+    ? getProfileNameFromMapping(match.mapping)
+    : matchProfileRules(config, repoPath, remote)?.profile;
+  return resolveProfileConfig(config, profileName);
+}
+
 /**
  * Gets the repo name from a mapping (handles both string and object formats)
  */
@@ -466,3 +736,50 @@ export function updateSymlinksForNewUsers(
 
   return addedSymlinks;
 }
+
+/**
+ * Recursively finds all files reachable from a directory, following symlinks.
+ * Returns paths relative to baseDir. Hidden entries and CLAUDE.md are skipped.
+ */
+export function findFilesFollowingSymlinks(
+  dir: string,
+  baseDir: string = dir,
+  visited: Set<string> = new Set(),
+): string[] {
+  const files: string[] = [];
+
+  // Resolve symlinks to avoid cycles
+  const realPath = fs.realpathSync(dir);
+  if (visited.has(realPath)) {
+    return files;
+  }
+  visited.add(realPath);
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith(".")) {
+      files.push(...findFilesFollowingSymlinks(fullPath, baseDir, visited));
+    } else if (entry.isSymbolicLink() && !entry.name.startsWith(".")) {
+      try {
+        const stat = fs.statSync(fullPath);
+        if (stat.isDirectory()) {
+          files.push(...findFilesFollowingSymlinks(fullPath, baseDir, visited));
+        } else if (stat.isFile() && path.basename(fullPath) !== "CLAUDE.md") {
+          files.push(path.relative(baseDir, fullPath));
+        }
+      } catch {
+        // Ignore broken symlinks
+      }
+    } else if (
+      entry.isFile() &&
+      !entry.name.startsWith(".") &&
+      entry.name !== "CLAUDE.md"
+    ) {
+      files.push(path.relative(baseDir, fullPath));
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execSync } from "child_process";
+import {
+  claimDaemonPidFile,
+  commitAllChanges,
+  generateCommitMessage,
+  getMappedThoughtsRepos,
+  pullAndPush,
+  readDaemonPid,
+  watchThoughtsRepos,
+  writeDaemonPid,
+} from "./watcher.js";
+import { isRebaseInProgress } from "./conflicts.js";
+import type { ThoughtsConfig } from "./thoughtsConfig.js";
+
+describe("watcher.ts", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thoughts-watcher-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("generateCommitMessage()", () => {
+    it("should describe a single file", () => {
+      expect(generateCommitMessage(["M\trepos/proj/alice/a.md"])).toBe(
+        "Auto-sync: 1 file changed (repos/proj/alice/a.md)",
+      );
+    });
+
+    it("should summarize many files", () => {
+      expect(
+        generateCommitMessage(["A\ta.md", "M\tb.md", "D\tc.md", "A\td.md"]),
+      ).toBe("Auto-sync: 4 files changed (a.md, b.md, c.md and 1 more)");
+    });
+
+    it("should use the new name for renames", () => {
+      expect(generateCommitMessage(["R100\told.md\tnew.md"])).toBe(
+        "Auto-sync: 1 file changed (new.md)",
+      );
+    });
+  });
+
+  describe("getMappedThoughtsRepos()", () => {
+    it("should return unique existing thoughts repos across profiles", () => {
+      const defaultRepo = path.join(tmpDir, "thoughts");
+      const workRepo = path.join(tmpDir, "thoughts-work");
+      fs.mkdirSync(defaultRepo);
+      fs.mkdirSync(workRepo);
+
+      const config: ThoughtsConfig = {
+        thoughtsRepo: defaultRepo,
+        reposDir: "repos",
+        globalDir: "global",
+        user: "alice",
+        repoMappings: {
+          "/code/a": "a",
+          "/code/b": { repo: "b" },
+          "/code/c": { repo: "c", profile: "work" },
+          "/code/d": { repo: "d", profile: "gone" },
+        },
+        profiles: {
+          work: { thoughtsRepo: workRepo, reposDir: "repos", globalDir: "g" },
+          gone: {
+            thoughtsRepo: path.join(tmpDir, "missing"),
+            reposDir: "repos",
+            globalDir: "g",
+          },
+        },
+      };
+
+      expect(getMappedThoughtsRepos(config)).toEqual([defaultRepo, workRepo]);
+    });
+  });
+
+  describe("commitAllChanges()", () => {
+    beforeEach(() => {
+      execSync("git init", { cwd: tmpDir, stdio: "pipe" });
+      execSync("git config user.name test", { cwd: tmpDir, stdio: "pipe" });
+      execSync("git config user.email test@example.com", {
+        cwd: tmpDir,
+        stdio: "pipe",
+      });
+    });
+
+    it("should commit changes with a generated message", () => {
+      fs.writeFileSync(path.join(tmpDir, "note.md"), "hello");
+
+      const message = commitAllChanges(tmpDir);
+      expect(message).toBe("Auto-sync: 1 file changed (note.md)");
+
+      const log = execSync("git log -1 --pretty=%s", {
+        cwd: tmpDir,
+        encoding: "utf8",
+      }).trim();
+      expect(log).toBe(message);
+    });
+
+    it("should return null when there is nothing to commit", () => {
+      fs.writeFileSync(path.join(tmpDir, "note.md"), "hello");
+      commitAllChanges(tmpDir);
+
+      expect(commitAllChanges(tmpDir)).toBeNull();
+    });
+  });
+
+  describe("watchThoughtsRepos()", () => {
+    beforeEach(() => {
+      execSync("git init", { cwd: tmpDir, stdio: "pipe" });
+      execSync("git config user.name test", { cwd: tmpDir, stdio: "pipe" });
+      execSync("git config user.email test@example.com", {
+        cwd: tmpDir,
+        stdio: "pipe",
+      });
+    });
+
+    it("should report each commit once it is made", async () => {
+      const changes: string[] = [];
+      const watcher = watchThoughtsRepos([tmpDir], {
+        debounceMs: 0,
+        intervalMs: 60_000,
+        log: () => {},
+        onUpdate: (repo) =>
+          changes.push(
+            execSync("git status --porcelain", { cwd: repo, encoding: "utf8" }),
+          ),
+      });
+      fs.writeFileSync(path.join(tmpDir, "note.md"), "hello");
+      await vi.waitFor(() => expect(changes).toEqual([""]));
+      watcher.stop();
+    });
+
+    it("should commit edits that are still settling before pulling", async () => {
+      const run = (cwd: string, command: string) =>
+        execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+      const remote = path.join(tmpDir, "remote.git");
+      const repo = path.join(tmpDir, "clone");
+      run(tmpDir, `git init -q --bare -b main ${remote}`);
+      run(tmpDir, `git clone -q ${remote} ${repo}`);
+      run(repo, "git config user.name test");
+      run(repo, "git config user.email test@example.com");
+      fs.writeFileSync(path.join(repo, "note.md"), "base\n");
+      run(
+        repo,
+        "git add -A && git commit -qm base && git push -qu origin HEAD",
+      );
+
+      const logs: string[] = [];
+      const watcher = watchThoughtsRepos([repo], {
+        debounceMs: 60_000,
+        intervalMs: 50,
+        log: (message) => logs.push(message),
+      });
+      fs.writeFileSync(path.join(repo, "note.md"), "edited\n");
+      await vi.waitFor(() =>
+        expect(run(remote, "git log -1 --pretty=%s")).toContain("Auto-sync"),
+      );
+      watcher.stop();
+      expect(logs.filter((message) => message.includes("failed"))).toEqual([]);
+    });
+
+    it("should report each exchange with the remote", async () => {
+      const updates: string[] = [];
+      const logs: string[] = [];
+      const watcher = watchThoughtsRepos([tmpDir], {
+        debounceMs: 0,
+        intervalMs: 10,
+        log: (message) => logs.push(message),
+        onUpdate: (repo) => {
+          updates.push(repo);
+          if (updates.length === 1) throw new Error("disk full");
+        },
+      });
+      await vi.waitFor(() => expect(updates.length).toBeGreaterThan(1));
+      watcher.stop();
+      expect(new Set(updates)).toEqual(new Set([tmpDir]));
+      // A failure is logged rather than stopping the daemon
+      expect(logs[0]).toBe(
+        `Could not record the state of ${tmpDir}: Error: disk full`,
+      );
+    });
+  });
+
+  describe("a sync stopped on conflicts", () => {
+    const run = (cwd: string, command: string) =>
+      execSync(command, { cwd, stdio: "pipe", encoding: "utf8" });
+
+    let clone: string;
+
+    beforeEach(() => {
+      const remote = path.join(tmpDir, "remote.git");
+      const other = path.join(tmpDir, "other");
+      clone = path.join(tmpDir, "clone");
+      run(tmpDir, `git init --bare -b main ${remote}`);
+      for (const dir of [other, clone]) {
+        run(tmpDir, `git clone ${remote} ${dir}`);
+        run(dir, "git config user.name test");
+        run(dir, "git config user.email test@example.com");
+        run(dir, "git checkout -B main");
+      }
+      fs.writeFileSync(path.join(other, "note.md"), "base\n");
+      run(other, "git add -A && git commit -m base && git push -u origin main");
+      run(clone, "git pull origin main && git branch -u origin/main");
+
+      fs.writeFileSync(path.join(other, "note.md"), "theirs\n");
+      run(other, "git commit -am theirs && git push");
+      fs.writeFileSync(path.join(clone, "note.md"), "mine\n");
+      run(clone, "git commit -am mine");
+      try {
+        run(clone, "git pull --rebase");
+      } catch {
+        // Stops on the conflict, as "thoughts sync" does
+      }
+      // The user is part way through resolving it
+      fs.writeFileSync(path.join(clone, "note.md"), "<<<<<<< half done\n");
+    });
+
+    it("should neither commit nor abort the user's rebase", async () => {
+      const head = run(clone, "git rev-parse HEAD");
+      const logs: string[] = [];
+
+      expect(pullAndPush(clone, (message) => logs.push(message))).toBe(false);
+      expect(logs[0]).toContain("stopped on conflicts");
+
+      const watcher = watchThoughtsRepos([clone], {
+        debounceMs: 0,
+        intervalMs: 60_000,
+        log: (message) => logs.push(message),
+      });
+      fs.writeFileSync(path.join(clone, "other.md"), "x");
+      await vi.waitFor(() => expect(logs[1]).toContain("Skipping commit"));
+      watcher.stop();
+
+      expect(isRebaseInProgress(clone)).toBe(true);
+      expect(run(clone, "git rev-parse HEAD")).toBe(head);
+      expect(fs.readFileSync(path.join(clone, "note.md"), "utf8")).toBe(
+        "<<<<<<< half done\n",
+      );
+    });
+
+    it("should abort a rebase its own pull started", () => {
+      run(clone, "git rebase --abort");
+      const logs: string[] = [];
+
+      expect(pullAndPush(clone, (message) => logs.push(message))).toBe(false);
+      expect(logs[0]).toContain("Pull failed");
+      expect(isRebaseInProgress(clone)).toBe(false);
+    });
+  });
+
+  describe("claimDaemonPidFile()", () => {
+    it("should let only one start claim the pidfile", () => {
+      const pidFile = path.join(tmpDir, "daemon.pid");
+      // Left behind by a daemon that is gone
+      fs.writeFileSync(pidFile, "2147483646\nThu Jan  1 00:00:00 2015\n");
+
+      expect(claimDaemonPidFile(pidFile)).toBeNull();
+      expect(readDaemonPid(pidFile)).toBe(process.pid);
+      expect(claimDaemonPidFile(pidFile)).toBe(process.pid);
+      expect(fs.readdirSync(tmpDir)).toEqual(["daemon.pid"]);
+    });
+  });
+
+  describe("readDaemonPid()", () => {
+    it("should return the pid of a running process", () => {
+      const pidFile = path.join(tmpDir, "daemon.pid");
+      writeDaemonPid(pidFile, process.pid);
+
+      expect(readDaemonPid(pidFile)).toBe(process.pid);
+    });
+
+    it("should not trust a pid that now belongs to another process", () => {
+      const pidFile = path.join(tmpDir, "daemon.pid");
+      // Recorded when the daemon started, before its pid was reused
+      fs.writeFileSync(pidFile, `${process.pid}\nThu Jan  1 00:00:00 2015\n`);
+
+      expect(readDaemonPid(pidFile)).toBeNull();
+      expect(fs.existsSync(pidFile)).toBe(false);
+
+      // Nor one recorded without a start time
+      fs.writeFileSync(pidFile, String(process.pid));
+      expect(readDaemonPid(pidFile)).toBeNull();
+    });
+
+    it("should remove a stale pidfile", () => {
+      const pidFile = path.join(tmpDir, "daemon.pid");
+      // Pid numbers this high are never handed out
+      fs.writeFileSync(pidFile, "2147483646");
+
+      expect(readDaemonPid(pidFile)).toBeNull();
+      expect(fs.existsSync(pidFile)).toBe(false);
+    });
+
+    it("should return null without a pidfile", () => {
+      expect(readDaemonPid(path.join(tmpDir, "missing.pid"))).toBeNull();
+    });
+  });
+});
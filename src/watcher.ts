@@ -0,0 +1,397 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import { getDefaultStateDir } from "./config.js";
+import { isRebaseInProgress } from "./conflicts.js";
+import {
+  getProcessStartTime,
+  isProcessRunning,
+  tryAcquireRepoLock,
+} from "./lock.js";
+import { recordFetch, recordSync } from "./syncState.js";
+import {
+  expandPath,
+  resolveProfileForRepo,
+  type ThoughtsConfig,
+} from "./thoughtsConfig.js";
+
+export interface WatchOptions {
+  debounceMs: number; // Quiet period after the last edit before committing
+  intervalMs: number; // How often to pull and push
+  log: (message: string) => void;
+  onUpdate?: (repo: string) => void; // After a commit or a pull and push
+}
+
+export interface ThoughtsWatcher {
+  repos: string[];
+  stop: () => void;
+}
+
+export interface DaemonPaths {
+  pidFile: string;
+  logFile: string;
+}
+
+export function getDaemonPaths(): DaemonPaths {
+  const stateDir = getDefaultStateDir();
+  return {
+    pidFile: path.join(stateDir, "thoughts-daemon.pid"),
+    logFile: path.join(stateDir, "thoughts-daemon.log"),
+  };
+}
+
+/**
+ * Records the daemon's pid along with its start time, which tells it apart
+ * from an unrelated process that is later given the same pid
+ */
+export function writeDaemonPid(pidFile: string, pid: number): void {
+  // Renamed into place so readers never see a half-written file
+  const tmpFile = `${pidFile}.${process.pid}`;
+  fs.writeFileSync(tmpFile, `${pid}\n${getProcessStartTime(pid) || ""}\n`);
+  fs.renameSync(tmpFile, pidFile);
+}
+
+/**
+ * Claims the pidfile for a daemon about to start, recording this process
+ * until writeDaemonPid replaces it with the daemon's. The file is linked
+ * into place, which fails if it exists, so of two starts at once only one
+ * wins. Returns the pid of the daemon already running (or being started by
+ * another process), or null once the pidfile is ours.
+ */
+export function claimDaemonPidFile(pidFile: string): number | null {
+  const tmpFile = `${pidFile}.${process.pid}`;
+  fs.writeFileSync(
+    tmpFile,
+    `${process.pid}\n${getProcessStartTime(process.pid) || ""}\n`,
+  );
+  try {
+    for (;;) {
+      try {
+        fs.linkSync(tmpFile, pidFile);
+        return null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+      // Removes the pidfile if its process is gone, so the next try wins
+      const pid = readDaemonPid(pidFile);
+      if (pid) return pid;
+    }
+  } finally {
+    fs.rmSync(tmpFile, { force: true });
+  }
+}
+
+/**
+ * Returns the pid of the running daemon, removing a stale pidfile if the
+ * recorded process is gone or its pid now belongs to another process. A
+ * pidfile without a start time cannot be verified and is treated as stale.
+ */
+export function readDaemonPid(pidFile: string): number | null {
+  let pid: number;
+  let startTime: string | undefined;
+  try {
+    const [pidLine, startLine] = fs.readFileSync(pidFile, "utf8").split("\n");
+    pid = parseInt(pidLine.trim());
+    startTime = startLine?.trim();
+  } catch {
+    return null;
+  }
+
+  if (
+    !isNaN(pid) &&
+    startTime &&
+    isProcessRunning(pid) &&
+    getProcessStartTime(pid) === startTime
+  ) {
+    return pid;
+  }
+
+  fs.rmSync(pidFile, { force: true });
+  return null;
+}
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: repoPath,
+    encoding: "utf8",
+    stdio: "pipe",
+  });
+}
+
+/**
+ * Returns the expanded paths of every thoughts repository referenced by a
+ * repo mapping, without duplicates. Repositories that no longer exist on
+ * disk are skipped.
+ */
+export function getMappedThoughtsRepos(config: ThoughtsConfig): string[] {
+  const repos = new Set<string>();
+
+  for (const repoPath of Object.keys(config.repoMappings)) {
+    const profileConfig = resolveProfileForRepo(config, repoPath);
+    repos.add(expandPath(profileConfig.thoughtsRepo));
+  }
+
+  return [...repos].filter((repo) => fs.existsSync(repo));
+}
+
+/**
+ * Builds a commit message from `git diff --cached --name-status` lines
+ */
+export function generateCommitMessage(changes: string[]): string {
+  const files = changes.map((line) => line.split("\t").pop() || line);
+  const shown = files.slice(0, 3).join(", ");
+  const more = files.length > 3 ? ` and ${files.length - 3} more` : "";
+  const noun = files.length === 1 ? "file" : "files";
+
+  return `Auto-sync: ${files.length} ${noun} changed (${shown}${more})`;
+}
+
+/**
+ * Stages and commits everything in a thoughts repository.
+ * Returns the commit message, or null if there was nothing to commit.
+ */
+export function commitAllChanges(repoPath: string): string | null {
+  git(repoPath, ["add", "-A"]);
+
+  const changes = git(repoPath, ["diff", "--cached", "--name-status"])
+    .split("\n")
+    .filter((line) => line.trim());
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const message = generateCommitMessage(changes);
+  git(repoPath, ["commit", "-m", message]);
+  return message;
+}
+
+/**
+ * Pulls (rebasing local commits) and pushes a thoughts repository.
+ * A rebase this pull starts and that stops on conflicts is aborted, so the
+ * daemon never leaves a repository mid-rebase. One already in progress
+ * belongs to the user and is left alone. Returns false if the exchange with
+ * the remote failed or was skipped.
+ */
+export function pullAndPush(
+  repoPath: string,
+  log: (message: string) => void,
+): boolean {
+  if (isRebaseInProgress(repoPath)) {
+    log(
+      `Skipping pull in ${repoPath}: a sync is stopped on conflicts, run "thoughts sync --continue"`,
+    );
+    return false;
+  }
+
+  try {
+    git(repoPath, ["remote", "get-url", "origin"]);
+  } catch {
+    // No remote configured - nothing to exchange
+    return true;
+  }
+
+  try {
+    git(repoPath, ["pull", "--rebase"]);
+    recordFetch(repoPath);
+  } catch (error) {
+    if (isRebaseInProgress(repoPath)) {
+      try {
+        git(repoPath, ["rebase", "--abort"]);
+      } catch {
+        // Left for "thoughts sync --abort"
+      }
+    }
+    log(`Pull failed in ${repoPath}, run "thoughts sync" to resolve: ${error}`);
+    return false;
+  }
+
+  try {
+    git(repoPath, ["push"]);
+  } catch (error) {
+    log(`Push failed in ${repoPath}: ${error}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Watches a directory tree and calls onChange with the changed path
+ * (relative to dir). Uses recursive fs.watch where the platform supports it
+ * and falls back to one watcher per directory otherwise.
+ */
+export function watchDirectoryTree(
+  dir: string,
+  onChange: (relPath: string) => void,
+): () => void {
+  const isIgnored = (relPath: string) =>
+    relPath.split(path.sep).includes(".git");
+
+  try {
+    const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+      const relPath = filename ? filename.toString() : "";
+      if (!isIgnored(relPath)) {
+        onChange(relPath);
+      }
+    });
+    return () => watcher.close();
+  } catch {
+    // Recursive watching is unavailable on this platform/Node version
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const watchDir = (relDir: string) => {
+    const fullDir = path.join(dir, relDir);
+    if (watchers.has(fullDir) || isIgnored(relDir)) return;
+
+    try {
+      watchers.set(
+        fullDir,
+        fs.watch(fullDir, (_event, filename) => {
+          const relPath = path.join(
+            relDir,
+            filename ? filename.toString() : "",
+          );
+          if (isIgnored(relPath)) return;
+
+          // Pick up directories created after the watch started
+          try {
+            if (fs.statSync(path.join(dir, relPath)).isDirectory()) {
+              watchDir(relPath);
+            }
+          } catch {
+            // Deleted - nothing to watch
+          }
+          onChange(relPath);
+        }),
+      );
+
+      for (const entry of fs.readdirSync(fullDir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          watchDir(path.join(relDir, entry.name));
+        }
+      }
+    } catch {
+      // Directory vanished while we were walking it
+    }
+  };
+
+  watchDir("");
+  return () => watchers.forEach((watcher) => watcher.close());
+}
+
+/**
+ * Watches thoughts repositories, committing edits once they settle and
+ * pulling/pushing on an interval; edits still settling are committed before
+ * each pull. options.onUpdate runs after each of those, while the repository
+ * is still locked. Returns a handle to stop watching, which commits anything
+ * still pending.
+ */
+export function watchThoughtsRepos(
+  repos: string[],
+  options: WatchOptions,
+): ThoughtsWatcher {
+  const pending = new Map<string, NodeJS.Timeout>();
+  const closers: Array<() => void> = [];
+
+  const schedule = (repo: string) => {
+    clearTimeout(pending.get(repo));
+    pending.set(
+      repo,
+      setTimeout(() => commit(repo), options.debounceMs),
+    );
+  };
+
+  const update = (repo: string) => {
+    try {
+      options.onUpdate?.(repo);
+    } catch (error) {
+      options.log(`Could not record the state of ${repo}: ${error}`);
+    }
+  };
+
+  // The caller holds the repository lock
+  const commitChanges = (repo: string) => {
+    const message = commitAllChanges(repo);
+    if (message) {
+      options.log(`${repo}: ${message}`);
+      update(repo);
+    }
+  };
+
+  const commit = (repo: string) => {
+    pending.delete(repo);
+
+    // Another thoughts command is working in this repo - try again later
+    const lock = tryAcquireRepoLock(repo, "watch");
+    if (!lock) {
+      schedule(repo);
+      return;
+    }
+
+    try {
+      // Committing now would record the conflict markers being resolved
+      if (isRebaseInProgress(repo)) {
+        options.log(
+          `Skipping commit in ${repo}: a sync is stopped on conflicts, run "thoughts sync --continue"`,
+        );
+        return;
+      }
+      commitChanges(repo);
+    } catch (error) {
+      options.log(`Commit failed in ${repo}: ${error}`);
+    } finally {
+      lock.release();
+    }
+  };
+
+  for (const repo of repos) {
+    closers.push(watchDirectoryTree(repo, () => schedule(repo)));
+  }
+
+  const sync = () => {
+    for (const repo of repos) {
+      // Skip this round if a sync is already exchanging with the remote
+      const lock = tryAcquireRepoLock(repo, "watch");
+      if (!lock) continue;
+      try {
+        // A pull fails on uncommitted changes, so edits still waiting for
+        // their quiet period are committed first. pullAndPush reports a
+        // stopped sync, so that case is left to it.
+        clearTimeout(pending.get(repo));
+        pending.delete(repo);
+        if (!isRebaseInProgress(repo)) {
+          try {
+            commitChanges(repo);
+          } catch (error) {
+            options.log(`Commit failed in ${repo}: ${error}`);
+            continue;
+          }
+        }
+        if (pullAndPush(repo, options.log)) {
+          recordSync(repo);
+        }
+        update(repo);
+      } finally {
+        lock.release();
+      }
+    }
+  };
+  const interval = setInterval(sync, options.intervalMs);
+
+  return {
+    repos,
+    stop: () => {
+      clearInterval(interval);
+      closers.forEach((close) => close());
+      for (const [repo, timer] of [...pending]) {
+        clearTimeout(timer);
+        commit(repo);
+      }
+      // Anything still pending was blocked by a lock - leave it for next time
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    },
+  };
+}